@@ -0,0 +1 @@
+export const formatName = (name: string): string => name.trim()
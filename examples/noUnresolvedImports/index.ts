@@ -0,0 +1,4 @@
+import { formatName } from './helpers.js'
+import { formatDate } from './helpres'
+
+export const label = (name: string, date: Date): string => `${formatName(name)} ${formatDate(date)}`
@@ -0,0 +1,961 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { RuleSeverity, type Rule } from 'auto-cr-rules'
+import { setTsConfigPath } from './config'
+import type { ReporterFormat } from './report'
+import { getLanguage, getTranslator, setLanguage } from './i18n'
+import { getAllFiles, checkPathExists } from './utils/file'
+import type { ChangedFiles } from './utils/git'
+import { analyzeFile } from './scan/analyzeFile'
+import { runProjectRules } from './scan/finalize'
+import type { SuppressionDirective } from './scan/suppressions'
+import { createScanProjectGraph } from './scan/project'
+import { mergeSummaries } from './scan/summary'
+import type {
+  AnalyzeFileSummary,
+  FileScanResult,
+  Logger,
+  Notification,
+  NotificationLevel,
+  ScanSummary,
+} from './scan/types'
+import { loadRulesRuntime } from './scan/runtime'
+import { createChangedLinesFilter } from './scan/diff'
+import { applyFileFixes, type FixMode } from './scan/fix'
+import { createBaselineMatcher, loadBaseline, writeBaseline, type BaselineMatcher } from './scan/baseline'
+import { computeCacheKey, openResultCache, type ResultCache } from './scan/cache'
+import { createWorkerPool } from './scan/workerPool'
+import { collectAffectedFiles, collectImportGraph } from './scan/graph'
+import { diffViolationCounts, watchPaths } from './scan/watch'
+import type { WorkerInitData } from './scan/workerTypes'
+import { loadCustomRules } from './rules/loader'
+import {
+  createRuleResolver,
+  createRuleSettingsResolver,
+  loadAutoCrRc,
+  resolveAutoCrRcConfig,
+  toAutoCrRcSource,
+  type AutoCrRcConfig,
+  type FailOnLevel,
+  type LoadedAutoCrRc,
+  type RuleSettingsResolver,
+} from './config/autocrrc'
+import { createIgnoreMatcher, loadIgnoreConfig } from './config/ignore'
+
+// 仅扫描 JS/TS 源码扩展名，避免把配置文件/JSON/图片等送进 SWC 解析导致报错。
+const SCANNABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx']
+
+// 运行 TS 源码时优先加载本地 rules，避免开发时拿到旧的 workspace 依赖。
+const rulesRuntime = loadRulesRuntime()
+const builtinRules = rulesRuntime.builtinRules
+const createRuleContext = rulesRuntime.createRuleContext
+
+// analyzeFile 内部 reporter 不输出，统一由调用方渲染，便于并发/缓存复用。
+const ANALYSIS_FORMAT: ReporterFormat = 'json'
+
+// 单文件路径也走扩展名过滤，保证与目录扫描的行为一致。
+const isScannableFile = (filePath: string): boolean =>
+  SCANNABLE_EXTENSIONS.some((extension) => filePath.endsWith(extension))
+
+// 小文件集无需并行，避免 worker 初始化开销大于收益。
+const MIN_FILES_FOR_WORKERS = 20
+
+const resolveWorkerCount = (totalFiles: number): number => {
+  // 支持环境变量覆盖并发数：
+  // - AUTO_CR_WORKERS=0 表示强制单线程；
+  // - AUTO_CR_WORKERS=1 表示不启用并行；
+  // - >1 则按指定数量启用 worker。
+  const override = process.env.AUTO_CR_WORKERS
+  if (override) {
+    const parsed = Number(override)
+    if (!Number.isNaN(parsed) && parsed >= 0) {
+      return Math.min(totalFiles, Math.floor(parsed))
+    }
+  }
+
+  if (totalFiles < MIN_FILES_FOR_WORKERS) {
+    return 1
+  }
+
+  // 默认按 CPU 数量 - 1 取值，给主线程留出空间。
+  const cpuCount = os.cpus().length || 1
+  const maxWorkers = Math.max(1, cpuCount - 1)
+  return Math.min(maxWorkers, totalFiles)
+}
+
+// 扫描过程回调：CLI 据此实时输出日志、违规与进度；库调用方可按需订阅。
+export interface AutoCrHooks {
+  // 每条日志产生时回调（worker 结果的日志按文件顺序回放）。
+  onNotification?: (record: Notification) => void
+  // 单文件结果按输入顺序回调，已完成 diff 裁剪、基线抵消与自动修复。
+  onFileResult?: (result: FileScanResult) => void
+  // 每一批文件开始/结束扫描时回调（watch 模式下每轮各触发一次）。
+  onScanStart?: (total: number) => void
+  onScanEnd?: () => void
+}
+
+export interface AutoCrOptions {
+  // 自定义规则：目录路径（同 --rule-dir，可在 worker 中加载），或直接传入规则对象（仅在主线程执行）。
+  rules?: string | Rule[]
+  // .autocrrc 路径或配置对象；不传时在工作目录查找。
+  config?: string | AutoCrRcConfig
+  // .autocrignore 路径或 glob 列表；不传时在工作目录查找。
+  ignore?: string | string[]
+  tsconfig?: string
+  // zh/en，不传时按 LANG 环境变量推断。
+  language?: string
+  reportUnusedDisableDirectives?: boolean
+  baselinePath?: string
+  // 用本次扫描结果更新基线文件（需同时传 baselinePath）：本次扫描的文件整体替换，其余文件的记录保留；不能与 changedFiles 同时使用。
+  updateBaseline?: boolean
+  // diff 模式下的变更文件与变更行，仅扫描这些文件并只报告变更行上的问题。
+  changedFiles?: ChangedFiles
+  // 自动修复：apply 写回文件，dry-run 只报告将要修改的内容。
+  fix?: FixMode
+  // 结果缓存文件路径；不传则不读写缓存。
+  cachePath?: string
+  // 失败判定策略，优先于 .autocrrc 中的 failOn/maxWarnings；默认存在 error 级别问题即失败。
+  failOn?: FailOnLevel
+  maxWarnings?: number
+  // 在结果中附带导入图与环路分量（ScanSummary.importGraph），基于扫描结束时的模块图。
+  importGraph?: boolean
+  hooks?: AutoCrHooks
+}
+
+export interface ScanFilesOptions {
+  // 首轮扫描后持续监听文件变化并增量重新扫描，until 结束后返回各文件的最新结果。
+  // 此时 summary.notifications 只保留首轮与最近一轮的日志，完整日志通过 hooks.onNotification 获取。
+  watch?: { until: Promise<void> }
+}
+
+export interface AutoCr {
+  scanFiles(paths: ReadonlyArray<string>, options?: ScanFilesOptions): Promise<ScanSummary>
+  // 扫描未落盘的源码（如编辑器缓冲区）；filePath 用于匹配配置、解析导入与输出，不做 diff/基线/修复处理。
+  scanSource(code: string, filePath: string): Promise<ScanSummary>
+}
+
+interface FailurePolicy {
+  failOn: FailOnLevel
+  maxWarnings?: number
+}
+
+// failOn 对应的判定级别：该级别及更严重的问题都会导致失败。
+const FAIL_ON_SEVERITIES: Record<FailOnLevel, RuleSeverity[]> = {
+  error: [RuleSeverity.Error],
+  warning: [RuleSeverity.Error, RuleSeverity.Warning],
+  optimizing: [RuleSeverity.Error, RuleSeverity.Warning, RuleSeverity.Optimizing],
+  none: [],
+}
+
+const isScanFailed = (totals: ScanSummary['violationTotals'], policy: FailurePolicy): boolean =>
+  FAIL_ON_SEVERITIES[policy.failOn].some((severity) => totals[severity] > 0) ||
+  (policy.maxWarnings !== undefined && totals.warning > policy.maxWarnings)
+
+// 提前结束扫描时返回的空结果。
+const createEmptySummary = (notifications: Notification[]): ScanSummary => ({
+  scannedFiles: 0,
+  filesWithErrors: 0,
+  filesWithWarnings: 0,
+  filesWithOptimizing: 0,
+  violationTotals: { total: 0, error: 0, warning: 0, optimizing: 0 },
+  files: [],
+  rules: [],
+  notifications,
+  failed: false,
+})
+
+// 汇总单文件结果，保持统计逻辑集中，首轮扫描与 watch 增量扫描共用。
+const summarizeScan = (
+  files: FileScanResult[],
+  rules: ReadonlyArray<Rule>,
+  notifications: Notification[],
+  policy: FailurePolicy
+): ScanSummary => {
+  const summary: ScanSummary = {
+    ...createEmptySummary(notifications),
+    scannedFiles: files.length,
+    files,
+    rules: rules.map(({ name, tag, severity }) => ({ name, tag, severity })),
+  }
+
+  for (const file of files) {
+    if (file.severityCounts.error > 0) {
+      summary.filesWithErrors += 1
+    }
+
+    if (file.severityCounts.warning > 0) {
+      summary.filesWithWarnings += 1
+    }
+
+    if (file.severityCounts.optimizing > 0) {
+      summary.filesWithOptimizing += 1
+    }
+
+    summary.violationTotals.total += file.totalViolations
+    summary.violationTotals.error += file.errorViolations
+    summary.violationTotals.warning += file.severityCounts.warning
+    summary.violationTotals.optimizing += file.severityCounts.optimizing
+  }
+
+  summary.failed = isScanFailed(summary.violationTotals, policy)
+  return summary
+}
+
+const toFileScanResult = (filePath: string, summary: AnalyzeFileSummary): FileScanResult => ({
+  filePath,
+  severityCounts: summary.severityCounts,
+  totalViolations: summary.totalViolations,
+  errorViolations: summary.errorViolations,
+  violations: summary.violations,
+})
+
+// 比较两次 finalize 为同一文件上报的违规是否一致。
+const isSameViolations = (left?: AnalyzeFileSummary, right?: AnalyzeFileSummary): boolean =>
+  JSON.stringify(left?.violations ?? []) === JSON.stringify(right?.violations ?? [])
+
+// 按名称合并各文件启用的规则，保持首次出现的顺序。
+const collectEnabledRules = (files: ReadonlyArray<string>, resolveRules: (filePath: string) => Rule[]): Rule[] => {
+  const enabled = new Map<string, Rule>()
+
+  files.forEach((filePath) =>
+    resolveRules(filePath).forEach((rule) => {
+      if (!enabled.has(rule.name)) {
+        enabled.set(rule.name, rule)
+      }
+    })
+  )
+
+  return Array.from(enabled.values())
+}
+
+// 参与扫描的全部配置文件（基础配置 + 嵌套配置），用于结果缓存指纹。
+const collectConfigFiles = (files: ReadonlyArray<string>, settingsResolver: RuleSettingsResolver): string[] => {
+  const configFiles = new Set<string>()
+  files.forEach((filePath) =>
+    settingsResolver.configFiles(filePath).forEach((configPath) => configFiles.add(configPath))
+  )
+  return Array.from(configFiles).sort()
+}
+
+// 这些文件变化会影响模块解析（paths/workspace），watch 模式下需重建全部依赖缓存。
+const PROJECT_CONFIG_PATTERN = /^(tsconfig(\..+)?\.json|jsconfig\.json|package\.json)$/
+
+const isProjectConfigFile = (filePath: string): boolean => PROJECT_CONFIG_PATTERN.test(path.basename(filePath))
+
+const isExistingFile = (filePath: string): boolean => {
+  try {
+    return fs.statSync(filePath).isFile()
+  } catch {
+    return false
+  }
+}
+
+// 统一把日志转换为 Notification，便于缓存/worker 结果回放。
+// detail 统一转成字符串，保证可序列化。
+const createNotification = (level: NotificationLevel, message: string, detail?: unknown): Notification => {
+  let detailText: string | undefined
+
+  if (detail !== undefined) {
+    if (detail instanceof Error) {
+      detailText = detail.message
+    } else if (typeof detail === 'string') {
+      detailText = detail
+    } else {
+      try {
+        detailText = JSON.stringify(detail)
+      } catch {
+        detailText = String(detail)
+      }
+    }
+  }
+
+  return { level, message, detail: detailText }
+}
+
+/**
+ * 创建扫描器（库入口）：不解析命令行、不输出到终端、不退出进程。
+ * 语言与 tsconfig 为进程级设置，每次扫描开始时按本实例的选项重新应用。
+ */
+export function createAutoCr(options: AutoCrOptions = {}): AutoCr {
+  const hooks = options.hooks ?? {}
+  const resolvedTsconfigPath = options.tsconfig ? path.resolve(process.cwd(), options.tsconfig) : undefined
+  const ruleDir = typeof options.rules === 'string' ? options.rules : undefined
+  const extraRules = Array.isArray(options.rules) ? options.rules : []
+
+  const applyEnvironment = (): void => {
+    setLanguage(options.language ?? process.env.LANG)
+    setTsConfigPath(resolvedTsconfigPath)
+  }
+
+  // 每次扫描独立收集日志，同时实时通知调用方。
+  const createLogger = (notifications: Notification[]) => {
+    const logRecord = (record: Notification): void => {
+      notifications.push(record)
+      hooks.onNotification?.(record)
+    }
+    const log: Logger = (level, message, detail) => {
+      logRecord(createNotification(level, message, detail))
+    }
+    return { log, logRecord }
+  }
+
+  const loadIgnoreMatcher = (log: Logger): ((candidate: string) => boolean) => {
+    if (Array.isArray(options.ignore)) {
+      return createIgnoreMatcher(options.ignore, process.cwd())
+    }
+
+    // ignore 配置只影响收集阶段，避免无关文件被解析或影响统计。
+    const ignoreConfig = loadIgnoreConfig(options.ignore as string | undefined)
+    ignoreConfig.warnings.forEach((warning) => log('warn', warning))
+    return createIgnoreMatcher(ignoreConfig.patterns, ignoreConfig.baseDir)
+  }
+
+  // 加载规则与 .autocrrc；规则配置按文件解析：嵌套 .autocrrc 与 overrides 可让不同目录启用不同的规则。
+  const loadRuleSetup = (log: Logger) => {
+    const customRules = loadCustomRules(ruleDir, {
+      onWarning: (message, detail) => log('warn', message, detail),
+    })
+    const availableRules = [...builtinRules, ...customRules, ...extraRules]
+    const rcConfig =
+      options.config && typeof options.config === 'object'
+        ? resolveAutoCrRcConfig(options.config, availableRules)
+        : loadAutoCrRc(options.config, availableRules)
+
+    // 配置文件本身无效（无法解析、结构错误、extends 失败等）属于致命错误：先收集，解析完扫描涉及的配置后统一抛出。
+    // 之后（watch 模式新增的嵌套配置）再出现的错误无法中断常驻进程，只输出 error 日志。
+    const configErrors = [...rcConfig.errors]
+    let configChecked = false
+
+    const rcSource = toAutoCrRcSource(rcConfig)
+    const settingsResolver = createRuleSettingsResolver(rcSource, availableRules, (error) => {
+      if (configChecked) {
+        log('error', error)
+      } else {
+        configErrors.push(error)
+      }
+    })
+    const resolveRules = createRuleResolver(availableRules, settingsResolver, (warning) => log('warn', warning))
+
+    const assertValidConfig = (): void => {
+      configChecked = true
+
+      if (configErrors.length > 0) {
+        throw new Error(Array.from(new Set(configErrors)).join('\n'))
+      }
+    }
+
+    return { availableRules, rcConfig, rcSource, settingsResolver, resolveRules, assertValidConfig }
+  }
+
+  // 调用方传入的策略优先，其次是基础 .autocrrc。
+  const resolveFailurePolicy = (rcConfig: LoadedAutoCrRc): FailurePolicy => ({
+    failOn: options.failOn ?? rcConfig.failOn ?? 'error',
+    maxWarnings: options.maxWarnings ?? rcConfig.maxWarnings,
+  })
+
+  /**
+   * 文件扫描主流程：
+   * 1. 校验输入路径并应用 ignore；
+   * 2. 展开目录为可扫描文件列表；
+   * 3. 加载规则 + 规则配置；
+   * 4. 逐文件扫描并汇总结果。
+   */
+  const scanFiles = async (
+    inputPaths: ReadonlyArray<string>,
+    scanOptions: ScanFilesOptions = {}
+  ): Promise<ScanSummary> => {
+    applyEnvironment()
+    const t = getTranslator()
+    const notifications: Notification[] = []
+    const { log, logRecord } = createLogger(notifications)
+    const filePaths = inputPaths.map((candidate) => path.resolve(process.cwd(), candidate))
+
+    // diff 模式的结果已按变更行裁剪，不能据此重写基线。
+    if (options.updateBaseline && options.changedFiles) {
+      throw new Error(t.updateBaselineDiffConflict())
+    }
+
+    if (options.changedFiles && options.changedFiles.size === 0) {
+      log('info', t.gitDiffNoChanges())
+      return createEmptySummary(notifications)
+    }
+
+    if (filePaths.length === 0) {
+      log('info', t.noPathsProvided())
+      return createEmptySummary(notifications)
+    }
+
+    const isIgnored = loadIgnoreMatcher(log)
+
+    const filteredPaths = filePaths.filter((candidate) => !isIgnored(candidate))
+    if (filteredPaths.length === 0) {
+      log('info', t.noFilesFound())
+      return createEmptySummary(notifications)
+    }
+
+    const validPaths = filteredPaths.filter((candidate) => checkPathExists(candidate))
+    if (validPaths.length === 0) {
+      log('error', t.allPathsMissing())
+      return createEmptySummary(notifications)
+    }
+
+    // 先展开路径，再进行二次过滤，保证 ignore 与扩展名筛选一致生效。
+    let allFiles: string[] = []
+
+    for (const targetPath of validPaths) {
+      if (isIgnored(targetPath)) {
+        continue
+      }
+
+      const stat = fs.statSync(targetPath)
+      if (stat.isFile()) {
+        if (!isIgnored(targetPath) && isScannableFile(targetPath)) {
+          allFiles.push(targetPath)
+        }
+      } else if (stat.isDirectory()) {
+        const directoryFiles = getAllFiles(targetPath, [], SCANNABLE_EXTENSIONS, {
+          shouldIgnore: (fullPath) => isIgnored(fullPath),
+        })
+        allFiles = [...allFiles, ...directoryFiles]
+      }
+    }
+
+    if (options.changedFiles) {
+      const changedFiles = options.changedFiles
+      allFiles = allFiles.filter((candidate) => changedFiles.has(candidate))
+    }
+
+    if (allFiles.length === 0) {
+      log('info', t.noFilesFound())
+      return createEmptySummary(notifications)
+    }
+
+    // 跳过声明文件与被 ignore 的路径，确保仅扫描真正的业务源码。
+    const scannableFiles = allFiles.filter((candidate) => !candidate.endsWith('.d.ts') && !isIgnored(candidate))
+    const { availableRules, rcConfig, rcSource, settingsResolver, resolveRules, assertValidConfig } =
+      loadRuleSetup(log)
+    const failurePolicy = resolveFailurePolicy(rcConfig)
+    // 汇总用的规则列表：任一扫描文件启用的规则都计入。
+    const rules: Rule[] = collectEnabledRules(scannableFiles, resolveRules)
+    assertValidConfig()
+
+    if (rules.length === 0 && scannableFiles.length > 0) {
+      log('warn', availableRules.length > 0 ? t.autocrrcAllRulesDisabled() : t.noRulesLoaded())
+      return createEmptySummary(notifications)
+    }
+
+    // 基线在首轮加载一次；匹配器按批次创建，保证每轮扫描独立抵消。更新基线时保留完整结果。
+    const loadedBaseline =
+      options.baselinePath && !options.updateBaseline ? loadBaseline(options.baselinePath) : undefined
+    loadedBaseline?.warnings.forEach((warning) => log('warn', warning))
+
+    const filterChangedLines = options.changedFiles ? createChangedLinesFilter(options.changedFiles) : undefined
+
+    // worker 初始化数据：确保语言/tsconfig/规则配置一致。
+    const initData: WorkerInitData = {
+      ruleDir,
+      autocrrc: rcSource,
+      language: getLanguage(),
+      tsconfigPath: resolvedTsconfigPath,
+      reportUnusedDisableDirectives: options.reportUnusedDisableDirectives,
+      projectFiles: scannableFiles,
+    }
+    // 模块图每次扫描构建一次，主线程扫描的规则与缓存/watch 的依赖追踪共用；worker 各自构建。
+    const projectGraph = createScanProjectGraph(rulesRuntime, scannableFiles)
+    // 缓存依赖导入解析来处理跨文件失效。
+    const resolveImports = (filePath: string): string[] => [...projectGraph.importsOf(filePath)]
+    const resultCache: ResultCache | undefined = options.cachePath
+      ? openResultCache(
+          options.cachePath,
+          computeCacheKey({
+            rules,
+            configFiles: collectConfigFiles(scannableFiles, settingsResolver),
+            ruleDir,
+            language: getLanguage(),
+            tsconfigPath: resolvedTsconfigPath,
+            reportUnusedDisableDirectives: options.reportUnusedDisableDirectives,
+          }),
+          {
+            imports: resolveImports,
+            inputs: (filePath) => projectGraph.resolutionInputsOf(filePath),
+            settings: (filePath) => settingsResolver.resolve(filePath),
+          },
+          (warning) => log('warn', warning)
+        )
+      : undefined
+
+    // 两阶段规则：collect 数据随单文件结果回传（含 worker 与缓存），每批扫描结束后在主线程执行 finalize。
+    // 此时保留各文件未过滤的结果，finalize 的违规合并进去后再统一过滤与回调；watch 模式下跨批次复用。
+    const projectRules = rules.filter((rule) => typeof rule.finalize === 'function')
+    const createRuleProjectContext = rulesRuntime.createRuleProjectContext
+    const rawSummaries = new Map<string, AnalyzeFileSummary>()
+    let projectSummaries = new Map<string, AnalyzeFileSummary>()
+
+    // worker 池按首轮文件数决定是否启用；watch 模式下跨批次复用，避免重复加载规则。
+    // 直接传入的规则对象无法传给 worker，此时只在主线程扫描。
+    const workerCount = extraRules.length > 0 ? 1 : resolveWorkerCount(scannableFiles.length)
+    const workerPool = workerCount > 1 ? createWorkerPool({ workerCount, initData }) : null
+
+    /**
+     * 扫描一批文件并按输入顺序回调：
+     * - 回调前依次做 diff 裁剪、基线抵消与自动修复；
+     * - 返回过滤后的单文件结果，统计由调用方汇总。
+     */
+    const scanBatch = async (files: string[]): Promise<FileScanResult[]> => {
+      const fileSummaries: FileScanResult[] = []
+      const baselineMatcher: BaselineMatcher | undefined = loadedBaseline
+        ? createBaselineMatcher(loadedBaseline)
+        : undefined
+      const fixedSummaries = new Map<string, AnalyzeFileSummary>()
+      let fixedFileCount = 0
+      let fixedTotal = 0
+
+      // 同一路径重复出现时只修复一次，避免对已写回的文件重复应用 edit。
+      const fixFile = (
+        filePath: string,
+        summary: AnalyzeFileSummary,
+        mode: FixMode,
+        sourceHash?: string
+      ): AnalyzeFileSummary => {
+        const cached = fixedSummaries.get(filePath)
+        if (cached) {
+          return cached
+        }
+
+        const result = applyFileFixes(filePath, summary, mode, sourceHash)
+        fixedSummaries.set(filePath, result.summary)
+
+        if (result.changed) {
+          log('warn', t.fixSkippedChanged({ file: filePath }))
+          return result.summary
+        }
+
+        if (result.invalid) {
+          log('warn', t.fixSkippedInvalid({ file: filePath }))
+          return result.summary
+        }
+
+        if (result.applied.length > 0) {
+          fixedFileCount += 1
+          fixedTotal += result.applied.length
+          const detail = result.applied
+            .map((entry) => `${entry.line ?? '-'} ${entry.ruleName}: ${entry.before} -> ${entry.after}`)
+            .join('\n')
+          const message =
+            mode === 'dry-run'
+              ? t.fixDryRunFile({ file: filePath, count: result.applied.length })
+              : t.fixAppliedFile({ file: filePath, count: result.applied.length })
+          log('info', message, detail)
+        }
+
+        return result.summary
+      }
+
+      // 回调前的后置过滤：先裁剪到变更行，再按基线抵消历史问题，最后对剩余问题应用自动修复。
+      // 未在本批重新扫描的文件不再修复（修复早已写回，旧的 edit 已失效）。
+      const filterSummary = (filePath: string, summary: AnalyzeFileSummary, allowFix = true): AnalyzeFileSummary => {
+        let filtered = filterChangedLines ? filterChangedLines(filePath, summary) : summary
+        if (baselineMatcher) {
+          filtered = baselineMatcher.filter(filePath, filtered)
+        }
+        if (options.fix && allowFix) {
+          filtered = fixFile(filePath, filtered, options.fix, summary.sourceHash)
+        }
+        return filtered
+      }
+
+      const collectFileSummary = (filePath: string, summary: AnalyzeFileSummary): void => {
+        const result = toFileScanResult(filePath, summary)
+        fileSummaries.push(result)
+        hooks.onFileResult?.(result)
+      }
+
+      const deferredFiles: string[] = []
+      // 有两阶段规则时先暂存，等 finalize 之后再回调。
+      const acceptSummary = (filePath: string, summary: AnalyzeFileSummary): void => {
+        if (projectRules.length === 0) {
+          collectFileSummary(filePath, filterSummary(filePath, summary))
+          return
+        }
+
+        rawSummaries.set(filePath, summary)
+        deferredFiles.push(filePath)
+      }
+
+      hooks.onScanStart?.(files.length)
+
+      if (workerPool) {
+        // 并行模式：
+        // - 只把去重后的文件发给 worker；
+        // - 通过索引映射保持输出顺序稳定；
+        // - 日志与结果统一在主线程按顺序回调。
+        const fileOccurrences = new Map<string, number[]>()
+        files.forEach((filePath, index) => {
+          const bucket = fileOccurrences.get(filePath) ?? []
+          bucket.push(index)
+          fileOccurrences.set(filePath, bucket)
+        })
+
+        const uniqueFiles: string[] = []
+        // pendingResults 按扫描序号暂存，确保回调顺序与输入一致。
+        const pendingResults = new Map<number, { summary: AnalyzeFileSummary; logs: Notification[] }>()
+        let nextOutputIndex = 0
+
+        // 只要前序结果已齐，就持续回调；避免乱序输出。
+        const flushReadyResults = (): void => {
+          while (pendingResults.has(nextOutputIndex)) {
+            const entry = pendingResults.get(nextOutputIndex)
+            if (!entry) {
+              break
+            }
+            pendingResults.delete(nextOutputIndex)
+
+            const filePath = files[nextOutputIndex]
+            // 先回放日志，再回调文件结果，确保日志顺序与单线程一致。
+            entry.logs.forEach((record) => logRecord(record))
+            acceptSummary(filePath, entry.summary)
+            nextOutputIndex += 1
+          }
+        }
+
+        const acceptResult = (filePath: string, result: { summary: AnalyzeFileSummary; logs: Notification[] }) => {
+          const occurrences = fileOccurrences.get(filePath) ?? []
+          for (const index of occurrences) {
+            pendingResults.set(index, result)
+          }
+          flushReadyResults()
+        }
+
+        // 命中缓存的文件直接回放，只把其余文件发给 worker。
+        fileOccurrences.forEach((_indexes, filePath) => {
+          const cached = resultCache?.get(filePath)
+          if (cached) {
+            acceptResult(filePath, cached)
+          } else {
+            uniqueFiles.push(filePath)
+          }
+        })
+
+        await workerPool.run(uniqueFiles, ({ filePath, summary, logs }) => {
+          resultCache?.set(filePath, { summary, logs })
+          acceptResult(filePath, { summary, logs })
+        })
+
+        flushReadyResults()
+      } else {
+        // 单线程模式下也做跨文件缓存：相同路径只解析一次。
+        const fileSummaryCache = new Map<string, { summary: AnalyzeFileSummary; logs: Notification[] }>()
+
+        for (const file of files) {
+          const cached = fileSummaryCache.get(file) ?? resultCache?.get(file)
+          let summary: AnalyzeFileSummary
+
+          if (cached) {
+            summary = cached.summary
+            cached.logs.forEach((record) => logRecord(record))
+          } else {
+            const capturedLogs: Notification[] = []
+            // 先把日志收集到缓存里，便于后续复用时保持一致输出。
+            const logForFile: Logger = (level, message, detail) => {
+              const record = createNotification(level, message, detail)
+              capturedLogs.push(record)
+              logRecord(record)
+            }
+
+            summary = await analyzeFile(
+              file,
+              resolveRules(file),
+              ANALYSIS_FORMAT,
+              logForFile,
+              createRuleContext,
+              undefined,
+              { reportUnusedDisableDirectives: options.reportUnusedDisableDirectives, project: projectGraph }
+            )
+            fileSummaryCache.set(file, { summary, logs: capturedLogs })
+            resultCache?.set(file, { summary, logs: capturedLogs })
+          }
+
+          acceptSummary(file, summary)
+        }
+      }
+
+      if (projectRules.length > 0) {
+        const previousSummaries = projectSummaries
+        const projectFiles = Array.from(rawSummaries.keys())
+        projectSummaries = await runProjectRules({
+          rules: projectRules,
+          files: projectFiles,
+          collected: new Map(
+            projectFiles.map((filePath): [string, Readonly<Record<string, unknown>>] => [
+              filePath,
+              rawSummaries.get(filePath)?.collected ?? {},
+            ])
+          ),
+          suppressions: new Map(
+            projectFiles.map((filePath): [string, ReadonlyArray<SuppressionDirective>] => [
+              filePath,
+              rawSummaries.get(filePath)?.suppressions ?? [],
+            ])
+          ),
+          createRuleProjectContext,
+          project: projectGraph,
+          log,
+        })
+
+        // watch 模式下只重扫了部分文件，finalize 结果有变化的其他文件也要重新回调。
+        const batchFiles = new Set(deferredFiles)
+        const staleFiles = projectFiles.filter(
+          (filePath) =>
+            !batchFiles.has(filePath) &&
+            !isSameViolations(previousSummaries.get(filePath), projectSummaries.get(filePath))
+        )
+
+        const emitMerged = (filePath: string, allowFix: boolean): void => {
+          const raw = rawSummaries.get(filePath) as AnalyzeFileSummary
+          const merged = mergeSummaries(raw, projectSummaries.get(filePath))
+          collectFileSummary(filePath, filterSummary(filePath, merged, allowFix))
+        }
+
+        deferredFiles.forEach((filePath) => emitMerged(filePath, true))
+        staleFiles.forEach((filePath) => emitMerged(filePath, false))
+      }
+
+      hooks.onScanEnd?.()
+      resultCache?.save()
+
+      if (options.fix) {
+        log(
+          'info',
+          options.fix === 'dry-run'
+            ? t.fixDryRunSummary({ count: fixedTotal, files: fixedFileCount })
+            : t.fixAppliedSummary({ count: fixedTotal, files: fixedFileCount })
+        )
+      }
+
+      if (baselineMatcher && baselineMatcher.suppressedCount() > 0) {
+        log('info', t.baselineSuppressed({ count: baselineMatcher.suppressedCount() }))
+      }
+
+      return fileSummaries
+    }
+
+    /**
+     * watch 模式：规则、tsconfig 缓存与 worker 池常驻，文件变化后只重新扫描变化文件及依赖它们的文件。
+     * until 结束后停止监听，返回各文件的最新结果。
+     */
+    const watchForChanges = (initialResults: FileScanResult[], until: Promise<void>): Promise<FileScanResult[]> => {
+      const results = new Map<string, FileScanResult>()
+      initialResults.forEach((entry) => results.set(entry.filePath, entry))
+      // 已知文件保持首轮顺序，新建文件追加到末尾。
+      const knownFiles = Array.from(results.keys())
+      // 首轮日志常驻，之后每轮开始时丢弃上一轮的日志，避免长时间监听时无限增长。
+      const initialNotificationCount = notifications.length
+
+      // 主线程与 worker 各自持有模块图与规则缓存，需要同步失效；文件增删时同步最新的扫描文件列表。
+      const invalidate = (filePaths?: string[], projectFiles?: string[]): void => {
+        rulesRuntime.invalidateDependencyCaches(filePaths)
+        projectGraph.invalidate(filePaths)
+        if (projectFiles) {
+          projectGraph.setFiles(projectFiles)
+        }
+        workerPool?.invalidate(filePaths, projectFiles)
+      }
+
+      const isWatchedSource = (filePath: string): boolean =>
+        isScannableFile(filePath) &&
+        !filePath.endsWith('.d.ts') &&
+        !isIgnored(filePath) &&
+        (!options.changedFiles || options.changedFiles.has(filePath))
+
+      const handleChange = async (changed: string[]): Promise<void> => {
+        notifications.splice(initialNotificationCount)
+        const configChanged = changed.some(isProjectConfigFile)
+        // 先用旧的依赖图找出依赖方（被删除的文件在新图里已无法解析）。
+        const previousAffected = collectAffectedFiles(
+          changed.filter((filePath) => results.has(filePath)),
+          knownFiles,
+          resolveImports
+        )
+
+        const removed = changed.filter((filePath) => results.has(filePath) && !isExistingFile(filePath))
+        const added = changed.filter(
+          (filePath) => !results.has(filePath) && isWatchedSource(filePath) && isExistingFile(filePath)
+        )
+
+        // 删除文件的历史违规计入“已解决”。
+        const removedResults = removed
+          .map((filePath) => results.get(filePath))
+          .filter((entry): entry is FileScanResult => Boolean(entry))
+
+        removed.forEach((filePath) => {
+          results.delete(filePath)
+          rawSummaries.delete(filePath)
+          knownFiles.splice(knownFiles.indexOf(filePath), 1)
+        })
+        knownFiles.push(...added)
+
+        // 文件增删或 tsconfig/package.json 变化会影响路径解析，需要整体重建依赖缓存。
+        if (configChanged || removed.length > 0 || added.length > 0) {
+          invalidate(undefined, [...knownFiles])
+          if (configChanged) {
+            setTsConfigPath(resolvedTsconfigPath)
+          }
+        } else {
+          invalidate(changed)
+        }
+
+        // 按首轮顺序重新扫描：同一环路只由先扫描到的文件报告，顺序不变才能让无改动的保存前后结果一致。
+        const affectedSet = new Set([
+          ...previousAffected,
+          ...collectAffectedFiles(
+            changed.filter((filePath) => knownFiles.includes(filePath)),
+            knownFiles,
+            resolveImports
+          ),
+        ])
+        const affected = configChanged ? [...knownFiles] : knownFiles.filter((filePath) => affectedSet.has(filePath))
+
+        if (affected.length === 0 && removed.length === 0) {
+          return
+        }
+
+        log('info', t.watchRescanning({ count: affected.length }))
+        // 重新扫描的文件需要重新报告其所在的循环依赖。
+        invalidate(affected)
+        resultCache?.forget([...removed, ...affected])
+        const after = await scanBatch(affected)
+        // 变化前的结果按实际回调的文件取（finalize 可能让未重扫的文件结果也发生变化）。
+        const before = [
+          ...removedResults,
+          ...after
+            .map((entry) => results.get(entry.filePath))
+            .filter((entry): entry is FileScanResult => Boolean(entry)),
+        ]
+        after.forEach((entry) => results.set(entry.filePath, entry))
+
+        const delta = diffViolationCounts(before, after)
+        const totals = summarizeScan(collectResults(), rules, notifications, failurePolicy).violationTotals
+        log(
+          'info',
+          t.watchDelta({
+            files: after.length,
+            added: delta.added,
+            resolved: delta.resolved,
+            errors: totals.error,
+            warnings: totals.warning,
+          })
+        )
+      }
+
+      const collectResults = (): FileScanResult[] =>
+        knownFiles
+          .map((filePath) => results.get(filePath))
+          .filter((entry): entry is FileScanResult => Boolean(entry))
+
+      return new Promise((resolve) => {
+        const watcher = watchPaths({
+          targets: validPaths.filter((candidate) => !isIgnored(candidate)),
+          shouldHandle: (filePath) =>
+            results.has(filePath) || isWatchedSource(filePath) || isProjectConfigFile(filePath),
+          onChange: handleChange,
+          onError: (error) => log('error', t.watchFailed(), error),
+        })
+
+        log('info', t.watchStarted())
+        void until.then(() => {
+          watcher.close()
+          resolve(collectResults())
+        })
+      })
+    }
+
+    try {
+      const initialResults = await scanBatch(scannableFiles)
+
+      if (options.baselinePath && options.updateBaseline) {
+        const count = writeBaseline(options.baselinePath, initialResults, scannableFiles)
+        log('info', t.baselineUpdated({ path: options.baselinePath, count }))
+      }
+
+      const fileSummaries = scanOptions.watch
+        ? await watchForChanges(initialResults, scanOptions.watch.until)
+        : initialResults
+      const summary = summarizeScan(fileSummaries, rules, notifications, failurePolicy)
+
+      if (options.importGraph) {
+        const graphFiles = Array.from(new Set(fileSummaries.map((entry) => entry.filePath)))
+        summary.importGraph = collectImportGraph(graphFiles, (filePath) => projectGraph.importsOf(filePath))
+      }
+
+      return summary
+    } finally {
+      await workerPool?.close()
+    }
+  }
+
+  const scanSource = async (code: string, filePath: string): Promise<ScanSummary> => {
+    applyEnvironment()
+    const t = getTranslator()
+    const notifications: Notification[] = []
+    const { log } = createLogger(notifications)
+    const absolutePath = path.resolve(process.cwd(), filePath)
+    const isIgnored = loadIgnoreMatcher(log)
+
+    if (isIgnored(absolutePath) || !isScannableFile(absolutePath)) {
+      log('info', t.noFilesFound())
+      return createEmptySummary(notifications)
+    }
+
+    const { availableRules, rcConfig, resolveRules, assertValidConfig } = loadRuleSetup(log)
+    const rules = resolveRules(absolutePath)
+    assertValidConfig()
+
+    if (rules.length === 0) {
+      log('warn', availableRules.length > 0 ? t.autocrrcAllRulesDisabled() : t.noRulesLoaded())
+      return createEmptySummary(notifications)
+    }
+
+    hooks.onScanStart?.(1)
+    // 每次调用都是独立扫描：使用新的模块图并丢弃跨文件缓存（磁盘文件可能已变化，
+    // 已上报环路的去重也不应跨调用生效），再让跨文件规则解析依赖时使用内存中的源码，
+    // 而不是磁盘上的旧内容（或不存在的文件）。
+    rulesRuntime.invalidateDependencyCaches()
+    rulesRuntime.setSourceOverride(absolutePath, code)
+    const projectGraph = createScanProjectGraph(rulesRuntime, [absolutePath])
+    const projectRules = rules.filter((rule) => typeof rule.finalize === 'function')
+    const createRuleProjectContext = rulesRuntime.createRuleProjectContext
+    let summary: AnalyzeFileSummary
+    try {
+      summary = await analyzeFile(absolutePath, rules, ANALYSIS_FORMAT, log, createRuleContext, undefined, {
+        reportUnusedDisableDirectives: options.reportUnusedDisableDirectives,
+        source: code,
+        project: projectGraph,
+      })
+
+      // 两阶段规则在单文件上同样执行 finalize，只汇总当前源码。
+      if (projectRules.length > 0) {
+        const projectSummaries = await runProjectRules({
+          rules: projectRules,
+          files: [absolutePath],
+          collected: new Map([[absolutePath, summary.collected ?? {}]]),
+          suppressions: new Map([[absolutePath, summary.suppressions ?? []]]),
+          createRuleProjectContext,
+          project: projectGraph,
+          readSource: () => code,
+          log,
+        })
+        summary = mergeSummaries(summary, projectSummaries.get(absolutePath))
+      }
+    } finally {
+      rulesRuntime.setSourceOverride(absolutePath, undefined)
+    }
+    const result = toFileScanResult(absolutePath, summary)
+    hooks.onFileResult?.(result)
+    hooks.onScanEnd?.()
+
+    return summarizeScan([result], rules, notifications, resolveFailurePolicy(rcConfig))
+  }
+
+  return { scanFiles, scanSource }
+}
@@ -0,0 +1,625 @@
+#!/usr/bin/env node
+import { consola } from 'consola'
+import fs from 'fs'
+import path from 'path'
+import { InvalidArgumentError, program } from 'commander'
+import { createAutoCr, type AutoCrHooks } from './api'
+import { FAIL_ON_LEVELS, isFailOnLevel, type FailOnLevel } from './config/autocrrc'
+import { renderViolations, type ReporterFormat } from './report'
+import { formatJsonOutput } from './report/json'
+import { formatSarifOutput } from './report/sarif'
+import { formatJunitOutput } from './report/junit'
+import { formatCheckstyleOutput } from './report/checkstyle'
+import { formatHtmlOutput } from './report/html'
+import { formatMarkdownOutput } from './report/markdown'
+import { formatGraphOutput, GRAPH_FORMATS, type GraphFormat } from './report/graph'
+import { getLanguage, getTranslator, setLanguage } from './i18n'
+import { readPathsFromStdin, readSourceFromStdin } from './utils/stdin'
+import { normalizeInputPath } from './utils/path'
+import { collectGitChanges } from './utils/git'
+import type { ReporterHooks } from './scan/analyzeFile'
+import type { ScanSummary } from './scan/types'
+import { DEFAULT_BASELINE_FILE } from './scan/baseline'
+import { DEFAULT_CACHE_FILE } from './scan/cache'
+
+consola.options.formatOptions = {
+  ...consola.options.formatOptions,
+  date: false,
+}
+
+// 文本输出统一写入 stderr，避免多线程时 stdout/stderr 混排导致顺序错乱。
+const textLogger = consola.create({
+  stdout: process.stderr,
+  stderr: process.stderr,
+})
+textLogger.options.formatOptions = {
+  ...textLogger.options.formatOptions,
+  date: false,
+}
+
+// 退出码：0 通过；1 问题达到 --fail-on/--max-warnings 判定的失败阈值；
+// 2 工具自身出错（参数无效、扫描异常、报告文件写入失败），便于 CI 区分"有问题"与"没跑成功"。
+const EXIT_OK = 0
+const EXIT_VIOLATIONS = 1
+const EXIT_FATAL = 2
+
+// 代码帧选项：--stdin-code 扫描的源码不在磁盘上，需要直接传入。
+interface CodeFrameOptions {
+  codeFrame?: boolean
+  source?: string
+}
+
+// CLI 输出格式：reporter 的 text/json 之外，还支持 SARIF 代码扫描格式、CI 常用的 JUnit/Checkstyle XML、离线 HTML 报告与 PR 评论用的 Markdown。
+type OutputFormat = ReporterFormat | 'sarif' | 'junit' | 'checkstyle' | 'html' | 'markdown'
+
+const OUTPUT_FORMATS: ReadonlyArray<OutputFormat> = ['text', 'json', 'sarif', 'junit', 'checkstyle', 'html', 'markdown']
+
+// 需要源码的格式（HTML 代码片段）通过 readSource 读取，--stdin-code 时返回内存中的源码。
+type StructuredFormatter = (result: ScanSummary, readSource?: (filePath: string) => string | undefined) => string
+
+// 结构化输出统一写入 stdout（或 --output-file），供脚本、CI 与浏览器查看。
+const STRUCTURED_FORMATTERS: Record<Exclude<OutputFormat, 'text'>, StructuredFormatter> = {
+  json: (result) => `${JSON.stringify(formatJsonOutput(result), null, 2)}\n`,
+  sarif: (result) => `${JSON.stringify(formatSarifOutput(result), null, 2)}\n`,
+  junit: (result) => formatJunitOutput(result),
+  checkstyle: (result) => formatCheckstyleOutput(result),
+  html: (result, readSource) => formatHtmlOutput(result, { readSource }),
+  markdown: (result) => formatMarkdownOutput(result),
+}
+
+const consolaLoggers = {
+  info: textLogger.info.bind(textLogger),
+  warn: textLogger.warn.bind(textLogger),
+  error: textLogger.error.bind(textLogger),
+} as const
+
+/**
+ * CLI 输出钩子：
+ * - text 模式实时输出日志与违规，json/sarif 模式保持静默，最终统一输出；
+ * - 进度条按批次渲染（watch 模式下每轮重新开始）。
+ */
+function createCliHooks(
+  format: OutputFormat,
+  progressOption?: ProgressOption,
+  frameOptions: CodeFrameOptions = {}
+): AutoCrHooks {
+  const t = getTranslator()
+  // 进度渲染说明：
+  // - 仅 text 模式显示，JSON 输出用于脚本解析需保持稳定。
+  // - 进度默认写入 stderr。
+  // - --progress tty-only/yes/no 控制显示：tty-only 仅 TTY，yes 强制，no 关闭。
+  // - “固定模式”会用 ANSI 保存/恢复光标，把进度绘制在固定行。
+  // - 非 TTY 强制显示时只追加行，避免输出控制序列污染日志。
+  const progressMode = progressOption?.mode ?? 'no'
+  const progressStream = process.stderr
+  const progressStreamHasTty = Boolean(progressStream.isTTY)
+  const progressEnabled =
+    format === 'text' && progressMode !== 'no' && (progressMode === 'yes' || progressStreamHasTty)
+  // “固定模式”会让进度行保持在固定位置，避免被其它日志覆盖。
+  const progressPinned = progressEnabled && progressStreamHasTty
+  // 仅在 TTY 下启用 ANSI 样式，避免输出乱码。
+  const progressStyle =
+    progressStreamHasTty
+      ? { prefix: '\x1b[44m\x1b[97m', reset: '\x1b[0m' }
+      : { prefix: '', reset: '' }
+  let progressTotal = 0
+  let progressCurrent = 0
+  let progressLastPercent = -1
+
+  // 清理进度行，避免残留在终端里。
+  const clearProgressLine = () => {
+    if (!progressEnabled) {
+      return
+    }
+
+    if (progressPinned) {
+      progressStream.write('\x1b7')
+      progressStream.write('\x1b[1;1H')
+      progressStream.write('\x1b[2K')
+      progressStream.write('\x1b8')
+    } else if (progressStreamHasTty) {
+      progressStream.write('\r\x1b[2K')
+    }
+  }
+
+  // 百分比变化时渲染（或强制渲染），用单行覆盖避免刷屏。
+  const renderProgress = (force = false) => {
+    if (!progressEnabled || progressTotal === 0) {
+      return
+    }
+
+    const percent = Math.min(100, Math.floor((progressCurrent / progressTotal) * 100))
+    if (!force && percent === progressLastPercent) {
+      return
+    }
+
+    progressLastPercent = percent
+    const message = t.scanProgress({ percent, current: progressCurrent, total: progressTotal })
+    const styledMessage = progressStyle.prefix ? `${progressStyle.prefix}${message}` : message
+    if (progressPinned) {
+      progressStream.write('\x1b7')
+      progressStream.write('\x1b[1;1H')
+      progressStream.write('\x1b[2K')
+      progressStream.write(styledMessage)
+      if (progressStyle.prefix) {
+        progressStream.write('\x1b[K')
+        progressStream.write(progressStyle.reset)
+      }
+      progressStream.write('\x1b8')
+    } else if (progressStreamHasTty) {
+      progressStream.write(`\r${styledMessage}`)
+      if (progressStyle.prefix) {
+        progressStream.write('\x1b[K')
+        progressStream.write(progressStyle.reset)
+      } else {
+        progressStream.write('\x1b[K')
+      }
+    } else {
+      progressStream.write(`${styledMessage}\n`)
+    }
+  }
+
+  // 扫描开始前初始化计数。
+  const startProgress = (total: number) => {
+    if (!progressEnabled) {
+      return
+    }
+
+    progressTotal = total
+    progressCurrent = 0
+    progressLastPercent = -1
+    renderProgress(true)
+  }
+
+  // 每扫描一个文件就推进一次，必要时刷新进度。
+  const advanceProgress = () => {
+    if (!progressEnabled || progressTotal === 0) {
+      return
+    }
+
+    progressCurrent = Math.min(progressCurrent + 1, progressTotal)
+    renderProgress()
+  }
+
+  // 扫描结束：渲染 100%，再清掉进度行。
+  const finishProgress = () => {
+    if (!progressEnabled) {
+      return
+    }
+
+    if (progressTotal > 0) {
+      progressCurrent = progressTotal
+      progressLastPercent = -1
+      renderProgress()
+      clearProgressLine()
+    }
+    progressTotal = 0
+    progressCurrent = 0
+    progressLastPercent = -1
+  }
+
+  const reporterHooks: ReporterHooks = {
+    onAfterReport: () => renderProgress(true),
+  }
+
+  return {
+    // 输出日志后刷新进度行，防止进度被覆盖。
+    onNotification: (record) => {
+      if (format !== 'text') {
+        return
+      }
+
+      const logger = consolaLoggers[record.level]
+      if (record.detail === undefined) {
+        logger(record.message)
+      } else {
+        logger(record.message, record.detail)
+      }
+      renderProgress(true)
+    },
+    onFileResult: (result) => {
+      if (format === 'text') {
+        renderViolations(result.filePath, result.violations, { format, ...reporterHooks, ...frameOptions })
+      }
+      advanceProgress()
+    },
+    onScanStart: startProgress,
+    onScanEnd: finishProgress,
+  }
+}
+
+// 报告文件：--output-file <format>:<path>，可重复指定，与终端输出同时生成。
+interface OutputFileTarget {
+  format: Exclude<OutputFormat, 'text'>
+  filePath: string
+}
+
+// 只按第一个冒号切分，保证 Windows 盘符路径（json:C:\report.json）可用。
+function parseOutputFileOption(value: string, previous: OutputFileTarget[]): OutputFileTarget[] {
+  const separator = value.indexOf(':')
+  const format = (separator > 0 ? value.slice(0, separator).toLowerCase() : '') as OutputFormat
+  const filePath = separator > 0 ? value.slice(separator + 1) : ''
+
+  if (format === 'text' || !OUTPUT_FORMATS.includes(format) || !filePath) {
+    const supported = OUTPUT_FORMATS.filter((candidate) => candidate !== 'text').join('|')
+    throw new InvalidArgumentError(`Use <${supported}>:<path>.`)
+  }
+
+  const target: OutputFileTarget = {
+    format: format as OutputFileTarget['format'],
+    filePath: path.resolve(process.cwd(), filePath),
+  }
+  return [...previous, target]
+}
+
+interface GraphFileTarget {
+  format: GraphFormat
+  filePath: string
+}
+
+// 与 --output-file 相同，只按第一个冒号切分。
+function parseGraphOutOption(value: string, previous: GraphFileTarget[]): GraphFileTarget[] {
+  const separator = value.indexOf(':')
+  const format = (separator > 0 ? value.slice(0, separator).toLowerCase() : '') as GraphFormat
+  const filePath = separator > 0 ? value.slice(separator + 1) : ''
+
+  if (!GRAPH_FORMATS.includes(format) || !filePath) {
+    throw new InvalidArgumentError(`Use <${GRAPH_FORMATS.join('|')}>:<path>.`)
+  }
+
+  return [...previous, { format, filePath: path.resolve(process.cwd(), filePath) }]
+}
+
+function parseMaxWarningsOption(value: string): number {
+  const parsed = Number(value)
+
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed)) {
+    throw new InvalidArgumentError('Expected a non-negative integer.')
+  }
+
+  return parsed
+}
+
+function parseFailOnOption(value: string): FailOnLevel {
+  const normalized = value.toLowerCase()
+
+  if (!isFailOnLevel(normalized)) {
+    throw new InvalidArgumentError(`Use ${FAIL_ON_LEVELS.join('|')}.`)
+  }
+
+  return normalized
+}
+
+// 写入全部报告文件；任一失败都会输出错误并返回 false，但不影响其余文件。
+function writeOutputFiles(
+  targets: ReadonlyArray<OutputFileTarget>,
+  result: ScanSummary,
+  readSource?: (filePath: string) => string | undefined
+): boolean {
+  let succeeded = true
+
+  for (const target of targets) {
+    try {
+      fs.mkdirSync(path.dirname(target.filePath), { recursive: true })
+      fs.writeFileSync(target.filePath, STRUCTURED_FORMATTERS[target.format](result, readSource), 'utf-8')
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      consola.error(getTranslator().outputFileWriteFailed({ path: target.filePath, error: detail }))
+      succeeded = false
+    }
+  }
+
+  return succeeded
+}
+
+// 导入图文件：扫描未产出导入图（如没有可扫描文件）时写入空图，保证 CI 中的产物路径稳定。
+function writeGraphFiles(targets: ReadonlyArray<GraphFileTarget>, result: ScanSummary): boolean {
+  const graph = result.importGraph ?? { nodes: [], edges: [], components: [] }
+  let succeeded = true
+
+  for (const target of targets) {
+    try {
+      fs.mkdirSync(path.dirname(target.filePath), { recursive: true })
+      fs.writeFileSync(target.filePath, formatGraphOutput(graph, target.format), 'utf-8')
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      consola.error(getTranslator().graphFileWriteFailed({ path: target.filePath, error: detail }))
+      succeeded = false
+    }
+  }
+
+  return succeeded
+}
+
+// CLI 输出格式解析：仅允许 OUTPUT_FORMATS 中的格式。
+function parseOutputFormat(value?: string): OutputFormat {
+  if (!value) {
+    return 'text'
+  }
+
+  const normalized = value.toLowerCase() as OutputFormat
+
+  if (OUTPUT_FORMATS.includes(normalized)) {
+    return normalized
+  }
+
+  const supported = OUTPUT_FORMATS.map((format) => `"${format}"`).join(', ')
+  throw new Error(`Unsupported output format: ${value}. Use one of ${supported}.`)
+}
+
+interface ProgressOption {
+  mode: ProgressMode
+}
+
+type ProgressMode = 'tty-only' | 'yes' | 'no'
+
+function parseProgressOption(value?: boolean | string): ProgressOption {
+  if (value === undefined) {
+    return { mode: 'no' }
+  }
+
+  if (value === true) {
+    return { mode: 'yes' }
+  }
+
+  if (typeof value === 'string') {
+    const normalized = value.toLowerCase()
+    if (normalized === 'tty-only' || normalized === 'yes' || normalized === 'no') {
+      return { mode: normalized as ProgressMode }
+    }
+
+    throw new Error(`Unsupported progress mode: ${value}. Use "tty-only", "yes", or "no".`)
+  }
+
+  return { mode: 'no' }
+}
+
+program
+  .argument('[paths...]', '需要扫描的文件或目录路径列表 / Paths to scan')
+  .option('-r, --rule-dir <directory>', '自定义规则目录路径 / Custom rule directory')
+  .option('-l, --language <language>', '设置 CLI 语言 (zh/en) / Set CLI language (zh/en)')
+  .option('-o, --output <format>', '设置输出格式 (text/json/sarif/junit/checkstyle/html/markdown) / Output format (text/json/sarif/junit/checkstyle/html/markdown)', 'text')
+  .option(
+    '--output-file <format:path>',
+    '同时把报告写入文件，可重复指定（如 json:report.json） / Also write a report file; repeatable (e.g. json:report.json)',
+    parseOutputFileOption,
+    []
+  )
+  .option(
+    '--graph-out <format:path>',
+    '导出完整导入图与循环依赖分量 dot/mermaid/json，可重复指定（如 dot:graph.dot） / Write the import graph and cycle components as dot/mermaid/json; repeatable (e.g. dot:graph.dot)',
+    parseGraphOutOption,
+    []
+  )
+  .option('-c, --config <path>', '配置文件路径 (.autocrrc.json|.autocrrc.js) / Config file path (.autocrrc.json|.autocrrc.js)')
+  .option('--ignore-path <path>', '忽略文件列表路径 (.autocrignore.json|.autocrignore.js) / Ignore file path (.autocrignore.json|.autocrignore.js)')
+  .option('--tsconfig <path>', '自定义 tsconfig 路径 / Custom tsconfig path')
+  .option(
+    '--progress [mode]',
+    '进度显示模式 tty-only/yes/no（默认 no，输出到 stderr） / Progress mode tty-only/yes/no (default no, outputs to stderr)'
+  )
+  .option('--stdin', '从标准输入读取扫描路径 / Read file paths from STDIN')
+  .option('--stdin-code', '从标准输入读取源码并扫描（需 --stdin-filename） / Scan source code read from STDIN (requires --stdin-filename)')
+  .option(
+    '--stdin-filename <path>',
+    '标准输入源码对应的文件路径，用于解析配置、语法与导入 / File path of the STDIN source, used for config, syntax and import resolution'
+  )
+  .option(
+    '--report-unused-disable-directives',
+    '将未生效的 auto-cr-disable 注释作为警告输出 / Report unused auto-cr-disable comments as warnings'
+  )
+  .option('--diff <base-ref>', '只扫描相对 base-ref 变更的文件与行 / Only scan files and lines changed since base-ref')
+  .option('--staged', '只扫描已暂存的变更 / Only scan staged changes')
+  .option('--fix', '自动修复可修复的问题并写回文件 / Automatically fix problems and write files')
+  .option('--fix-dry-run', '只输出将要应用的修复，不写回文件 / Show fixes without writing files')
+  .option('--baseline <file>', '基线文件路径，仅报告基线之外的新问题 / Baseline file; only report new problems')
+  .option(
+    '--update-baseline',
+    `用本次扫描结果重写基线文件（默认 ${DEFAULT_BASELINE_FILE}） / Rewrite the baseline file from this scan (default ${DEFAULT_BASELINE_FILE})`
+  )
+  .option('--cache', '缓存扫描结果，仅重新分析变化的文件 / Only re-analyze changed files using a result cache')
+  .option(
+    '--cache-location <path>',
+    `缓存文件路径（默认 ${DEFAULT_CACHE_FILE}） / Cache file path (default ${DEFAULT_CACHE_FILE})`
+  )
+  .option('--watch', '监听文件变化并增量重新扫描 / Watch for changes and re-scan incrementally')
+  .option('--code-frame', '文本输出中展示违规位置的源码上下文 / Show source context around each violation in text output')
+  .option(
+    '--fail-on <level>',
+    '达到该级别的问题即以 1 退出 error/warning/optimizing/none（默认 error） / Exit with 1 on problems of this level or above: error/warning/optimizing/none (default error)',
+    parseFailOnOption
+  )
+  .option(
+    '--max-warnings <n>',
+    '警告数超过 n 时以 1 退出 / Exit with 1 when there are more than n warnings',
+    parseMaxWarningsOption
+  )
+  // 参数错误属于工具出错，与"发现问题"区分开；--help/--version 仍以 0 退出。
+  .exitOverride((error) => process.exit(error.exitCode === EXIT_OK ? EXIT_OK : EXIT_FATAL))
+  .parse(process.argv.filter((arg) => arg !== '--'))
+
+const options = program.opts<{
+  ruleDir?: string
+  language?: string
+  output?: string
+  outputFile: OutputFileTarget[]
+  graphOut: GraphFileTarget[]
+  stdin?: boolean
+  stdinCode?: boolean
+  stdinFilename?: string
+  config?: string
+  ignorePath?: string
+  tsconfig?: string
+  progress?: boolean | string
+  reportUnusedDisableDirectives?: boolean
+  diff?: string
+  staged?: boolean
+  fix?: boolean
+  fixDryRun?: boolean
+  baseline?: string
+  updateBaseline?: boolean
+  watch?: boolean
+  cache?: boolean
+  cacheLocation?: string
+  codeFrame?: boolean
+  failOn?: FailOnLevel
+  maxWarnings?: number
+}>()
+const cliArguments = program.args as string[]
+
+setLanguage(options.language ?? process.env.LANG)
+
+const updateBaseline = Boolean(options.updateBaseline)
+const resolvedBaselinePath =
+  options.baseline || updateBaseline
+    ? path.resolve(process.cwd(), options.baseline ?? DEFAULT_BASELINE_FILE)
+    : undefined
+
+let outputFormat: OutputFormat
+let progressOption: ProgressOption | undefined
+
+try {
+  outputFormat = parseOutputFormat(options.output)
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error)
+  consola.error(message)
+  process.exit(EXIT_FATAL)
+}
+
+if (options.watch && outputFormat !== 'text') {
+  consola.error(getTranslator().watchRequiresText())
+  process.exit(EXIT_FATAL)
+}
+
+if (updateBaseline && (options.diff || options.staged)) {
+  consola.error(getTranslator().updateBaselineDiffConflict())
+  process.exit(EXIT_FATAL)
+}
+
+// --stdin-code 只扫描单个内存文件，与路径输入、写回文件及 diff/基线/缓存等按磁盘文件工作的选项互斥。
+if (options.stdinCode) {
+  const conflicts: Array<[string, unknown]> = [
+    ['[paths...]', cliArguments.length > 0],
+    ['--stdin', options.stdin],
+    ['--watch', options.watch],
+    ['--fix', options.fix || options.fixDryRun],
+    ['--diff', options.diff || options.staged],
+    ['--baseline', options.baseline || options.updateBaseline],
+    ['--cache', options.cache],
+    ['--graph-out', options.graphOut.length > 0],
+  ]
+  const conflict = conflicts.find(([, enabled]) => Boolean(enabled))
+
+  if (!options.stdinFilename) {
+    consola.error(getTranslator().stdinCodeRequiresFilename())
+    process.exit(EXIT_FATAL)
+  }
+
+  if (conflict) {
+    consola.error(getTranslator().stdinCodeConflict({ option: conflict[0] }))
+    process.exit(EXIT_FATAL)
+  }
+}
+
+try {
+  progressOption = parseProgressOption(options.progress)
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error)
+  consola.error(message)
+  process.exit(EXIT_FATAL)
+}
+
+;(async () => {
+  try {
+    const stdinSource = options.stdinCode ? await readSourceFromStdin() : undefined
+    const stdinTargets = stdinSource === undefined ? await readPathsFromStdin(Boolean(options.stdin)) : []
+    const combinedTargets = [...cliArguments, ...stdinTargets]
+    const normalizedTargets = combinedTargets.map((target) => normalizeInputPath(target))
+    const changedFiles =
+      options.diff || options.staged
+        ? collectGitChanges({ base: options.diff, staged: Boolean(options.staged) })
+        : undefined
+    // diff 模式未指定路径时，直接扫描全部变更文件；指定路径时取交集。
+    const filePaths =
+      changedFiles && normalizedTargets.length === 0
+        ? Array.from(changedFiles.keys())
+        : normalizedTargets.map((target) => path.resolve(process.cwd(), target))
+    // CLI 只负责参数解析与输出，扫描流程统一走库 API。
+    const autoCr = createAutoCr({
+      rules: options.ruleDir,
+      config: options.config,
+      ignore: options.ignorePath,
+      tsconfig: options.tsconfig,
+      language: options.language,
+      reportUnusedDisableDirectives: Boolean(options.reportUnusedDisableDirectives),
+      baselinePath: resolvedBaselinePath,
+      updateBaseline,
+      changedFiles,
+      fix: options.fixDryRun ? 'dry-run' : options.fix ? 'apply' : undefined,
+      failOn: options.failOn,
+      maxWarnings: options.maxWarnings,
+      importGraph: options.graphOut.length > 0,
+      cachePath: options.cache
+        ? path.resolve(process.cwd(), options.cacheLocation ?? DEFAULT_CACHE_FILE)
+        : undefined,
+      hooks: createCliHooks(outputFormat, progressOption, {
+        codeFrame: Boolean(options.codeFrame),
+        source: stdinSource,
+      }),
+    })
+    // watch 模式持续到 Ctrl+C，之后输出最终汇总。
+    const until = options.watch
+      ? new Promise<void>((resolve) => process.once('SIGINT', () => resolve()))
+      : undefined
+    const result =
+      stdinSource !== undefined && options.stdinFilename
+        ? await autoCr.scanSource(stdinSource, normalizeInputPath(options.stdinFilename))
+        : await autoCr.scanFiles(filePaths, until ? { watch: { until } } : {})
+    const t = getTranslator()
+    // 更新基线时本次问题均被接受为历史问题，不以失败退出；报告文件写入失败视为工具出错。
+    const readSource = stdinSource !== undefined ? () => stdinSource : undefined
+    const reportFilesWritten = writeOutputFiles(options.outputFile, result, readSource)
+    const graphFilesWritten = writeGraphFiles(options.graphOut, result)
+    const outputFilesWritten = reportFilesWritten && graphFilesWritten
+    const exitCode = !outputFilesWritten
+      ? EXIT_FATAL
+      : !updateBaseline && result.failed
+        ? EXIT_VIOLATIONS
+        : EXIT_OK
+
+    if (outputFormat !== 'text') {
+      process.stdout.write(STRUCTURED_FORMATTERS[outputFormat](result, readSource))
+      process.exit(exitCode)
+    }
+
+    if (result.scannedFiles > 0) {
+      textLogger.log(' ')
+      const language = getLanguage()
+      const resultMessage = language.startsWith('zh')
+        ? ` ${t.scanComplete()}，本次共扫描${result.scannedFiles}个文件，其中${result.filesWithErrors}个文件存在错误，${result.filesWithWarnings}个文件存在警告，${result.filesWithOptimizing}个文件存在优化建议！`
+        : ` ${t.scanComplete()}, scanned ${result.scannedFiles} files: ${result.filesWithErrors} with errors, ${result.filesWithWarnings} with warnings, ${result.filesWithOptimizing} with optimizing hints!`
+
+      textLogger.success(resultMessage)
+      process.exit(exitCode)
+    } else {
+      process.exit(exitCode)
+    }
+  } catch (error) {
+    const t = getTranslator()
+    const detail = error instanceof Error ? error.message : String(error)
+
+    if (outputFormat === 'json') {
+      const payload = {
+        error: {
+          message: t.scanError(),
+          detail,
+        },
+      }
+      process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`)
+    } else {
+      consola.error(t.scanError(), detail)
+    }
+
+    process.exit(EXIT_FATAL)
+  }
+})()
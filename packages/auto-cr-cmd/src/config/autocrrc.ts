@@ -1,12 +1,20 @@
 import fs from 'fs'
 import path from 'path'
-import { RuleSeverity, type Rule } from 'auto-cr-rules'
+import { RuleSeverity, validateRuleOptions, type Rule, type RuleOptionDefinition } from 'auto-cr-rules'
 import { getTranslator } from '../i18n'
+import { createIgnoreMatcher } from './ignore'
+import { isPresetName, listPresetNames, resolvePreset } from './presets'
 
-// 支持的配置文件候选名（从当前工作目录开始查找）。
+// 支持的配置文件候选名（从当前工作目录开始查找，嵌套配置按同样顺序在各级目录查找）。
 const RC_CANDIDATES = ['.autocrrc.json', '.autocrrc.js']
+// 内联配置没有文件路径，提示文案中以此代替。
+const INLINE_CONFIG_LABEL = '<inline config>'
+const NODE_MODULES_SEGMENT = `${path.sep}node_modules${path.sep}`
 
-export type RuleSettingInput =
+// 通过 require 加载过的 JS 配置（含 extends 引入的文件与 npm 预设），重新加载配置前需清理其模块缓存。
+const loadedConfigModules = new Set<string>()
+
+export type RuleSeverityInput =
   | RuleSeverity
   | 'off'
   | 'warn'
@@ -18,58 +26,379 @@ export type RuleSettingInput =
   | 2
   | boolean
 
+// ESLint 风格：单独的 severity，或 [severity, options] 元组。
+export type RuleSettingInput = RuleSeverityInput | [RuleSeverityInput] | [RuleSeverityInput, Record<string, unknown>]
+
+// 扫描失败阈值：达到该级别的问题即判定失败，none 表示不按级别判定。
+export type FailOnLevel = 'error' | 'warning' | 'optimizing' | 'none'
+
+export const FAIL_ON_LEVELS: ReadonlyArray<FailOnLevel> = ['error', 'warning', 'optimizing', 'none']
+
+// 按路径覆盖规则配置：files/excludedFiles 为 glob，相对所在配置文件的目录匹配。
+export interface RuleConfigOverride {
+  files: string | string[]
+  excludedFiles?: string | string[]
+  rules?: Record<string, RuleSettingInput>
+}
+
 export interface AutoCrRcConfig {
+  // 为 true 时不再向上合并外层配置。
+  root?: boolean
+  // 继承的配置：相对路径、npm 包名或内置预设（auto-cr:recommended 等），按顺序合并。
+  extends?: string | string[]
   rules?: Record<string, RuleSettingInput>
+  overrides?: RuleConfigOverride[]
+  // 退出码策略（仅基础配置生效，嵌套配置中的设置会被忽略）；命令行 --fail-on/--max-warnings 优先。
+  failOn?: FailOnLevel
+  // 警告数超过该值即判定失败。
+  maxWarnings?: number
 }
 
-export interface LoadedAutoCrRc {
+// 加载结果中的 rules/overrides 已展开 extends，不再包含 extends 字段。
+export interface LoadedAutoCrRc extends Omit<AutoCrRcConfig, 'extends'> {
   path?: string
-  rules?: Record<string, RuleSettingInput>
-  warnings: string[]
+  // 通过 extends 引入的配置文件（绝对路径），用于结果缓存指纹。
+  dependencies?: string[]
+  errors: string[]
 }
 
-// 读取 .autocrrc 并校验结构；任何解析失败都转成 warning 不中断扫描。
-export function loadAutoCrRc(configPath?: string): LoadedAutoCrRc {
-  const warnings: string[] = []
-  const t = getTranslator()
+// 可序列化的配置快照（不含 errors），用于传给 worker 重建同样的解析器。
+export type AutoCrRcSource = Omit<LoadedAutoCrRc, 'errors'>
+
+// 按文件解析生效的规则配置。
+export interface RuleSettingsResolver {
+  // 没有任何配置时返回 undefined，规则保持默认设置。
+  resolve(filePath: string): Record<string, RuleSettingInput> | undefined
+  // 影响该文件的配置文件（由外到内），用于结果缓存指纹。
+  configFiles(filePath: string): string[]
+}
+
+// 读取 .autocrrc 并校验结构；解析失败收集到 errors 中，由调用方作为致命错误处理。
+// rules 为当前可用的规则列表，用于展开内置预设。
+export function loadAutoCrRc(configPath?: string, rules: ReadonlyArray<Rule> = []): LoadedAutoCrRc {
   const resolvedPath = resolveConfigPath(configPath)
 
   if (!resolvedPath) {
-    return { warnings }
+    return { errors: [] }
+  }
+
+  return readAutoCrRc(resolvedPath, rules)
+}
+
+// 内联配置（库 API 直接传入对象）：extends 与 overrides 相对 baseDir 解析，等同于放在该目录下的配置文件。
+export function resolveAutoCrRcConfig(
+  config: AutoCrRcConfig,
+  rules: ReadonlyArray<Rule> = [],
+  baseDir: string = process.cwd()
+): LoadedAutoCrRc {
+  const errors: string[] = []
+  const expanded = expandAutoCrRc(config, INLINE_CONFIG_LABEL, baseDir, rules, [], errors)
+  return expanded ? { ...expanded, errors } : { errors }
+}
+
+export function toAutoCrRcSource({
+  path: configPath,
+  root,
+  rules,
+  overrides,
+  dependencies,
+}: LoadedAutoCrRc): AutoCrRcSource {
+  return { path: configPath, root, rules, overrides, dependencies }
+}
+
+/**
+ * 创建按文件解析规则配置的解析器：
+ * - 基础配置（工作目录或 --config）最先生效；
+ * - 再从文件所在目录向上查找嵌套 .autocrrc（到工作目录为止，遇到 root: true 停止），由外到内合并；
+ * - 每份配置先合并 rules，再按顺序合并命中的 overrides；
+ * - 只写级别的设置沿用之前配置的 options；
+ * - 嵌套配置文件本身无效（无法解析、结构错误）时通过 onError 上报。
+ */
+export function createRuleSettingsResolver(
+  base: AutoCrRcSource,
+  rules: ReadonlyArray<Rule>,
+  onError: (message: string) => void = () => {},
+  cwd: string = process.cwd()
+): RuleSettingsResolver {
+  const nestedConfigs = new Map<string, AutoCrRcSource | null>()
+  const chains = new Map<string, AutoCrRcSource[]>()
+  const overrideMatchers = new Map<RuleConfigOverride, (filePath: string) => boolean>()
+
+  const loadNested = (dir: string): AutoCrRcSource | null => {
+    const cached = nestedConfigs.get(dir)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const candidate = RC_CANDIDATES.map((name) => path.join(dir, name)).find((filePath) => fs.existsSync(filePath))
+    let loaded: AutoCrRcSource | null = null
+
+    if (candidate && candidate !== base.path) {
+      const result = readAutoCrRc(candidate, rules)
+      result.errors.forEach((error) => onError(error))
+      loaded = result.path ? toAutoCrRcSource(result) : null
+    }
+
+    nestedConfigs.set(dir, loaded)
+    return loaded
+  }
+
+  // 由外到内的配置链，按目录缓存。
+  const resolveChain = (dir: string): AutoCrRcSource[] => {
+    const cached = chains.get(dir)
+    if (cached) {
+      return cached
+    }
+
+    const parent = path.dirname(dir)
+    const nested = dir === cwd ? null : loadNested(dir)
+    let chain: AutoCrRcSource[]
+
+    if (nested?.root) {
+      chain = [nested]
+    } else {
+      const outer = dir === cwd || parent === dir ? [base] : resolveChain(parent)
+      chain = nested ? [...outer, nested] : outer
+    }
+
+    chains.set(dir, chain)
+    return chain
+  }
+
+  const matchesOverride = (config: AutoCrRcSource, override: RuleConfigOverride, filePath: string): boolean => {
+    let matcher = overrideMatchers.get(override)
+
+    if (!matcher) {
+      const baseDir = config.path ? path.dirname(config.path) : cwd
+      const include = createIgnoreMatcher(toPatternList(override.files), baseDir)
+      const exclude = createIgnoreMatcher(toPatternList(override.excludedFiles), baseDir)
+      matcher = (candidate) => include(candidate) && !exclude(candidate)
+      overrideMatchers.set(override, matcher)
+    }
+
+    return matcher(filePath)
+  }
+
+  const resolve = (filePath: string): Record<string, RuleSettingInput> | undefined => {
+    const absolutePath = path.resolve(cwd, filePath)
+    const merged: Record<string, RuleSettingInput> = {}
+
+    for (const config of resolveChain(path.dirname(absolutePath))) {
+      mergeRuleSettings(merged, config.rules)
+
+      for (const override of config.overrides ?? []) {
+        if (matchesOverride(config, override, absolutePath)) {
+          mergeRuleSettings(merged, override.rules)
+        }
+      }
+    }
+
+    return Object.keys(merged).length > 0 ? merged : undefined
   }
 
+  const configFiles = (filePath: string): string[] =>
+    resolveChain(path.dirname(path.resolve(cwd, filePath))).flatMap((config) =>
+      config.path ? [config.path, ...(config.dependencies ?? [])] : []
+    )
+
+  return { resolve, configFiles }
+}
+
+/**
+ * 按文件生成生效的规则列表：
+ * - 配置相同的文件共享同一份规则列表，配置相关的 warning 只输出一次；
+ * - 返回的函数可在主线程与 worker 中复用。
+ */
+export function createRuleResolver(
+  rules: Rule[],
+  settingsResolver: RuleSettingsResolver,
+  onWarning: (message: string) => void
+): (filePath: string) => Rule[] {
+  const ruleSets = new Map<string, Rule[]>()
+
+  return (filePath: string) => {
+    const settings = settingsResolver.resolve(filePath)
+    const key = settings ? JSON.stringify(settings) : ''
+    const cached = ruleSets.get(key)
+
+    if (cached) {
+      return cached
+    }
+
+    const configured = applyRuleConfig(rules, settings, onWarning)
+    ruleSets.set(key, configured)
+    return configured
+  }
+}
+
+/**
+ * 读取单个配置文件（基础配置与嵌套配置共用）并展开 extends：
+ * - 按 extends 数组顺序合并，当前文件自身的 rules 最后合并（后者覆盖前者）；
+ * - overrides 按同样顺序拼接，glob 相对当前文件所在目录匹配；
+ * - root 只取当前文件自身的设置；
+ * - chain 记录正在展开的配置文件，重复出现即视为循环引用并报错。
+ */
+function readAutoCrRc(
+  resolvedPath: string,
+  rules: ReadonlyArray<Rule>,
+  chain: ReadonlyArray<string> = []
+): LoadedAutoCrRc {
+  const errors: string[] = []
+  const t = getTranslator()
+
   if (!fs.existsSync(resolvedPath)) {
-    warnings.push(t.autocrrcPathMissing({ path: resolvedPath }))
-    return { warnings }
+    errors.push(t.autocrrcPathMissing({ path: resolvedPath }))
+    return { errors }
   }
 
   try {
     const raw = readConfigFile(resolvedPath)
     const config = unwrapDefault(raw)
 
-    if (!isRecord(config)) {
-      warnings.push(t.autocrrcInvalidFormat({ path: resolvedPath }))
-      return { warnings }
+    const expanded = expandAutoCrRc(
+      config,
+      resolvedPath,
+      path.dirname(resolvedPath),
+      rules,
+      [...chain, resolvedPath],
+      errors
+    )
+    return expanded ? { path: resolvedPath, ...expanded, errors } : { errors }
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    errors.push(t.autocrrcLoadFailed({ path: resolvedPath, error: detail }))
+    return { errors }
+  }
+}
+
+// 校验配置结构并展开 extends；label 用于提示文案（文件路径或内联配置）。
+function expandAutoCrRc(
+  config: unknown,
+  label: string,
+  baseDir: string,
+  rules: ReadonlyArray<Rule>,
+  chain: ReadonlyArray<string>,
+  errors: string[]
+): Omit<AutoCrRcSource, 'path'> | null {
+  const t = getTranslator()
+
+  if (!isRecord(config)) {
+    errors.push(t.autocrrcInvalidFormat({ path: label }))
+    return null
+  }
+
+  if (config.rules !== undefined && !isRecord(config.rules)) {
+    errors.push(t.autocrrcInvalidRulesField({ path: label }))
+    return null
+  }
+
+  if (config.extends !== undefined && !isPatternInput(config.extends)) {
+    errors.push(t.autocrrcInvalidExtends({ path: label }))
+  }
+
+  if (config.failOn !== undefined && !isFailOnLevel(config.failOn)) {
+    errors.push(t.autocrrcInvalidFailOn({ path: label, value: stringifyValue(config.failOn) }))
+  }
+
+  if (config.maxWarnings !== undefined && !isMaxWarnings(config.maxWarnings)) {
+    errors.push(t.autocrrcInvalidMaxWarnings({ path: label, value: stringifyValue(config.maxWarnings) }))
+  }
+
+  const extendsList = isPatternInput(config.extends) ? toPatternList(config.extends) : []
+  const layers = resolveExtends(extendsList, label, baseDir, rules, chain, errors)
+  const own: AutoCrRcSource = {
+    rules: config.rules as Record<string, RuleSettingInput> | undefined,
+    overrides: normalizeOverrides(config.overrides, label, errors),
+    failOn: isFailOnLevel(config.failOn) ? config.failOn : undefined,
+    maxWarnings: isMaxWarnings(config.maxWarnings) ? config.maxWarnings : undefined,
+  }
+  const mergedRules: Record<string, RuleSettingInput> = {}
+  const mergedOverrides: RuleConfigOverride[] = []
+  const dependencies: string[] = []
+  let failOn: FailOnLevel | undefined
+  let maxWarnings: number | undefined
+
+  for (const layer of [...layers, own]) {
+    failOn = layer.failOn ?? failOn
+    maxWarnings = layer.maxWarnings ?? maxWarnings
+    mergeRuleSettings(mergedRules, layer.rules)
+    mergedOverrides.push(...(layer.overrides ?? []))
+    dependencies.push(...(layer.path ? [layer.path] : []), ...(layer.dependencies ?? []))
+  }
+
+  return {
+    root: config.root === true,
+    rules: own.rules || layers.length > 0 ? mergedRules : undefined,
+    overrides: mergedOverrides.length > 0 ? mergedOverrides : undefined,
+    dependencies: dependencies.length > 0 ? Array.from(new Set(dependencies)) : undefined,
+    failOn,
+    maxWarnings,
+  }
+}
+
+// 展开 extends 条目：预设直接生成规则设置，文件/包递归读取；无法解析的条目记为错误。
+function resolveExtends(
+  names: ReadonlyArray<string>,
+  label: string,
+  baseDir: string,
+  rules: ReadonlyArray<Rule>,
+  chain: ReadonlyArray<string>,
+  errors: string[]
+): AutoCrRcSource[] {
+  const t = getTranslator()
+  const layers: AutoCrRcSource[] = []
+
+  for (const name of names) {
+    if (isPresetName(name)) {
+      const preset = resolvePreset(name, rules)
+
+      if (!preset) {
+        errors.push(t.autocrrcUnknownPreset({ name, available: listPresetNames().join(', ') }))
+        continue
+      }
+
+      layers.push({ rules: preset })
+      continue
     }
 
-    if (config.rules !== undefined && !isRecord(config.rules)) {
-      warnings.push(t.autocrrcInvalidRulesField({ path: resolvedPath }))
-      return { warnings }
+    const extendedPath = resolveExtendsPath(name, baseDir)
+
+    if (!extendedPath) {
+      errors.push(t.autocrrcExtendsNotFound({ name, path: label }))
+      continue
     }
 
-    return {
-      path: resolvedPath,
-      rules: config.rules as Record<string, RuleSettingInput> | undefined,
-      warnings,
+    if (chain.includes(extendedPath)) {
+      errors.push(t.autocrrcExtendsCycle({ chain: [...chain, extendedPath].join(' -> ') }))
+      continue
     }
-  } catch (error) {
-    const detail = error instanceof Error ? error.message : String(error)
-    warnings.push(t.autocrrcLoadFailed({ path: resolvedPath, error: detail }))
-    return { warnings }
+
+    const extended = readAutoCrRc(extendedPath, rules, chain)
+    errors.push(...extended.errors)
+
+    if (extended.path) {
+      layers.push(toAutoCrRcSource(extended))
+    }
+  }
+
+  return layers
+}
+
+// 相对/绝对路径按配置文件所在目录解析，其余按 npm 包名从该目录向上查找。
+function resolveExtendsPath(name: string, baseDir: string): string | null {
+  if (name.startsWith('.') || path.isAbsolute(name)) {
+    const resolved = path.resolve(baseDir, name)
+    return fs.existsSync(resolved) ? resolved : null
+  }
+
+  try {
+    return require.resolve(name, { paths: [baseDir] })
+  } catch {
+    return null
   }
 }
 
-// 将 rules 配置应用到内置/自定义规则上，支持关闭与调整 severity。
+// 将 rules 配置应用到内置/自定义规则上，支持关闭、调整 severity 与按 schema 校验 options。
 export function applyRuleConfig(
   rules: Rule[],
   ruleSettings: Record<string, RuleSettingInput> | undefined,
@@ -91,29 +420,163 @@ export function applyRuleConfig(
     }
 
     const rawSetting = ruleSettings[rule.name]
-    const normalized = normalizeRuleSetting(rawSetting)
+    const [rawSeverity, rawOptions] = Array.isArray(rawSetting) ? rawSetting : [rawSetting, undefined]
+    const normalized = normalizeRuleSetting(rawSeverity)
 
     if (normalized === 'off') {
       continue
     }
 
+    const options = rawOptions === undefined ? undefined : resolveOptions(rule, rawOptions, onWarning)
+    const withOptions = options ? { ...rule, options } : rule
+
     if (normalized === null) {
-      onWarning(t.autocrrcInvalidRuleSetting({ ruleName: rule.name, value: stringifyValue(rawSetting) }))
-      configured.push(rule)
+      onWarning(t.autocrrcInvalidRuleSetting({ ruleName: rule.name, value: stringifyValue(rawSeverity) }))
+      configured.push(withOptions)
       continue
     }
 
     if (normalized === undefined) {
-      configured.push(rule)
+      configured.push(withOptions)
       continue
     }
 
-    configured.push({ ...rule, severity: normalized })
+    configured.push({ ...withOptions, severity: normalized })
   }
 
   return configured
 }
 
+// 校验 overrides 结构：非法条目记为错误。
+function normalizeOverrides(
+  input: unknown,
+  configPath: string,
+  errors: string[]
+): RuleConfigOverride[] | undefined {
+  if (input === undefined) {
+    return undefined
+  }
+
+  const t = getTranslator()
+
+  if (!Array.isArray(input)) {
+    errors.push(t.autocrrcInvalidOverrides({ path: configPath }))
+    return undefined
+  }
+
+  return input.filter((entry: unknown, index): entry is RuleConfigOverride => {
+    const valid =
+      isRecord(entry) &&
+      isPatternInput(entry.files) &&
+      toPatternList(entry.files as RuleConfigOverride['files']).length > 0 &&
+      (entry.excludedFiles === undefined || isPatternInput(entry.excludedFiles)) &&
+      (entry.rules === undefined || isRecord(entry.rules))
+
+    if (!valid) {
+      errors.push(t.autocrrcInvalidOverride({ path: configPath, index }))
+    }
+
+    return valid
+  })
+}
+
+function isPatternInput(value: unknown): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+}
+
+function toPatternList(value?: string | string[]): string[] {
+  if (value === undefined) {
+    return []
+  }
+
+  return (Array.isArray(value) ? value : [value]).filter((pattern) => pattern.trim().length > 0)
+}
+
+// 合并规则设置：后者覆盖前者；只写级别时沿用之前的 options。
+function mergeRuleSettings(
+  target: Record<string, RuleSettingInput>,
+  source?: Record<string, RuleSettingInput>
+): void {
+  if (!source) {
+    return
+  }
+
+  for (const [ruleName, setting] of Object.entries(source)) {
+    const previous = target[ruleName]
+
+    if (!Array.isArray(setting) && Array.isArray(previous) && previous.length > 1) {
+      target[ruleName] = [setting, previous[1]] as RuleSettingInput
+      continue
+    }
+
+    target[ruleName] = setting
+  }
+}
+
+// 校验 options：结构错误或规则未声明 schema 时整体忽略；单项校验失败只丢弃该项，回退到默认值。
+function resolveOptions(
+  rule: Rule,
+  rawOptions: unknown,
+  onWarning: (message: string) => void
+): Rule['options'] | undefined {
+  const t = getTranslator()
+
+  if (!isRecord(rawOptions)) {
+    onWarning(t.autocrrcInvalidRuleOptions({ ruleName: rule.name, value: stringifyValue(rawOptions) }))
+    return undefined
+  }
+
+  if (!rule.schema) {
+    onWarning(t.autocrrcRuleOptionsUnsupported({ ruleName: rule.name }))
+    return undefined
+  }
+
+  const { options, issues } = validateRuleOptions(rule.schema, rawOptions)
+
+  for (const issue of issues) {
+    if (issue.reason === 'unknown') {
+      onWarning(
+        t.autocrrcUnknownRuleOption({
+          ruleName: rule.name,
+          option: issue.option,
+          available: Object.keys(rule.schema).join(', '),
+        })
+      )
+      continue
+    }
+
+    onWarning(
+      t.autocrrcInvalidRuleOptionValue({
+        ruleName: rule.name,
+        option: issue.option,
+        value: stringifyValue(issue.value),
+        expected: describeOptionDefinition(issue.definition),
+      })
+    )
+  }
+
+  return options
+}
+
+// 把 schema 约束转成简短描述，用于校验失败提示（如 integer >= 0、"a" | "b"）。
+function describeOptionDefinition(definition?: RuleOptionDefinition): string {
+  if (!definition) {
+    return ''
+  }
+
+  if (definition.enum) {
+    const values = definition.enum.map((value) => `"${value}"`).join(' | ')
+    return definition.type === 'string[]' ? `(${values})[]` : values
+  }
+
+  const bounds = [
+    definition.minimum !== undefined ? `>= ${definition.minimum}` : null,
+    definition.maximum !== undefined ? `<= ${definition.maximum}` : null,
+  ].filter(Boolean)
+
+  return bounds.length > 0 ? `${definition.type} ${bounds.join(', ')}` : definition.type
+}
+
 // 优先使用显式路径，否则在工作目录内按候选名查找。
 function resolveConfigPath(explicitPath?: string): string | null {
   if (explicitPath) {
@@ -130,6 +593,39 @@ function resolveConfigPath(explicitPath?: string): string | null {
   return null
 }
 
+/**
+ * 已加载的 JS 配置模块及其 require 的模块（绝对路径）：
+ * - 包括 extends 链上的 JS 配置与 npm 预设，JSON 配置每次重新读取，不在其中；
+ * - 配置拆分出的辅助文件一并计入；node_modules 中不在配置所在目录下的模块视为第三方依赖，不计入。
+ */
+export function listConfigModules(): string[] {
+  const modules = new Set<string>()
+
+  const visit = (filePath: string, ownerDir: string): void => {
+    if (modules.has(filePath)) {
+      return
+    }
+
+    modules.add(filePath)
+    require.cache[filePath]?.children.forEach((child) => {
+      if (!child.filename.includes(NODE_MODULES_SEGMENT) || child.filename.startsWith(ownerDir)) {
+        visit(child.filename, ownerDir)
+      }
+    })
+  }
+
+  loadedConfigModules.forEach((filePath) => visit(filePath, `${path.dirname(filePath)}${path.sep}`))
+  return Array.from(modules)
+}
+
+// 清理 JS 配置的 require 缓存（见 listConfigModules），供语言服务等常驻进程在配置变化后重新加载。
+export function clearConfigModuleCache(): void {
+  listConfigModules().forEach((filePath) => {
+    delete require.cache[filePath]
+  })
+  loadedConfigModules.clear()
+}
+
 // 读取配置文件：支持 JSON 与 JS 导出。
 function readConfigFile(filePath: string): unknown {
   if (filePath.endsWith('.json')) {
@@ -138,6 +634,7 @@ function readConfigFile(filePath: string): unknown {
   }
 
   if (filePath.endsWith('.js')) {
+    loadedConfigModules.add(filePath)
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     return require(filePath)
   }
@@ -159,7 +656,7 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 }
 
 // 统一配置格式：支持字符串/数字/布尔值等多种简写形式。
-function normalizeRuleSetting(input: RuleSettingInput): RuleSeverity | 'off' | null | undefined {
+function normalizeRuleSetting(input: RuleSeverityInput): RuleSeverity | 'off' | null | undefined {
   if (input === undefined) {
     return undefined
   }
@@ -208,6 +705,14 @@ function normalizeRuleSetting(input: RuleSettingInput): RuleSeverity | 'off' | n
   return null
 }
 
+export function isFailOnLevel(value: unknown): value is FailOnLevel {
+  return typeof value === 'string' && FAIL_ON_LEVELS.includes(value as FailOnLevel)
+}
+
+function isMaxWarnings(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
 function stringifyValue(value: unknown): string {
   if (typeof value === 'string') {
     return `"${value}"`
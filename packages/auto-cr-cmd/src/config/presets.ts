@@ -0,0 +1,48 @@
+import { RuleSeverity, type Rule } from 'auto-cr-rules'
+import type { RuleSettingInput } from './autocrrc'
+
+// 内置预设通过 extends: ["auto-cr:<name>"] 引用。
+export const PRESET_PREFIX = 'auto-cr:'
+
+// 预设按规则的 tag 与默认级别生成设置，自定义规则同样适用；返回 undefined 表示不调整该规则。
+const PRESETS: Record<string, (rule: Rule) => RuleSettingInput | undefined> = {
+  // 推荐：启用 error/warning 级别的规则，关闭仅作优化提示的规则。
+  recommended: (rule) => (rule.severity === RuleSeverity.Optimizing ? 'off' : true),
+  // 性能：热点路径规则（tag 为 performance）提升为 warning；其余规则不写入设置，沿用默认级别或之前 extends 的设置，
+  // 因此可以叠加在其他预设之后（如 ["auto-cr:recommended", "auto-cr:performance"]）。只检查性能问题时需自行关闭其余规则。
+  performance: (rule) => (rule.tag === 'performance' ? 'warning' : undefined),
+  // 严格：全部规则按 error 处理。
+  strict: () => 'error',
+}
+
+export function isPresetName(name: string): boolean {
+  return name.startsWith(PRESET_PREFIX)
+}
+
+export function listPresetNames(): string[] {
+  return Object.keys(PRESETS).map((name) => `${PRESET_PREFIX}${name}`)
+}
+
+// 展开预设为规则设置；未知预设返回 undefined。
+export function resolvePreset(
+  name: string,
+  rules: ReadonlyArray<Rule>
+): Record<string, RuleSettingInput> | undefined {
+  const key = name.slice(PRESET_PREFIX.length)
+  const preset = Object.prototype.hasOwnProperty.call(PRESETS, key) ? PRESETS[key] : undefined
+
+  if (!preset) {
+    return undefined
+  }
+
+  const settings: Record<string, RuleSettingInput> = {}
+
+  for (const rule of rules) {
+    const setting = preset(rule)
+    if (setting !== undefined) {
+      settings[rule.name] = setting
+    }
+  }
+
+  return settings
+}
@@ -12,6 +12,8 @@ interface Translator {
   scanError(): string
   parseFileFailed(params: { file: string }): string
   ruleExecutionFailed(params: { ruleName: string; file: string }): string
+  ruleFinalizeFailed(params: { ruleName: string }): string
+  unusedDisableDirective(params: { directive: string }): string
   unexpectedError(): string
   pathNotExist(params: { path: string }): string
   customRuleDirMissing(params: { path: string }): string
@@ -22,10 +24,70 @@ interface Translator {
   autocrrcInvalidFormat(params: { path: string }): string
   autocrrcInvalidRulesField(params: { path: string }): string
   autocrrcInvalidRuleSetting(params: { ruleName: string; value: string }): string
+  autocrrcInvalidOverrides(params: { path: string }): string
+  autocrrcInvalidOverride(params: { path: string; index: number }): string
+  autocrrcInvalidExtends(params: { path: string }): string
+  autocrrcInvalidFailOn(params: { path: string; value: string }): string
+  autocrrcInvalidMaxWarnings(params: { path: string; value: string }): string
+  autocrrcExtendsNotFound(params: { name: string; path: string }): string
+  autocrrcExtendsCycle(params: { chain: string }): string
+  autocrrcUnknownPreset(params: { name: string; available: string }): string
+  autocrrcInvalidRuleOptions(params: { ruleName: string; value: string }): string
+  autocrrcRuleOptionsUnsupported(params: { ruleName: string }): string
+  autocrrcUnknownRuleOption(params: { ruleName: string; option: string; available: string }): string
+  autocrrcInvalidRuleOptionValue(params: { ruleName: string; option: string; value: string; expected: string }): string
   autocrrcAllRulesDisabled(): string
   autocrignorePathMissing(params: { path: string }): string
   autocrignoreLoadFailed(params: { path: string; error: string }): string
   autocrignoreInvalidFormat(params: { path: string }): string
+  baselinePathMissing(params: { path: string }): string
+  baselineLoadFailed(params: { path: string; error: string }): string
+  baselineInvalidFormat(params: { path: string }): string
+  baselineLanguageMismatch(params: { path: string; baseline: string; current: string }): string
+  baselineSuppressed(params: { count: number }): string
+  baselineUpdated(params: { path: string; count: number }): string
+  gitDiffFailed(params: { command: string; error: string }): string
+  gitDiffNoChanges(): string
+  fixAppliedFile(params: { file: string; count: number }): string
+  fixDryRunFile(params: { file: string; count: number }): string
+  fixAppliedSummary(params: { count: number; files: number }): string
+  fixDryRunSummary(params: { count: number; files: number }): string
+  fixSkippedInvalid(params: { file: string }): string
+  fixSkippedChanged(params: { file: string }): string
+  cacheLoadFailed(params: { path: string; error: string }): string
+  cacheWriteFailed(params: { path: string; error: string }): string
+  outputFileWriteFailed(params: { path: string; error: string }): string
+  watchStarted(): string
+  watchRescanning(params: { count: number }): string
+  watchDelta(params: { files: number; added: number; resolved: number; errors: number; warnings: number }): string
+  watchFailed(): string
+  watchRequiresText(): string
+  updateBaselineDiffConflict(): string
+  stdinCodeRequiresFilename(): string
+  stdinCodeConflict(params: { option: string }): string
+  graphFileWriteFailed(params: { path: string; error: string }): string
+  lspFixTitle(params: { rule: string }): string
+  reportTitle(): string
+  htmlGeneratedAt(params: { time: string; version?: string }): string
+  reportSummaryHeading(): string
+  htmlRulesHeading(): string
+  htmlDirectoriesHeading(): string
+  reportFilesHeading(): string
+  reportScannedFiles(): string
+  reportFilesWithErrors(): string
+  reportFilesWithWarnings(): string
+  reportFilesWithOptimizing(): string
+  reportTotalViolations(): string
+  htmlColumnRule(): string
+  htmlColumnTag(): string
+  htmlColumnSeverity(): string
+  htmlColumnCount(): string
+  htmlColumnFiles(): string
+  htmlFilterHint(): string
+  htmlShowAll(): string
+  reportNoViolations(): string
+  markdownColumnMetric(): string
+  markdownColumnCount(): string
   tsconfigReadFailed(): string
   reporterSeverityLabel(params: { severity: RuleSeverity }): string
   reporterSeverityIcon(params: { severity: RuleSeverity }): string
@@ -51,6 +113,8 @@ const translations = {
     scanError: () => '代码扫描过程中发生错误:',
     parseFileFailed: ({ file }) => `解析文件失败: ${file}`,
     ruleExecutionFailed: ({ ruleName, file }) => `规则执行失败(${ruleName}): ${file}`,
+    ruleFinalizeFailed: ({ ruleName }) => `规则汇总阶段执行失败(${ruleName})`,
+    unusedDisableDirective: ({ directive }) => `未使用的抑制注释（该处没有需要抑制的问题）: ${directive}`,
     unexpectedError: () => '执行过程中发生未预期的错误:',
     pathNotExist: ({ path }) => `路径不存在: ${path}`,
     customRuleDirMissing: ({ path }) => `自定义规则目录不存在: ${path}`,
@@ -61,11 +125,78 @@ const translations = {
     autocrrcInvalidFormat: ({ path }) => `配置文件格式无效（需导出对象）: ${path}`,
     autocrrcInvalidRulesField: ({ path }) => `配置文件 rules 字段必须是对象: ${path}`,
     autocrrcInvalidRuleSetting: ({ ruleName, value }) =>
-      `规则 ${ruleName} 的配置值无效: ${value}。可选: off | warning | error | optimizing | true/false | 0/1/2`,
+      `规则 ${ruleName} 的配置值无效: ${value}。可选: off | warning | error | optimizing | true/false | 0/1/2，或 [级别, options]`,
+    autocrrcInvalidOverrides: ({ path }) => `配置文件 overrides 字段必须是数组: ${path}`,
+    autocrrcInvalidOverride: ({ path, index }) =>
+      `配置文件 overrides[${index}] 无效（需包含 files 与对象类型的 rules）: ${path}`,
+    autocrrcInvalidExtends: ({ path }) => `配置文件 extends 字段必须是字符串或字符串数组: ${path}`,
+    autocrrcInvalidFailOn: ({ path, value }) =>
+      `配置文件 failOn 字段无效（${value}），应为 error、warning、optimizing 或 none: ${path}`,
+    autocrrcInvalidMaxWarnings: ({ path, value }) =>
+      `配置文件 maxWarnings 字段无效（${value}），应为非负整数: ${path}`,
+    autocrrcExtendsNotFound: ({ name, path }) => `无法解析 extends 配置 ${name} (${path})`,
+    autocrrcExtendsCycle: ({ chain }) => `extends 存在循环引用: ${chain}`,
+    autocrrcUnknownPreset: ({ name, available }) => `未知的内置预设 ${name}。可选: ${available}`,
+    autocrrcInvalidRuleOptions: ({ ruleName, value }) => `规则 ${ruleName} 的 options 必须是对象，已忽略: ${value}`,
+    autocrrcRuleOptionsUnsupported: ({ ruleName }) => `规则 ${ruleName} 不支持 options，已忽略`,
+    autocrrcUnknownRuleOption: ({ ruleName, option, available }) =>
+      `规则 ${ruleName} 不存在配置项 ${option}，已忽略。可选: ${available}`,
+    autocrrcInvalidRuleOptionValue: ({ ruleName, option, value, expected }) =>
+      `规则 ${ruleName} 的配置项 ${option} 取值无效: ${value}，需为 ${expected}，已使用默认值`,
     autocrrcAllRulesDisabled: () => '配置已关闭所有规则，跳过扫描',
     autocrignorePathMissing: ({ path }) => `忽略文件不存在: ${path}`,
     autocrignoreLoadFailed: ({ path, error }) => `读取 .autocrignore 失败 (${path}): ${error}`,
     autocrignoreInvalidFormat: ({ path }) => `忽略文件格式无效（需提供字符串数组或逐行模式）: ${path}`,
+    baselinePathMissing: ({ path }) => `基线文件不存在，将报告全部问题: ${path}`,
+    baselineLoadFailed: ({ path, error }) => `读取基线文件失败 (${path}): ${error}`,
+    baselineInvalidFormat: ({ path }) => `基线文件格式无效（需包含 violations 数组）: ${path}`,
+    baselineLanguageMismatch: ({ path, baseline, current }) =>
+      `基线文件按语言 ${baseline} 生成，当前扫描语言为 ${current}，问题文案不同将无法匹配。请使用 --language ${baseline} 扫描，或重新生成基线: ${path}`,
+    baselineSuppressed: ({ count }) => `已按基线忽略 ${count} 个历史问题`,
+    baselineUpdated: ({ path, count }) => `已写入基线文件（${count} 个问题）: ${path}`,
+    gitDiffFailed: ({ command, error }) => `执行 ${command} 失败: ${error}`,
+    gitDiffNoChanges: () => '未检测到变更文件，跳过扫描',
+    fixAppliedFile: ({ file, count }) => `已修复 ${count} 个问题: ${file}`,
+    fixDryRunFile: ({ file, count }) => `可修复 ${count} 个问题（未写回）: ${file}`,
+    fixAppliedSummary: ({ count, files }) => `自动修复完成：共修复 ${files} 个文件中的 ${count} 个问题`,
+    fixDryRunSummary: ({ count, files }) => `预览完成：${files} 个文件中有 ${count} 个问题可自动修复`,
+    fixSkippedInvalid: ({ file }) => `修复后代码无法解析，已跳过该文件: ${file}`,
+    fixSkippedChanged: ({ file }) => `文件在扫描后已被修改，已跳过修复: ${file}`,
+    cacheLoadFailed: ({ path, error }) => `读取缓存文件失败，已忽略: ${path}，原因: ${error}`,
+    cacheWriteFailed: ({ path, error }) => `写入缓存文件失败: ${path}，原因: ${error}`,
+    outputFileWriteFailed: ({ path, error }) => `写入报告文件失败: ${path}，原因: ${error}`,
+    watchStarted: () => '正在监听文件变化（按 Ctrl+C 退出）...',
+    watchRescanning: ({ count }) => `检测到变更，重新扫描 ${count} 个文件`,
+    watchDelta: ({ files, added, resolved, errors, warnings }) =>
+      `已重新扫描 ${files} 个文件：新增 ${added} 个问题，解决 ${resolved} 个问题；当前共 ${errors} 个错误、${warnings} 个警告`,
+    watchFailed: () => '监听文件变化失败',
+    watchRequiresText: () => '--watch 仅支持 text 输出格式',
+    updateBaselineDiffConflict: () => '--update-baseline 不能与 --diff/--staged 同时使用：diff 模式只保留变更行上的问题，会丢失其余历史问题',
+    stdinCodeRequiresFilename: () => '--stdin-code 需要同时指定 --stdin-filename',
+    stdinCodeConflict: ({ option }) => `--stdin-code 不能与 ${option} 同时使用`,
+    graphFileWriteFailed: ({ path, error }) => `写入导入图文件失败: ${path}，原因: ${error}`,
+    lspFixTitle: ({ rule }) => `修复 ${rule} 问题`,
+    reportTitle: () => 'auto-cr 代码审查报告',
+    htmlGeneratedAt: ({ time, version }) => `生成时间 ${time}${version ? ` · auto-cr ${version}` : ''}`,
+    reportSummaryHeading: () => '概览',
+    htmlRulesHeading: () => '按规则统计',
+    htmlDirectoriesHeading: () => '按目录统计',
+    reportFilesHeading: () => '问题详情',
+    reportScannedFiles: () => '扫描文件',
+    reportFilesWithErrors: () => '含错误的文件',
+    reportFilesWithWarnings: () => '含警告的文件',
+    reportFilesWithOptimizing: () => '含优化建议的文件',
+    reportTotalViolations: () => '问题总数',
+    htmlColumnRule: () => '规则',
+    htmlColumnTag: () => '分类',
+    htmlColumnSeverity: () => '级别',
+    htmlColumnCount: () => '问题数',
+    htmlColumnFiles: () => '文件数',
+    htmlFilterHint: () => '点击表头排序，点击规则只看该规则的问题',
+    htmlShowAll: () => '显示全部',
+    reportNoViolations: () => '未发现问题',
+    markdownColumnMetric: () => '指标',
+    markdownColumnCount: () => '数量',
     tsconfigReadFailed: () => '警告: 无法读取 tsconfig.json',
     reporterSeverityLabel: ({ severity }) => {
       const labels: Record<RuleSeverity, string> = {
@@ -118,6 +249,8 @@ const translations = {
     scanError: () => 'An error occurred during code scanning:',
     parseFileFailed: ({ file }) => `Failed to parse file: ${file}`,
     ruleExecutionFailed: ({ ruleName, file }) => `Rule execution failed (${ruleName}): ${file}`,
+    ruleFinalizeFailed: ({ ruleName }) => `Rule finalize failed (${ruleName})`,
+    unusedDisableDirective: ({ directive }) => `Unused suppression comment (no problems were reported here): ${directive}`,
     unexpectedError: () => 'Unexpected error occurred during execution:',
     pathNotExist: ({ path }) => `Path does not exist: ${path}`,
     customRuleDirMissing: ({ path }) => `Custom rule directory does not exist: ${path}`,
@@ -128,11 +261,79 @@ const translations = {
     autocrrcInvalidFormat: ({ path }) => `Invalid config format (should export an object): ${path}`,
     autocrrcInvalidRulesField: ({ path }) => `Config "rules" field must be an object: ${path}`,
     autocrrcInvalidRuleSetting: ({ ruleName, value }) =>
-      `Invalid setting for rule ${ruleName}: ${value}. Use off | warning | error | optimizing | true/false | 0/1/2`,
+      `Invalid setting for rule ${ruleName}: ${value}. Use off | warning | error | optimizing | true/false | 0/1/2, or [severity, options]`,
+    autocrrcInvalidOverrides: ({ path }) => `Config "overrides" field must be an array: ${path}`,
+    autocrrcInvalidOverride: ({ path, index }) =>
+      `Invalid overrides[${index}] (expect "files" and an object "rules"): ${path}`,
+    autocrrcInvalidExtends: ({ path }) => `Config "extends" field must be a string or an array of strings: ${path}`,
+    autocrrcInvalidFailOn: ({ path, value }) =>
+      `Config "failOn" field ${value} is invalid; expected error, warning, optimizing or none: ${path}`,
+    autocrrcInvalidMaxWarnings: ({ path, value }) =>
+      `Config "maxWarnings" field ${value} is invalid; expected a non-negative integer: ${path}`,
+    autocrrcExtendsNotFound: ({ name, path }) => `Cannot resolve extended config ${name} (${path})`,
+    autocrrcExtendsCycle: ({ chain }) => `Circular "extends" chain: ${chain}`,
+    autocrrcUnknownPreset: ({ name, available }) => `Unknown built-in preset ${name}. Available: ${available}`,
+    autocrrcInvalidRuleOptions: ({ ruleName, value }) => `Options for rule ${ruleName} must be an object; ignored: ${value}`,
+    autocrrcRuleOptionsUnsupported: ({ ruleName }) => `Rule ${ruleName} does not accept options; ignored`,
+    autocrrcUnknownRuleOption: ({ ruleName, option, available }) =>
+      `Unknown option ${option} for rule ${ruleName}; ignored. Available: ${available}`,
+    autocrrcInvalidRuleOptionValue: ({ ruleName, option, value, expected }) =>
+      `Invalid value for option ${option} of rule ${ruleName}: ${value}; expected ${expected}. Using the default`,
     autocrrcAllRulesDisabled: () => 'All rules are disabled by config; skipping scan',
     autocrignorePathMissing: ({ path }) => `Ignore file not found: ${path}`,
     autocrignoreLoadFailed: ({ path, error }) => `Failed to read .autocrignore (${path}): ${error}`,
     autocrignoreInvalidFormat: ({ path }) => `Invalid ignore file format (expect string array or line-based list): ${path}`,
+    baselinePathMissing: ({ path }) => `Baseline file not found; reporting all problems: ${path}`,
+    baselineLoadFailed: ({ path, error }) => `Failed to read baseline file (${path}): ${error}`,
+    baselineInvalidFormat: ({ path }) => `Invalid baseline file format (expect a "violations" array): ${path}`,
+    baselineLanguageMismatch: ({ path, baseline, current }) =>
+      `Baseline was written in language ${baseline} but this scan uses ${current}, so messages will not match. Scan with --language ${baseline} or regenerate the baseline: ${path}`,
+    baselineSuppressed: ({ count }) => `Ignored ${count} existing problem(s) recorded in the baseline`,
+    baselineUpdated: ({ path, count }) => `Baseline written (${count} problem(s)): ${path}`,
+    gitDiffFailed: ({ command, error }) => `Failed to run ${command}: ${error}`,
+    gitDiffNoChanges: () => 'No changed files detected; skipping scan',
+    fixAppliedFile: ({ file, count }) => `Fixed ${count} problem(s): ${file}`,
+    fixDryRunFile: ({ file, count }) => `${count} problem(s) can be fixed (not written): ${file}`,
+    fixAppliedSummary: ({ count, files }) => `Autofix complete: fixed ${count} problem(s) in ${files} file(s)`,
+    fixDryRunSummary: ({ count, files }) => `Dry run complete: ${count} problem(s) in ${files} file(s) can be fixed`,
+    fixSkippedInvalid: ({ file }) => `Skipped fixes for a file that would no longer parse: ${file}`,
+    fixSkippedChanged: ({ file }) => `Skipped fixes for a file that changed after it was scanned: ${file}`,
+    cacheLoadFailed: ({ path, error }) => `Ignored unreadable cache file ${path}: ${error}`,
+    cacheWriteFailed: ({ path, error }) => `Failed to write cache file ${path}: ${error}`,
+    outputFileWriteFailed: ({ path, error }) => `Failed to write report file ${path}: ${error}`,
+    watchStarted: () => 'Watching for file changes (press Ctrl+C to exit)...',
+    watchRescanning: ({ count }) => `Change detected, re-scanning ${count} file(s)`,
+    watchDelta: ({ files, added, resolved, errors, warnings }) =>
+      `Re-scanned ${files} file(s): ${added} new problem(s), ${resolved} resolved; now ${errors} error(s), ${warnings} warning(s)`,
+    watchFailed: () => 'Failed to watch for file changes',
+    watchRequiresText: () => '--watch only supports the text output format',
+    updateBaselineDiffConflict: () =>
+      '--update-baseline cannot be combined with --diff/--staged: diff mode only keeps problems on changed lines, so other recorded problems would be lost',
+    stdinCodeRequiresFilename: () => '--stdin-code requires --stdin-filename',
+    stdinCodeConflict: ({ option }) => `--stdin-code cannot be combined with ${option}`,
+    graphFileWriteFailed: ({ path, error }) => `Failed to write import graph file ${path}: ${error}`,
+    lspFixTitle: ({ rule }) => `Fix ${rule} problem`,
+    reportTitle: () => 'auto-cr Code Review Report',
+    htmlGeneratedAt: ({ time, version }) => `Generated at ${time}${version ? ` · auto-cr ${version}` : ''}`,
+    reportSummaryHeading: () => 'Summary',
+    htmlRulesHeading: () => 'By rule',
+    htmlDirectoriesHeading: () => 'By directory',
+    reportFilesHeading: () => 'Problems',
+    reportScannedFiles: () => 'Scanned files',
+    reportFilesWithErrors: () => 'Files with errors',
+    reportFilesWithWarnings: () => 'Files with warnings',
+    reportFilesWithOptimizing: () => 'Files with optimizing hints',
+    reportTotalViolations: () => 'Total problems',
+    htmlColumnRule: () => 'Rule',
+    htmlColumnTag: () => 'Tag',
+    htmlColumnSeverity: () => 'Severity',
+    htmlColumnCount: () => 'Problems',
+    htmlColumnFiles: () => 'Files',
+    htmlFilterHint: () => 'Click a header to sort; click a rule to show only its problems',
+    htmlShowAll: () => 'Show all',
+    reportNoViolations: () => 'No problems found',
+    markdownColumnMetric: () => 'Metric',
+    markdownColumnCount: () => 'Count',
     tsconfigReadFailed: () => 'Warning: Failed to read tsconfig.json',
     reporterSeverityLabel: ({ severity }) => {
       const labels: Record<RuleSeverity, string> = {
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// 语言服务入口（auto-cr-lsp）：通过 stdio 与编辑器通信，编辑时即可看到诊断；扫描逻辑复用库 API。
+import { createConnection } from './lsp/connection'
+import { startLanguageServer } from './lsp/server'
+
+const connection = createConnection(process.stdin, process.stdout)
+
+startLanguageServer(connection)
+connection.listen()
+
+// 编辑器退出时可能直接关闭管道而不发送 exit 通知。
+process.stdin.on('end', () => process.exit(0))
@@ -0,0 +1,133 @@
+import type { JsonRpcMessage } from './types'
+
+// JSON-RPC 错误码（LSP 规范沿用）。
+const METHOD_NOT_FOUND = -32601
+const INTERNAL_ERROR = -32603
+
+const HEADER_DELIMITER = '\r\n\r\n'
+
+type RequestHandler = (params: unknown) => unknown | Promise<unknown>
+type NotificationHandler = (params: unknown) => void | Promise<void>
+
+export interface LspConnection {
+  onRequest(method: string, handler: RequestHandler): void
+  onNotification(method: string, handler: NotificationHandler): void
+  sendNotification(method: string, params: unknown): void
+  // 服务端发起的请求（如动态注册能力）不关心响应内容，客户端的回包直接丢弃。
+  sendRequest(method: string, params: unknown): void
+  listen(): void
+}
+
+/**
+ * 基于 stdio 的最小 JSON-RPC 连接：
+ * - 按 Content-Length 头切分消息，兼容分片与粘包；
+ * - 请求按方法名分发，未注册的方法返回 MethodNotFound，通知直接忽略；
+ * - 处理函数抛错时返回 InternalError，不中断连接。
+ */
+export function createConnection(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream
+): LspConnection {
+  const requestHandlers = new Map<string, RequestHandler>()
+  const notificationHandlers = new Map<string, NotificationHandler>()
+  let buffer = Buffer.alloc(0)
+  let nextRequestId = 1
+
+  const write = (message: JsonRpcMessage): void => {
+    const body = Buffer.from(JSON.stringify(message), 'utf8')
+    output.write(`Content-Length: ${body.length}${HEADER_DELIMITER}`)
+    output.write(body)
+  }
+
+  const respond = async (message: JsonRpcMessage): Promise<void> => {
+    const id = message.id ?? null
+    const handler = message.method ? requestHandlers.get(message.method) : undefined
+
+    if (!handler) {
+      write({ jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: `Unhandled method ${message.method}` } })
+      return
+    }
+
+    try {
+      const result = await handler(message.params)
+      write({ jsonrpc: '2.0', id, result: result ?? null })
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      write({ jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: detail } })
+    }
+  }
+
+  const dispatch = (message: JsonRpcMessage): void => {
+    // 没有 method 的是客户端对服务端请求的响应。
+    if (!message.method) {
+      return
+    }
+
+    if (message.id !== undefined) {
+      void respond(message)
+      return
+    }
+
+    const handler = notificationHandlers.get(message.method)
+    if (handler) {
+      Promise.resolve()
+        .then(() => handler(message.params))
+        .catch(() => undefined)
+    }
+  }
+
+  // 从缓冲区中取出所有完整消息，剩余部分等待后续数据。
+  const drain = (): void => {
+    while (true) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER)
+      if (headerEnd === -1) {
+        return
+      }
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii')
+      const match = /Content-Length:\s*(\d+)/i.exec(header)
+      const bodyStart = headerEnd + HEADER_DELIMITER.length
+
+      if (!match) {
+        // 头部不合法时丢弃这一段，避免卡死在同一位置。
+        buffer = buffer.subarray(bodyStart)
+        continue
+      }
+
+      const bodyEnd = bodyStart + Number(match[1])
+      if (buffer.length < bodyEnd) {
+        return
+      }
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString('utf8')
+      buffer = buffer.subarray(bodyEnd)
+
+      try {
+        dispatch(JSON.parse(body) as JsonRpcMessage)
+      } catch {
+        // 无法解析的消息直接忽略。
+      }
+    }
+  }
+
+  return {
+    onRequest: (method, handler) => {
+      requestHandlers.set(method, handler)
+    },
+    onNotification: (method, handler) => {
+      notificationHandlers.set(method, handler)
+    },
+    sendNotification: (method, params) => {
+      write({ jsonrpc: '2.0', method, params })
+    },
+    sendRequest: (method, params) => {
+      write({ jsonrpc: '2.0', id: nextRequestId++, method, params })
+    },
+    listen: () => {
+      input.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk])
+        drain()
+      })
+    },
+  }
+}
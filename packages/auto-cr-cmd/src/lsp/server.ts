@@ -0,0 +1,457 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { RuleSeverity } from 'auto-cr-rules'
+import { createAutoCr, type AutoCr, type AutoCrOptions } from '../api'
+import { clearConfigModuleCache, listConfigModules } from '../config/autocrrc'
+import { getTranslator } from '../i18n'
+import type { ViolationRecord } from '../report'
+import type { Notification } from '../scan/types'
+import { readToolVersion } from '../utils/version'
+import type { LspConnection } from './connection'
+import type {
+  CodeAction,
+  CodeActionParams,
+  Diagnostic,
+  DiagnosticSeverity,
+  DidChangeTextDocumentParams,
+  DidChangeWatchedFilesParams,
+  DidOpenTextDocumentParams,
+  Hover,
+  HoverParams,
+  InitializeParams,
+  Position,
+  Range,
+  TextDocumentIdentifierParams,
+} from './types'
+
+const DIAGNOSTIC_SOURCE = 'auto-cr'
+// 连续输入时合并扫描，避免每次按键都触发解析。
+const SCAN_DELAY_MS = 200
+// 与 .autocrrc / .autocrignore 的查找候选保持一致。
+const CONFIG_FILE_PATTERN = /(^|[\\/])\.autocr(rc|ignore)\.(json|js)$/
+const CONFIG_WATCH_GLOBS = ['**/.autocrrc.json', '**/.autocrrc.js', '**/.autocrignore.json', '**/.autocrignore.js']
+
+// LSP 常量：全量文本同步、quickfix 代码操作、window/logMessage 级别。
+const TEXT_DOCUMENT_SYNC_FULL = 1
+const CODE_ACTION_QUICKFIX = 'quickfix'
+const LOG_MESSAGE_TYPES: Record<Notification['level'], number> = { error: 1, warn: 2, info: 3 }
+
+interface OpenDocument {
+  filePath: string
+  version: number
+  text: string
+}
+
+// 最近一次扫描结果；偏移量换算依赖扫描时的文本，版本不一致时不再提供代码操作。
+interface DocumentResult {
+  version: number
+  lineStarts: number[]
+  violations: ReadonlyArray<ViolationRecord>
+  diagnostics: Diagnostic[]
+}
+
+/**
+ * 语言服务：
+ * - 打开/编辑/保存时用 scanSource 扫描编辑器中的内容，发布诊断；
+ * - 悬停展示规则、描述与修复建议，带 fix 的违规提供 quickfix 代码操作；
+ * - .autocrrc / .autocrignore 变化时重新加载并刷新全部已打开文档。
+ */
+export function startLanguageServer(connection: LspConnection): void {
+  const documents = new Map<string, OpenDocument>()
+  const results = new Map<string, DocumentResult>()
+  const timers = new Map<string, NodeJS.Timeout>()
+  let autoCr: AutoCr = createAutoCr()
+  let canWatchFiles = false
+  let shutdownRequested = false
+  // scanSource 依赖进程级状态（语言、内存源码），扫描需串行执行。
+  let queue: Promise<void> = Promise.resolve()
+
+  const logMessage = (level: Notification['level'], message: string): void => {
+    connection.sendNotification('window/logMessage', { type: LOG_MESSAGE_TYPES[level], message })
+  }
+
+  const publishDiagnostics = (uri: string, diagnostics: Diagnostic[], version?: number): void => {
+    connection.sendNotification('textDocument/publishDiagnostics', { uri, version, diagnostics })
+  }
+
+  const scanDocument = async (uri: string): Promise<void> => {
+    const document = documents.get(uri)
+    if (!document) {
+      return
+    }
+
+    const { version, text } = document
+    const summary = await autoCr.scanSource(text, document.filePath)
+
+    // 扫描期间文档已更新或关闭时丢弃结果，等待下一次扫描。
+    if (documents.get(uri)?.version !== version) {
+      return
+    }
+
+    // info 级日志（如文件被忽略）对编辑器没有意义，只转发警告与错误。
+    summary.notifications
+      .filter((notification) => notification.level !== 'info')
+      .forEach((notification) =>
+        logMessage(
+          notification.level,
+          notification.detail ? `${notification.message} ${notification.detail}` : notification.message
+        )
+      )
+
+    const lineStarts = computeLineStarts(text)
+    const violations = summary.files[0]?.violations ?? []
+    const diagnostics = violations.map((violation) => toDiagnostic(violation, text, lineStarts))
+
+    results.set(uri, { version, lineStarts, violations, diagnostics })
+    publishDiagnostics(uri, diagnostics, version)
+  }
+
+  const enqueueScan = (uri: string): void => {
+    queue = queue
+      .then(() => scanDocument(uri))
+      .catch((error) => {
+        const detail = error instanceof Error ? error.message : String(error)
+        logMessage('error', `${getTranslator().scanError()} ${detail}`)
+      })
+  }
+
+  const scheduleScan = (uri: string): void => {
+    const pending = timers.get(uri)
+    if (pending) {
+      clearTimeout(pending)
+    }
+
+    timers.set(
+      uri,
+      setTimeout(() => {
+        timers.delete(uri)
+        enqueueScan(uri)
+      }, SCAN_DELAY_MS)
+    )
+  }
+
+  const rescanAll = (): void => {
+    documents.forEach((_, uri) => scheduleScan(uri))
+  }
+
+  // 配置按次读取，重新扫描即可生效；.js 配置需要先清掉 require 缓存。
+  // 被 extends 引入的 JS 配置与预设不一定是变化的文件，整条链一起清理。
+  const reloadConfig = (filePaths: ReadonlyArray<string>): void => {
+    filePaths.forEach((filePath) => {
+      delete require.cache[path.resolve(filePath)]
+    })
+    clearConfigModuleCache()
+    rescanAll()
+  }
+
+  // 变化的文件是 .autocrrc / .autocrignore，或已加载配置 extends 链上的 JS 模块。
+  const isConfigFile = (filePath: string): boolean =>
+    CONFIG_FILE_PATTERN.test(filePath) || listConfigModules().includes(path.resolve(filePath))
+
+  connection.onRequest('initialize', (params) => {
+    const { rootUri, rootPath, workspaceFolders, capabilities, initializationOptions } =
+      (params ?? {}) as InitializeParams
+    const root = toFilePath(workspaceFolders?.[0]?.uri ?? rootUri ?? undefined) ?? rootPath ?? undefined
+
+    // 配置、ignore 与 tsconfig 都相对工作目录查找，与在项目根目录执行 CLI 保持一致。
+    if (root) {
+      process.chdir(root)
+    }
+
+    const init = initializationOptions ?? {}
+    const options: AutoCrOptions = {
+      rules: init.ruleDir,
+      config: init.config,
+      ignore: init.ignorePath,
+      tsconfig: init.tsconfig,
+      language: init.language,
+      reportUnusedDisableDirectives: init.reportUnusedDisableDirectives,
+    }
+
+    autoCr = createAutoCr(options)
+    canWatchFiles = Boolean(capabilities?.workspace?.didChangeWatchedFiles?.dynamicRegistration)
+
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: TEXT_DOCUMENT_SYNC_FULL,
+          save: { includeText: false },
+        },
+        hoverProvider: true,
+        codeActionProvider: { codeActionKinds: [CODE_ACTION_QUICKFIX] },
+      },
+      serverInfo: { name: DIAGNOSTIC_SOURCE, version: readToolVersion() },
+    }
+  })
+
+  connection.onNotification('initialized', () => {
+    if (!canWatchFiles) {
+      return
+    }
+
+    connection.sendRequest('client/registerCapability', {
+      registrations: [
+        {
+          id: 'auto-cr-config-watcher',
+          method: 'workspace/didChangeWatchedFiles',
+          registerOptions: { watchers: CONFIG_WATCH_GLOBS.map((globPattern) => ({ globPattern })) },
+        },
+      ],
+    })
+  })
+
+  connection.onNotification('textDocument/didOpen', (params) => {
+    const { textDocument } = params as DidOpenTextDocumentParams
+    const filePath = toFilePath(textDocument.uri)
+
+    // 只处理本地文件，未保存的 untitled 文档没有可用于匹配配置的路径。
+    if (!filePath) {
+      return
+    }
+
+    documents.set(textDocument.uri, { filePath, version: textDocument.version, text: textDocument.text })
+    scheduleScan(textDocument.uri)
+  })
+
+  connection.onNotification('textDocument/didChange', (params) => {
+    const { textDocument, contentChanges } = params as DidChangeTextDocumentParams
+    const document = documents.get(textDocument.uri)
+    const latest = contentChanges[contentChanges.length - 1]
+
+    if (!document || !latest) {
+      return
+    }
+
+    document.version = textDocument.version
+    document.text = latest.text
+    scheduleScan(textDocument.uri)
+  })
+
+  // 保存后磁盘内容变化，其他文档的跨文件结果（如循环依赖）也可能随之变化。
+  connection.onNotification('textDocument/didSave', (params) => {
+    const { textDocument } = params as TextDocumentIdentifierParams
+    const filePath = toFilePath(textDocument.uri)
+
+    if (filePath && isConfigFile(filePath)) {
+      reloadConfig([filePath])
+      return
+    }
+
+    rescanAll()
+  })
+
+  connection.onNotification('textDocument/didClose', (params) => {
+    const { textDocument } = params as TextDocumentIdentifierParams
+    const pending = timers.get(textDocument.uri)
+
+    if (pending) {
+      clearTimeout(pending)
+      timers.delete(textDocument.uri)
+    }
+
+    documents.delete(textDocument.uri)
+    results.delete(textDocument.uri)
+    publishDiagnostics(textDocument.uri, [])
+  })
+
+  connection.onNotification('workspace/didChangeWatchedFiles', (params) => {
+    const { changes } = params as DidChangeWatchedFilesParams
+    const configFiles = changes
+      .map((change) => toFilePath(change.uri))
+      .filter((filePath): filePath is string => Boolean(filePath && isConfigFile(filePath)))
+
+    if (configFiles.length > 0) {
+      reloadConfig(configFiles)
+    }
+  })
+
+  connection.onRequest('textDocument/hover', (params): Hover | null => {
+    const { textDocument, position } = params as HoverParams
+    const result = results.get(textDocument.uri)
+
+    if (!result) {
+      return null
+    }
+
+    const matched = result.diagnostics
+      .map((diagnostic, index) => ({ diagnostic, violation: result.violations[index] }))
+      .filter(
+        ({ diagnostic }) =>
+          diagnostic.range.start.line <= position.line && position.line <= diagnostic.range.end.line
+      )
+
+    if (matched.length === 0) {
+      return null
+    }
+
+    return {
+      contents: {
+        kind: 'markdown',
+        value: matched.map(({ violation }) => formatHover(violation)).join('\n\n---\n\n'),
+      },
+      range: matched[0].diagnostic.range,
+    }
+  })
+
+  connection.onRequest('textDocument/codeAction', (params): CodeAction[] => {
+    const { textDocument, range } = params as CodeActionParams
+    const result = results.get(textDocument.uri)
+    const document = documents.get(textDocument.uri)
+
+    if (!result || !document || document.version !== result.version) {
+      return []
+    }
+
+    const t = getTranslator()
+    const actions: CodeAction[] = []
+
+    result.violations.forEach((violation, index) => {
+      const diagnostic = result.diagnostics[index]
+      const line = diagnostic.range.start.line
+
+      if (!violation.fix || violation.fix.length === 0 || line < range.start.line || line > range.end.line) {
+        return
+      }
+
+      actions.push({
+        title: t.lspFixTitle({ rule: violation.ruleName }),
+        kind: CODE_ACTION_QUICKFIX,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [textDocument.uri]: violation.fix.map((edit) => ({
+              range: {
+                start: offsetToPosition(edit.start, result.lineStarts),
+                end: offsetToPosition(edit.end, result.lineStarts),
+              },
+              newText: edit.text,
+            })),
+          },
+        },
+      })
+    })
+
+    return actions
+  })
+
+  connection.onRequest('shutdown', () => {
+    shutdownRequested = true
+    timers.forEach((timer) => clearTimeout(timer))
+    timers.clear()
+    return null
+  })
+
+  connection.onNotification('exit', () => {
+    process.exit(shutdownRequested ? 0 : 1)
+  })
+}
+
+function toFilePath(uri: string | undefined): string | undefined {
+  if (!uri || !uri.startsWith('file:')) {
+    return undefined
+  }
+
+  try {
+    return fileURLToPath(uri)
+  } catch {
+    return undefined
+  }
+}
+
+function toDiagnosticSeverity(severity: RuleSeverity): DiagnosticSeverity {
+  switch (severity) {
+    case RuleSeverity.Warning:
+      return 2
+    case RuleSeverity.Optimizing:
+      return 3
+    case RuleSeverity.Error:
+    default:
+      return 1
+  }
+}
+
+function toDiagnostic(violation: ViolationRecord, text: string, lineStarts: number[]): Diagnostic {
+  return {
+    range: resolveRange(violation, text, lineStarts),
+    severity: toDiagnosticSeverity(violation.severity),
+    code: violation.ruleName,
+    source: DIAGNOSTIC_SOURCE,
+    message: violation.message,
+  }
+}
+
+// 有列信息时使用精确范围（LSP 行列从 0 开始）；只有行号时覆盖整行（跳过缩进）；没有行号时落在文件开头。
+function resolveRange(violation: ViolationRecord, text: string, lineStarts: number[]): Range {
+  const { line, column, endLine, endColumn } = violation
+
+  if (typeof line === 'number' && typeof column === 'number') {
+    return {
+      start: { line: line - 1, character: column - 1 },
+      end: { line: (endLine ?? line) - 1, character: (endColumn ?? column) - 1 },
+    }
+  }
+
+  if (typeof line !== 'number') {
+    return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+  }
+
+  const index = Math.min(Math.max(line - 1, 0), lineStarts.length - 1)
+  const lineEnd = index + 1 < lineStarts.length ? lineStarts[index + 1] : text.length
+  const lineText = text.slice(lineStarts[index], lineEnd).replace(/\r?\n$/, '')
+  const indent = lineText.length - lineText.trimStart().length
+
+  return {
+    start: { line: index, character: indent },
+    end: { line: index, character: lineText.length },
+  }
+}
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0]
+
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === '\n') {
+      starts.push(index + 1)
+    }
+  }
+
+  return starts
+}
+
+// FixEdit 的偏移量是字符串下标，与 LSP 的 UTF-16 列一致，只需按行拆分。
+function offsetToPosition(offset: number, lineStarts: number[]): Position {
+  let low = 0
+  let high = lineStarts.length - 1
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (lineStarts[middle] <= offset) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return { line: low, character: offset - lineStarts[low] }
+}
+
+function formatHover(violation: ViolationRecord): string {
+  const t = getTranslator()
+  const severityLabel = t.reporterSeverityLabel({ severity: violation.severity })
+  const lines = [`**${violation.ruleName}** · ${severityLabel}`, '', violation.message]
+
+  if (violation.code) {
+    lines.push('', `${t.reporterCodeLabel()}: \`${violation.code}\``)
+  }
+
+  if (violation.suggestions && violation.suggestions.length > 0) {
+    lines.push('', `${t.reporterSuggestionLabel()}:`)
+    violation.suggestions.forEach(({ text, link }) => {
+      lines.push(link ? `- ${text} ([${link}](${link}))` : `- ${text}`)
+    })
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,100 @@
+// 语言服务用到的 LSP 协议子集，字段与规范保持一致（行列均从 0 开始，列按 UTF-16 计）。
+export interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string | null
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+export interface Position {
+  line: number
+  character: number
+}
+
+export interface Range {
+  start: Position
+  end: Position
+}
+
+export interface TextEdit {
+  range: Range
+  newText: string
+}
+
+// 1: Error, 2: Warning, 3: Information, 4: Hint
+export type DiagnosticSeverity = 1 | 2 | 3 | 4
+
+export interface Diagnostic {
+  range: Range
+  severity: DiagnosticSeverity
+  code?: string
+  source: string
+  message: string
+}
+
+export interface CodeAction {
+  title: string
+  kind: string
+  diagnostics?: Diagnostic[]
+  isPreferred?: boolean
+  edit: { changes: Record<string, TextEdit[]> }
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string }
+  range?: Range
+}
+
+export interface TextDocumentItem {
+  uri: string
+  version: number
+  text: string
+}
+
+export interface InitializeParams {
+  rootUri?: string | null
+  rootPath?: string | null
+  workspaceFolders?: Array<{ uri: string; name: string }> | null
+  capabilities?: {
+    workspace?: { didChangeWatchedFiles?: { dynamicRegistration?: boolean } }
+  }
+  // 编辑器插件可透传与 CLI 对应的选项。
+  initializationOptions?: {
+    ruleDir?: string
+    config?: string
+    ignorePath?: string
+    tsconfig?: string
+    language?: string
+    reportUnusedDisableDirectives?: boolean
+  }
+}
+
+export interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentItem
+}
+
+export interface DidChangeTextDocumentParams {
+  textDocument: { uri: string; version: number }
+  // 服务端声明全量同步，最后一项即为完整文本。
+  contentChanges: Array<{ text: string }>
+}
+
+export interface TextDocumentIdentifierParams {
+  textDocument: { uri: string }
+}
+
+export interface DidChangeWatchedFilesParams {
+  changes: Array<{ uri: string; type: number }>
+}
+
+export interface HoverParams {
+  textDocument: { uri: string }
+  position: Position
+}
+
+export interface CodeActionParams {
+  textDocument: { uri: string }
+  range: Range
+}
@@ -0,0 +1,46 @@
+import type { ScanSummary } from '../scan/types'
+import { formatJsonOutput, type JsonOutputPayload } from './json'
+import { XML_DECLARATION, formatXmlAttributes } from './xml'
+
+// Checkstyle XML 输出：供 Jenkins Warnings NG 等支持 checkstyle 格式的工具解析。
+// 每个文件对应一个 <file>，每条违规对应一个 <error>，source 为 auto-cr.<规则名>。
+const CHECKSTYLE_VERSION = '4.3'
+const SOURCE_PREFIX = 'auto-cr.'
+
+type JsonViolation = JsonOutputPayload['files'][number]['violations'][number]
+
+// checkstyle 只有 error/warning/info 三个级别，optimizing 对应 info。
+const SEVERITY_TO_CHECKSTYLE: Record<JsonViolation['severity'], string> = {
+  error: 'error',
+  warning: 'warning',
+  optimizing: 'info',
+}
+
+export function formatCheckstyleOutput(result: ScanSummary): string {
+  const payload = formatJsonOutput(result)
+  const files = payload.files.map((file) =>
+    [
+      `  <file${formatXmlAttributes({ name: file.filePath })}>`,
+      ...file.violations.map(formatError),
+      '  </file>',
+    ].join('\n')
+  )
+
+  return [
+    XML_DECLARATION,
+    `<checkstyle${formatXmlAttributes({ version: CHECKSTYLE_VERSION })}>`,
+    ...files,
+    '</checkstyle>',
+    '',
+  ].join('\n')
+}
+
+function formatError(violation: JsonViolation): string {
+  return `    <error${formatXmlAttributes({
+    line: violation.line,
+    column: violation.column,
+    severity: SEVERITY_TO_CHECKSTYLE[violation.severity],
+    message: violation.message,
+    source: `${SOURCE_PREFIX}${violation.ruleName}`,
+  })} />`
+}
@@ -0,0 +1,73 @@
+// 代码帧：在文本输出中展示违规位置前后几行源码，并在违规范围下方用 ^ 标出。
+const DEFAULT_CONTEXT_LINES = 2
+// 终端中占两列的全角字符（CJK、全角标点等）；代理对本身占两个 UTF-16 单元，无需额外处理。
+const WIDE_CHARACTER_PATTERN = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/g
+
+export interface CodeFrameLocation {
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+}
+
+export interface CodeFrameOptions {
+  // 违规行前后各展示的行数。
+  contextLines?: number
+  // 标记与下划线使用的颜色（ANSI 序列），不传则不着色。
+  color?: string
+  reset?: string
+}
+
+/**
+ * 生成代码帧的各行文本（不含换行）：
+ * - 违规行以 > 标记；有列信息时在下一行用 ^ 标出范围，跨行范围只标到首行行尾；
+ * - 下划线前缀保留原行中的 tab 并按全角字符宽度补齐，保证与源码对齐；
+ * - 没有行号或行号超出源码范围时返回空数组。
+ */
+export function renderCodeFrame(
+  source: string,
+  location: CodeFrameLocation,
+  options: CodeFrameOptions = {}
+): string[] {
+  const lines = source.split(/\r?\n/)
+  const { line, column, endLine, endColumn } = location
+
+  if (typeof line !== 'number' || line < 1 || line > lines.length) {
+    return []
+  }
+
+  const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES
+  const color = options.color ?? ''
+  const reset = color ? options.reset ?? '' : ''
+  const first = Math.max(1, line - contextLines)
+  const last = Math.min(lines.length, line + contextLines)
+  const gutterWidth = String(last).length
+  const output: string[] = []
+
+  for (let current = first; current <= last; current += 1) {
+    const text = lines[current - 1]
+    const gutter = String(current).padStart(gutterWidth)
+
+    if (current !== line) {
+      output.push(`  ${gutter} | ${text}`)
+      continue
+    }
+
+    output.push(`${color}>${reset} ${gutter} | ${text}`)
+
+    if (typeof column === 'number') {
+      const start = Math.min(Math.max(column - 1, 0), text.length)
+      const end = endLine === line && typeof endColumn === 'number' ? endColumn - 1 : text.length
+      const width = Math.max(end - start, 1)
+      const prefix = toPadding(text.slice(0, start))
+      output.push(`  ${' '.repeat(gutterWidth)} | ${prefix}${color}${'^'.repeat(width)}${reset}`)
+    }
+  }
+
+  return output
+}
+
+// 下划线前缀：保留 tab，全角字符占两列，其余字符替换为空格。
+function toPadding(text: string): string {
+  return text.replace(WIDE_CHARACTER_PATTERN, '  ').replace(/[^\t]/g, ' ')
+}
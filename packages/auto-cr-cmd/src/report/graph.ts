@@ -0,0 +1,139 @@
+import type { ImportGraph } from '../scan/types'
+import { toDisplayPath } from '../utils/path'
+
+// 导入图输出（--graph-out）：Graphviz DOT、Mermaid 与 JSON。
+// 路径统一转为相对 cwd 的 POSIX 路径；环路所在的强连通分量单独分组并高亮，便于定位纠缠的模块。
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json'
+
+export const GRAPH_FORMATS: ReadonlyArray<GraphFormat> = ['dot', 'mermaid', 'json']
+
+const CYCLE_COLOR = '#d9534f'
+
+export interface GraphJsonOutput {
+  summary: {
+    files: number
+    imports: number
+    components: number
+    largestComponent: number
+    filesInComponents: number
+  }
+  nodes: Array<{ id: string; scanned: boolean; component?: number }>
+  edges: Array<{ from: string; to: string; inComponent: boolean }>
+  components: Array<{ size: number; files: string[] }>
+}
+
+export function formatGraphOutput(graph: ImportGraph, format: GraphFormat, cwd: string = process.cwd()): string {
+  switch (format) {
+    case 'dot':
+      return formatGraphDot(graph, cwd)
+    case 'mermaid':
+      return formatGraphMermaid(graph, cwd)
+    default:
+      return `${JSON.stringify(formatGraphJson(graph, cwd), null, 2)}\n`
+  }
+}
+
+// JSON 输出包含汇总数字，便于在 CI 中记录环路规模随时间的变化。
+export function formatGraphJson(graph: ImportGraph, cwd: string = process.cwd()): GraphJsonOutput {
+  const componentOf = createComponentIndex(graph)
+
+  return {
+    summary: {
+      files: graph.nodes.length,
+      imports: graph.edges.length,
+      components: graph.components.length,
+      largestComponent: graph.components.reduce((largest, component) => Math.max(largest, component.length), 0),
+      filesInComponents: componentOf.size,
+    },
+    nodes: graph.nodes.map((node) => ({
+      id: toDisplayPath(node.filePath, cwd),
+      scanned: node.scanned,
+      component: componentOf.get(node.filePath),
+    })),
+    edges: graph.edges.map((edge) => ({
+      from: toDisplayPath(edge.from, cwd),
+      to: toDisplayPath(edge.to, cwd),
+      inComponent: isComponentEdge(componentOf, edge),
+    })),
+    components: graph.components.map((files) => ({
+      size: files.length,
+      files: files.map((filePath) => toDisplayPath(filePath, cwd)),
+    })),
+  }
+}
+
+function formatGraphDot(graph: ImportGraph, cwd: string): string {
+  const componentOf = createComponentIndex(graph)
+  const quote = (filePath: string): string => `"${toDisplayPath(filePath, cwd).replace(/["\\]/g, '\\$&')}"`
+  const lines = ['digraph imports {', '  rankdir=LR;', '  node [shape=box, fontname="monospace"];']
+
+  graph.components.forEach((files, index) => {
+    lines.push(`  subgraph cluster_${index} {`)
+    lines.push(`    label="${formatComponentLabel(index, files)}";`)
+    lines.push(`    color="${CYCLE_COLOR}";`)
+    files.forEach((filePath) => lines.push(`    ${quote(filePath)};`))
+    lines.push('  }')
+  })
+
+  graph.nodes
+    .filter((node) => !node.scanned)
+    .forEach((node) => lines.push(`  ${quote(node.filePath)} [style=dashed];`))
+
+  graph.edges.forEach((edge) => {
+    const style = isComponentEdge(componentOf, edge) ? ` [color="${CYCLE_COLOR}"]` : ''
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${style};`)
+  })
+
+  lines.push('}')
+  return `${lines.join('\n')}\n`
+}
+
+function formatGraphMermaid(graph: ImportGraph, cwd: string): string {
+  const componentOf = createComponentIndex(graph)
+  // Mermaid 节点 ID 不能包含路径字符，按节点顺序编号，路径放在标签中。
+  const ids = new Map(graph.nodes.map((node, index): [string, string] => [node.filePath, `n${index}`]))
+  const declare = (filePath: string): string =>
+    `${ids.get(filePath)}["${toDisplayPath(filePath, cwd).replace(/"/g, '#quot;')}"]`
+  const lines = ['flowchart LR']
+
+  graph.components.forEach((files, index) => {
+    lines.push(`  subgraph cycle${index}["${formatComponentLabel(index, files)}"]`)
+    files.forEach((filePath) => lines.push(`    ${declare(filePath)}`))
+    lines.push('  end')
+  })
+
+  graph.nodes
+    .filter((node) => !componentOf.has(node.filePath))
+    .forEach((node) => lines.push(`  ${declare(node.filePath)}`))
+
+  graph.edges.forEach((edge) => lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`))
+
+  const cycleEdges = graph.edges
+    .map((edge, index) => (isComponentEdge(componentOf, edge) ? index : -1))
+    .filter((index) => index >= 0)
+  if (cycleEdges.length > 0) {
+    lines.push(`  linkStyle ${cycleEdges.join(',')} stroke:${CYCLE_COLOR},stroke-width:2px`)
+  }
+
+  const external = graph.nodes.filter((node) => !node.scanned).map((node) => ids.get(node.filePath))
+  if (external.length > 0) {
+    lines.push('  classDef external stroke-dasharray:4 4')
+    lines.push(`  class ${external.join(',')} external`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+const formatComponentLabel = (index: number, files: ReadonlyArray<string>): string =>
+  `cycle ${index + 1} (${files.length} ${files.length === 1 ? 'file' : 'files'})`
+
+// 文件 -> 所在强连通分量的序号（从 1 开始，与输出中的 cycle 编号一致）。
+const createComponentIndex = (graph: ImportGraph): Map<string, number> => {
+  const componentOf = new Map<string, number>()
+  graph.components.forEach((files, index) => files.forEach((filePath) => componentOf.set(filePath, index + 1)))
+  return componentOf
+}
+
+const isComponentEdge = (componentOf: ReadonlyMap<string, number>, edge: { from: string; to: string }): boolean =>
+  componentOf.has(edge.from) && componentOf.get(edge.from) === componentOf.get(edge.to)
@@ -0,0 +1,368 @@
+import { RuleSeverity } from 'auto-cr-rules'
+import { getLanguage, getTranslator } from '../i18n'
+import type { FileScanResult, FileSeveritySummary, ScanSummary } from '../scan/types'
+import { readFile } from '../utils/file'
+import { toDisplayPath } from '../utils/path'
+import { readToolVersion } from '../utils/version'
+import { renderCodeFrame } from './codeFrame'
+import type { ViolationRecord } from './index'
+import { escapeXml as escapeHtml } from './xml'
+
+// HTML 报告：单个自包含的静态页面（样式与脚本内联，不引用外部资源），可作为 CI 产物离线打开。
+// 包含汇总、按规则统计（可排序、可点击过滤）、按目录统计与带源码片段的问题详情。
+
+export interface HtmlOutputOptions {
+  cwd?: string
+  // 读取源码用于代码片段；返回 undefined 时不展示片段。默认从磁盘读取。
+  readSource?: (filePath: string) => string | undefined
+}
+
+const SEVERITIES: RuleSeverity[] = [RuleSeverity.Error, RuleSeverity.Warning, RuleSeverity.Optimizing]
+// 排序时严重程度高的排在前面。
+const SEVERITY_ORDER: Record<RuleSeverity, number> = {
+  [RuleSeverity.Error]: 0,
+  [RuleSeverity.Warning]: 1,
+  [RuleSeverity.Optimizing]: 2,
+}
+
+interface RuleStat {
+  name: string
+  tag: string
+  severity: RuleSeverity
+  count: number
+  files: Set<string>
+}
+
+interface DirectoryNode {
+  name: string
+  counts: FileSeveritySummary
+  directories: Map<string, DirectoryNode>
+  files: Array<{ name: string; anchor: string; counts: FileSeveritySummary }>
+}
+
+const REPORT_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; padding: 24px 32px; color: #1f2328; background: #f6f8fa; }
+h1 { margin: 0 0 4px; font-size: 24px; }
+h2 { margin: 32px 0 12px; font-size: 18px; }
+.meta, .hint { color: #656d76; font-size: 13px; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; }
+.card { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px 16px; min-width: 140px; }
+.card .value { font-size: 24px; font-weight: 600; }
+.card .label { color: #656d76; font-size: 12px; }
+table { border-collapse: collapse; background: #fff; width: 100%; }
+th, td { border: 1px solid #d0d7de; padding: 6px 10px; text-align: left; font-size: 13px; }
+th { cursor: pointer; background: #f6f8fa; user-select: none; }
+th[data-order="asc"]::after { content: " ▲"; }
+th[data-order="desc"]::after { content: " ▼"; }
+tbody tr { cursor: pointer; }
+tbody tr:hover, tbody tr.active { background: #ddf4ff; }
+.badge { display: inline-block; border-radius: 10px; padding: 0 8px; margin-left: 4px; font-size: 12px; color: #fff; }
+.badge.error { background: #cf222e; }
+.badge.warning { background: #bf8700; }
+.badge.optimizing { background: #6e7781; }
+ul.tree, ul.tree ul { list-style: none; padding-left: 18px; margin: 0; }
+ul.tree { padding-left: 0; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 12px; }
+ul.tree li { margin: 2px 0; font-size: 13px; }
+ul.tree summary { cursor: pointer; }
+section.file { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin-bottom: 16px; }
+section.file h3 { margin: 0; padding: 8px 12px; font-size: 14px; background: #f6f8fa; border-bottom: 1px solid #d0d7de; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+.violation { padding: 8px 12px; border-top: 1px solid #eaeef2; }
+.violation:first-of-type { border-top: none; }
+.violation .location { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; color: #656d76; margin: 0 6px; }
+.violation .rule { color: #656d76; font-size: 12px; margin-left: 6px; }
+.violation .badge { margin-left: 0; }
+pre.frame { background: #f6f8fa; border-radius: 6px; padding: 8px; overflow-x: auto; font-size: 12px; margin: 8px 0 0; }
+ul.suggestions { margin: 6px 0 0; padding-left: 20px; font-size: 13px; color: #57606a; }
+button { margin-left: 8px; font-size: 12px; cursor: pointer; }
+`
+
+// 表头排序（数值列按 data-value 比较）与按规则过滤问题详情。
+const REPORT_SCRIPT = `
+document.querySelectorAll('table.sortable th').forEach(function (header, column) {
+  header.addEventListener('click', function () {
+    var table = header.closest('table');
+    var body = table.tBodies[0];
+    var ascending = header.dataset.order !== 'asc';
+    table.querySelectorAll('th').forEach(function (cell) { delete cell.dataset.order; });
+    header.dataset.order = ascending ? 'asc' : 'desc';
+    var valueOf = function (row) {
+      var cell = row.cells[column];
+      return cell.dataset.value !== undefined ? Number(cell.dataset.value) : cell.textContent.toLowerCase();
+    };
+    Array.from(body.rows)
+      .sort(function (left, right) {
+        var a = valueOf(left);
+        var b = valueOf(right);
+        var result = a < b ? -1 : a > b ? 1 : 0;
+        return ascending ? result : -result;
+      })
+      .forEach(function (row) { body.appendChild(row); });
+  });
+});
+var applyFilter = function (rule) {
+  document.querySelectorAll('tr[data-rule]').forEach(function (row) {
+    row.classList.toggle('active', row.dataset.rule === rule);
+  });
+  document.querySelectorAll('.violation').forEach(function (item) {
+    item.hidden = rule !== null && item.dataset.rule !== rule;
+  });
+  document.querySelectorAll('section.file').forEach(function (section) {
+    section.hidden = !section.querySelector('.violation:not([hidden])');
+  });
+  document.getElementById('show-all').hidden = rule === null;
+};
+document.querySelectorAll('tr[data-rule]').forEach(function (row) {
+  row.addEventListener('click', function () { applyFilter(row.dataset.rule); });
+});
+document.getElementById('show-all').addEventListener('click', function () { applyFilter(null); });
+`
+
+export function formatHtmlOutput(result: ScanSummary, options: HtmlOutputOptions = {}): string {
+  const t = getTranslator()
+  const cwd = options.cwd ?? process.cwd()
+  const readSource = options.readSource ?? readSourceSafe
+  const filesWithViolations = result.files.filter((file) => file.violations.length > 0)
+  const anchors = new Map(filesWithViolations.map((file, index) => [file.filePath, `file-${index}`]))
+  const version = readToolVersion()
+
+  const sections = [
+    `<h1>${escapeHtml(t.reportTitle())}</h1>`,
+    `<div class="meta">${escapeHtml(t.htmlGeneratedAt({ time: new Date().toISOString(), version }))}</div>`,
+    `<h2>${escapeHtml(t.reportSummaryHeading())}</h2>`,
+    renderSummary(result),
+    `<h2>${escapeHtml(t.htmlRulesHeading())}</h2>`,
+    `<p class="hint">${escapeHtml(t.htmlFilterHint())}` +
+      `<button id="show-all" hidden>${escapeHtml(t.htmlShowAll())}</button></p>`,
+    renderRuleTable(result),
+  ]
+
+  if (filesWithViolations.length === 0) {
+    sections.push(`<p>${escapeHtml(t.reportNoViolations())}</p>`)
+  } else {
+    sections.push(
+      `<h2>${escapeHtml(t.htmlDirectoriesHeading())}</h2>`,
+      renderDirectoryTree(filesWithViolations, anchors, cwd),
+      `<h2>${escapeHtml(t.reportFilesHeading())}</h2>`,
+      ...filesWithViolations.map((file) =>
+        renderFileSection(file, anchors.get(file.filePath) as string, cwd, readSource(file.filePath))
+      )
+    )
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${getLanguage()}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(t.reportTitle())}</title>`,
+    `<style>${REPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...sections,
+    `<script>${REPORT_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+function renderSummary(result: ScanSummary): string {
+  const t = getTranslator()
+  const cards: Array<[string, number]> = [
+    [t.reportScannedFiles(), result.scannedFiles],
+    [t.reportFilesWithErrors(), result.filesWithErrors],
+    [t.reportFilesWithWarnings(), result.filesWithWarnings],
+    [t.reportFilesWithOptimizing(), result.filesWithOptimizing],
+    [t.reportTotalViolations(), result.violationTotals.total],
+    ...SEVERITIES.map((severity): [string, number] => [
+      t.reporterSeverityLabel({ severity }),
+      result.violationTotals[severity],
+    ]),
+  ]
+
+  const content = cards
+    .map(
+      ([label, value]) =>
+        `<div class="card"><div class="value">${value}</div><div class="label">${escapeHtml(label)}</div></div>`
+    )
+    .join('')
+
+  return `<div class="cards">${content}</div>`
+}
+
+// 按规则统计：包含本次加载但未命中的规则（计数为 0），便于确认规则是否生效。
+function renderRuleTable(result: ScanSummary): string {
+  const t = getTranslator()
+  const stats = new Map<string, RuleStat>()
+
+  const ensureStat = (name: string, tag: string | undefined, severity: RuleSeverity | undefined): RuleStat => {
+    const existing = stats.get(name)
+    if (existing) {
+      return existing
+    }
+
+    const stat: RuleStat = {
+      name,
+      tag: tag ?? 'untagged',
+      severity: severity ?? RuleSeverity.Error,
+      count: 0,
+      files: new Set(),
+    }
+    stats.set(name, stat)
+    return stat
+  }
+
+  result.rules.forEach((rule) => ensureStat(rule.name, rule.tag, rule.severity))
+  result.files.forEach((file) =>
+    file.violations.forEach((violation) => {
+      const stat = ensureStat(violation.ruleName, violation.tag, violation.severity)
+      stat.count += 1
+      stat.files.add(file.filePath)
+    })
+  )
+
+  const rows = Array.from(stats.values())
+    .sort((left, right) => right.count - left.count || left.name.localeCompare(right.name))
+    .map((stat) => {
+      const severityBadge = renderBadge(stat.severity, t.reporterSeverityLabel({ severity: stat.severity }))
+      return (
+        `<tr data-rule="${escapeHtml(stat.name)}">` +
+        `<td>${escapeHtml(stat.name)}</td>` +
+        `<td>${escapeHtml(t.ruleTagLabel({ tag: stat.tag }))}</td>` +
+        `<td data-value="${SEVERITY_ORDER[stat.severity] ?? 0}">${severityBadge}</td>` +
+        `<td data-value="${stat.count}">${stat.count}</td>` +
+        `<td data-value="${stat.files.size}">${stat.files.size}</td>` +
+        '</tr>'
+      )
+    })
+
+  const headers = [
+    t.htmlColumnRule(),
+    t.htmlColumnTag(),
+    t.htmlColumnSeverity(),
+    t.htmlColumnCount(),
+    t.htmlColumnFiles(),
+  ]
+    .map((label) => `<th>${escapeHtml(label)}</th>`)
+    .join('')
+
+  return `<table class="sortable"><thead><tr>${headers}</tr></thead><tbody>${rows.join('')}</tbody></table>`
+}
+
+// 目录树只包含有问题的文件，每一级目录展示其下各级别问题数。
+function renderDirectoryTree(
+  files: ReadonlyArray<FileScanResult>,
+  anchors: Map<string, string>,
+  cwd: string
+): string {
+  const root = createDirectoryNode('')
+
+  for (const file of files) {
+    const segments = toDisplayPath(file.filePath, cwd).split('/')
+    const fileName = segments.pop() as string
+    let node = root
+    addCounts(root.counts, file.severityCounts)
+
+    for (const segment of segments) {
+      const name = segment || '/'
+      let child = node.directories.get(name)
+      if (!child) {
+        child = createDirectoryNode(name)
+        node.directories.set(name, child)
+      }
+      addCounts(child.counts, file.severityCounts)
+      node = child
+    }
+
+    node.files.push({ name: fileName, anchor: anchors.get(file.filePath) as string, counts: file.severityCounts })
+  }
+
+  return `<ul class="tree">${renderDirectoryChildren(root)}</ul>`
+}
+
+function renderDirectoryChildren(node: DirectoryNode): string {
+  const directories = Array.from(node.directories.values())
+    .sort((left, right) => left.name.localeCompare(right.name))
+    .map(
+      (directory) =>
+        `<li><details open><summary>${escapeHtml(directory.name)}/${renderCounts(directory.counts)}</summary>` +
+        `<ul>${renderDirectoryChildren(directory)}</ul></details></li>`
+    )
+  const files = [...node.files]
+    .sort((left, right) => left.name.localeCompare(right.name))
+    .map((file) => `<li><a href="#${file.anchor}">${escapeHtml(file.name)}</a>${renderCounts(file.counts)}</li>`)
+
+  return [...directories, ...files].join('')
+}
+
+function renderFileSection(file: FileScanResult, anchor: string, cwd: string, source: string | undefined): string {
+  const violations = [...file.violations]
+    .sort((left, right) => (left.line ?? 0) - (right.line ?? 0) || (left.column ?? 0) - (right.column ?? 0))
+    .map((violation) => renderViolation(violation, source))
+    .join('')
+
+  return (
+    `<section class="file" id="${anchor}">` +
+    `<h3>${escapeHtml(toDisplayPath(file.filePath, cwd))}${renderCounts(file.severityCounts)}</h3>` +
+    `${violations}</section>`
+  )
+}
+
+function renderViolation(violation: ViolationRecord, source: string | undefined): string {
+  const t = getTranslator()
+  const location =
+    typeof violation.line === 'number'
+      ? typeof violation.column === 'number'
+        ? `${violation.line}:${violation.column}`
+        : String(violation.line)
+      : '-'
+  const frame = source !== undefined ? renderCodeFrame(source, violation) : []
+  const suggestions = violation.suggestions ?? []
+
+  return [
+    `<div class="violation" data-rule="${escapeHtml(violation.ruleName)}">`,
+    '<div>',
+    renderBadge(violation.severity, t.reporterSeverityLabel({ severity: violation.severity })),
+    `<span class="location">${location}</span>`,
+    escapeHtml(violation.message),
+    `<span class="rule">${escapeHtml(violation.ruleName)}</span>`,
+    '</div>',
+    frame.length > 0 ? `<pre class="frame">${escapeHtml(frame.join('\n'))}</pre>` : '',
+    suggestions.length > 0
+      ? `<ul class="suggestions">${suggestions
+          .map((suggestion) => `<li>${escapeHtml(t.reporterFormatSuggestion(suggestion))}</li>`)
+          .join('')}</ul>`
+      : '',
+    '</div>',
+  ].join('')
+}
+
+function renderBadge(severity: RuleSeverity, label: string): string {
+  return `<span class="badge ${severity}">${escapeHtml(label)}</span>`
+}
+
+function renderCounts(counts: FileSeveritySummary): string {
+  return SEVERITIES.filter((severity) => counts[severity] > 0)
+    .map((severity) => renderBadge(severity, String(counts[severity])))
+    .join('')
+}
+
+function createDirectoryNode(name: string): DirectoryNode {
+  return { name, counts: { error: 0, warning: 0, optimizing: 0 }, directories: new Map(), files: [] }
+}
+
+function addCounts(target: FileSeveritySummary, counts: FileSeveritySummary): void {
+  SEVERITIES.forEach((severity) => {
+    target[severity] += counts[severity]
+  })
+}
+
+
+function readSourceSafe(filePath: string): string | undefined {
+  try {
+    return readFile(filePath)
+  } catch {
+    return undefined
+  }
+}
@@ -1,7 +1,9 @@
 import type { Span } from '@swc/types'
 import { RuleSeverity } from 'auto-cr-rules'
-import type { Rule, RuleReporter } from 'auto-cr-rules'
+import type { Rule, RuleReporter, RuleTextEdit } from 'auto-cr-rules'
 import { getLanguage, getTranslator } from '../i18n'
+import { readFile } from '../utils/file'
+import { renderCodeFrame } from './codeFrame'
 
 // Reporter 负责收集规则输出，必要时直接输出到终端（text 模式），并生成结构化汇总。
 export type ReporterFormat = 'text' | 'json'
@@ -10,6 +12,8 @@ interface ReporterOptions {
   format?: ReporterFormat
   onBeforeReport?: () => void
   onAfterReport?: () => void
+  // 返回 false 的记录会在写入前被丢弃（用于行内抑制注释等场景）。
+  filter?: (record: ViolationRecord) => boolean
 }
 
 // Reporter 除了复用 RuleReporter 方法外，还提供按规则隔离的 reporter 与最终汇总能力。
@@ -24,6 +28,10 @@ export interface RenderViolationsOptions {
   // 渲染前后钩子，常用于进度条重绘。
   onBeforeReport?: () => void
   onAfterReport?: () => void
+  // 展示违规位置的源码上下文（--code-frame）。
+  codeFrame?: boolean
+  // 代码帧使用的源码；不传时从磁盘读取 filePath（未落盘的源码需显式传入）。
+  source?: string
 }
 
 export interface ReporterSummary {
@@ -50,12 +58,24 @@ type SuggestionEntry = {
   link?: string
 }
 
+// 自动修复的文本替换，start/end 为源码字符索引（已从 SWC byte offset 转换）。
+export interface FixEdit {
+  start: number
+  end: number
+  text: string
+}
+
 interface ReporterRecordPayload {
   description: string
   code?: string
   suggestions?: ReadonlyArray<SuggestionEntry>
   span?: Span
   line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  // 规则直接调用 reporter.record 时可能传入 byte span 形式的 edit，无法可靠换算，此时整个修复作废。
+  fix?: ReadonlyArray<FixEdit | RuleTextEdit>
 }
 
 export interface ViolationRecord {
@@ -65,8 +85,13 @@ export interface ViolationRecord {
   filePath?: string
   message: string
   line?: number
+  // 行列均从 1 开始，列按 UTF-16 计；endLine/endColumn 指向违规范围结束处（不含）。仅在规则提供 span 时存在。
+  column?: number
+  endLine?: number
+  endColumn?: number
   code?: string
   suggestions?: ReadonlyArray<SuggestionEntry>
+  fix?: ReadonlyArray<FixEdit>
 }
 
 type CompatibleRuleReporter = RuleReporter & {
@@ -98,6 +123,7 @@ export function createReporter(
   const format = options.format ?? DEFAULT_FORMAT
   const onBeforeReport = options.onBeforeReport
   const onAfterReport = options.onAfterReport
+  const filter = options.filter
 
   // 累计单文件的违规统计，便于输出文件级 summary。
   let totalViolations = 0
@@ -109,6 +135,10 @@ export function createReporter(
   }
 
   const pushRecord = (record: ViolationRecord): void => {
+    if (filter && !filter(record)) {
+      return
+    }
+
     records.push({
       ...record,
       filePath: record.filePath ?? filePath,
@@ -164,8 +194,12 @@ export function createReporter(
     const store = (payload: {
       message: string
       line?: number
+      column?: number
+      endLine?: number
+      endColumn?: number
       code?: string
       suggestions?: ReadonlyArray<SuggestionEntry>
+      fix?: ReadonlyArray<FixEdit>
     }): void => {
       pushRecord({
         tag,
@@ -173,8 +207,12 @@ export function createReporter(
         severity,
         message: payload.message,
         line: payload.line,
+        ...(typeof payload.column === 'number'
+          ? { column: payload.column, endLine: payload.endLine, endColumn: payload.endColumn }
+          : {}),
         code: payload.code,
         suggestions: payload.suggestions,
+        ...(payload.fix && payload.fix.length > 0 ? { fix: payload.fix } : {}),
       })
     }
 
@@ -200,11 +238,15 @@ export function createReporter(
 
     const record = (payload: ReporterRecordPayload): void => {
       const line = resolveLine(payload, offsets)
+      // 列信息只在与最终行号一致时保留，避免行列来自不同位置。
+      const hasColumn = typeof payload.column === 'number' && line === payload.line
       store({
         message: payload.description,
         line,
+        ...(hasColumn ? { column: payload.column, endLine: payload.endLine, endColumn: payload.endColumn } : {}),
         code: payload.code,
         suggestions: payload.suggestions,
+        fix: payload.fix && payload.fix.every(isFixEdit) ? payload.fix : undefined,
       })
     }
 
@@ -264,6 +306,9 @@ export function createReporter(
   }) as Reporter
 }
 
+const isFixEdit = (edit: FixEdit | RuleTextEdit): edit is FixEdit =>
+  typeof (edit as FixEdit).start === 'number' && typeof (edit as FixEdit).end === 'number'
+
 // 复用 reporter 的输出逻辑，便于 worker 结果回放或缓存重放。
 export function renderViolations(
   filePath: string,
@@ -276,11 +321,29 @@ export function renderViolations(
   }
 
   options.onBeforeReport?.()
-  renderCompactViolations(filePath, violations)
+  const frameSource = options.codeFrame ? loadFrameSource(filePath, options.source) : undefined
+  renderCompactViolations(filePath, violations, frameSource)
   options.onAfterReport?.()
 }
 
-function renderCompactViolations(filePath: string, violations: ReadonlyArray<ViolationRecord>): void {
+// 源码读取失败（如文件已被删除）时不输出代码帧，其余内容照常输出。
+function loadFrameSource(filePath: string, source?: string): string | undefined {
+  if (source !== undefined) {
+    return source
+  }
+
+  try {
+    return readFile(filePath)
+  } catch {
+    return undefined
+  }
+}
+
+function renderCompactViolations(
+  filePath: string,
+  violations: ReadonlyArray<ViolationRecord>,
+  frameSource?: string
+): void {
   const t = getTranslator()
   const language = getLanguage()
   const stream = process.stderr
@@ -294,7 +357,7 @@ function renderCompactViolations(filePath: string, violations: ReadonlyArray<Vio
     const color = useColor ? SEVERITY_COLORS[violation.severity] ?? '' : ''
     const reset = useColor ? RESET_COLOR : ''
     const locationPath = violation.filePath ?? filePath
-    const location = typeof violation.line === 'number' ? `${locationPath}:${violation.line}` : `${locationPath}:-`
+    const location = formatLocation(locationPath, violation)
     const codeText = violation.code ? compactText(violation.code) : undefined
     const message = stripRedundantCodeSuffix(compactText(violation.message), codeText)
     const header = `${prefix}${color}[${severityLabel}] ${location} ${message}${reset}`
@@ -308,6 +371,12 @@ function renderCompactViolations(filePath: string, violations: ReadonlyArray<Vio
       stream.write(`${indent}code: ${codeText}\n`)
     }
 
+    if (frameSource !== undefined) {
+      renderCodeFrame(frameSource, violation, { color, reset }).forEach((frameLine) => {
+        stream.write(`${indent}${frameLine}\n`)
+      })
+    }
+
     if (violation.suggestions && violation.suggestions.length > 0) {
       stream.write(`${indent}suggestion:\n`)
       violation.suggestions.forEach((suggestion) => {
@@ -317,6 +386,17 @@ function renderCompactViolations(filePath: string, violations: ReadonlyArray<Vio
   })
 }
 
+// file:line:col；没有列信息时退化为 file:line，没有行号时为 file:-。
+function formatLocation(filePath: string, violation: ViolationRecord): string {
+  if (typeof violation.line !== 'number') {
+    return `${filePath}:-`
+  }
+
+  return typeof violation.column === 'number'
+    ? `${filePath}:${violation.line}:${violation.column}`
+    : `${filePath}:${violation.line}`
+}
+
 function formatTagLabel(tag: string, language: string, t: ReturnType<typeof getTranslator>): string {
   const label = t.ruleTagLabel({ tag })
   if (language === 'en' && label.endsWith(' Rules')) {
@@ -0,0 +1,112 @@
+import { RuleSeverity } from 'auto-cr-rules'
+import type { FileSeveritySummary, Notification, ScanSummary } from '../scan/types'
+import type { ViolationRecord } from './index'
+
+// JSON 输出用于 CI/脚本解析，保持结构稳定。
+type JsonSeverity = 'error' | 'warning' | 'optimizing'
+
+interface JsonSuggestion {
+  text: string
+  link?: string
+}
+
+interface JsonViolation {
+  tag: string
+  ruleName: string
+  severity: JsonSeverity
+  message: string
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  code?: string
+  suggestions: JsonSuggestion[]
+  // 存在可通过 --fix 自动应用的修复。
+  fixable?: boolean
+}
+
+interface JsonFileResult {
+  filePath: string
+  severityCounts: FileSeveritySummary
+  totalViolations: number
+  errorViolations: number
+  violations: JsonViolation[]
+}
+
+export interface JsonOutputPayload {
+  summary: {
+    scannedFiles: number
+    filesWithErrors: number
+    filesWithWarnings: number
+    filesWithOptimizing: number
+    violationTotals: ScanSummary['violationTotals']
+  }
+  files: JsonFileResult[]
+  notifications: Notification[]
+}
+
+function severityToLabel(severity: RuleSeverity): JsonSeverity {
+  switch (severity) {
+    case RuleSeverity.Warning:
+      return 'warning'
+    case RuleSeverity.Optimizing:
+      return 'optimizing'
+    case RuleSeverity.Error:
+    default:
+      return 'error'
+  }
+}
+
+function formatViolationForJson(violation: ViolationRecord): JsonViolation {
+  const suggestions = violation.suggestions
+    ? violation.suggestions.map((suggestion) => ({ ...suggestion }))
+    : []
+
+  const payload: JsonViolation = {
+    tag: violation.tag,
+    ruleName: violation.ruleName,
+    severity: severityToLabel(violation.severity),
+    message: violation.message,
+    suggestions,
+  }
+
+  if (typeof violation.line === 'number') {
+    payload.line = violation.line
+  }
+
+  if (typeof violation.column === 'number') {
+    payload.column = violation.column
+    payload.endLine = violation.endLine
+    payload.endColumn = violation.endColumn
+  }
+
+  if (violation.code) {
+    payload.code = violation.code
+  }
+
+  if (violation.fix && violation.fix.length > 0) {
+    payload.fixable = true
+  }
+
+  return payload
+}
+
+export function formatJsonOutput(result: ScanSummary): JsonOutputPayload {
+  return {
+    summary: {
+      scannedFiles: result.scannedFiles,
+      filesWithErrors: result.filesWithErrors,
+      filesWithWarnings: result.filesWithWarnings,
+      filesWithOptimizing: result.filesWithOptimizing,
+      violationTotals: result.violationTotals,
+    },
+    files: result.files.map((file) => ({
+      filePath: file.filePath,
+      severityCounts: file.severityCounts,
+      totalViolations: file.totalViolations,
+      errorViolations: file.errorViolations,
+      violations: file.violations.map(formatViolationForJson),
+    })),
+    notifications: result.notifications,
+  }
+}
@@ -0,0 +1,74 @@
+import type { ScanSummary } from '../scan/types'
+import { toDisplayPath } from '../utils/path'
+import { formatJsonOutput, type JsonOutputPayload } from './json'
+import { XML_DECLARATION, escapeXml, formatXmlAttributes } from './xml'
+
+// JUnit XML 输出：供 Jenkins/GitLab 等 CI 的测试报告面板解析。
+// 每个文件对应一个 testsuite，每条违规对应一个失败的 testcase；没有违规的文件输出一个通过的 testcase。
+const TOOL_NAME = 'auto-cr'
+
+type JsonFile = JsonOutputPayload['files'][number]
+type JsonViolation = JsonFile['violations'][number]
+
+export function formatJunitOutput(result: ScanSummary, cwd: string = process.cwd()): string {
+  const payload = formatJsonOutput(result)
+  const suites = payload.files.map((file) => formatTestSuite(file, cwd))
+  const tests = payload.files.reduce((total, file) => total + Math.max(file.violations.length, 1), 0)
+  const failures = payload.files.reduce((total, file) => total + file.violations.length, 0)
+
+  return [
+    XML_DECLARATION,
+    `<testsuites${formatXmlAttributes({ name: TOOL_NAME, tests, failures, errors: 0 })}>`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
+
+function formatTestSuite(file: JsonFile, cwd: string): string {
+  const name = toDisplayPath(file.filePath, cwd)
+  const tests = Math.max(file.violations.length, 1)
+  const header = `  <testsuite${formatXmlAttributes({
+    name,
+    tests,
+    failures: file.violations.length,
+    errors: 0,
+    skipped: 0,
+    time: 0,
+  })}>`
+
+  const testCases =
+    file.violations.length === 0
+      ? [`    <testcase${formatXmlAttributes({ name, classname: name, time: 0 })} />`]
+      : file.violations.map((violation) => formatTestCase(violation, name))
+
+  return [header, ...testCases, '  </testsuite>'].join('\n')
+}
+
+function formatTestCase(violation: JsonViolation, filePath: string): string {
+  const location = formatLocation(violation)
+  const detail = [
+    `${filePath}${location ? `:${location}` : ''}`,
+    `${violation.severity} - ${violation.message} (${violation.ruleName})`,
+    ...(violation.code ? [`code: ${violation.code}`] : []),
+    ...violation.suggestions.map((suggestion) =>
+      suggestion.link ? `- ${suggestion.text} (${suggestion.link})` : `- ${suggestion.text}`
+    ),
+  ].join('\n')
+
+  const failureAttributes = formatXmlAttributes({ message: violation.message, type: violation.severity })
+
+  return [
+    `    <testcase${formatXmlAttributes({ name: violation.ruleName, classname: filePath, time: 0 })}>`,
+    `      <failure${failureAttributes}>${escapeXml(detail)}</failure>`,
+    '    </testcase>',
+  ].join('\n')
+}
+
+function formatLocation(violation: JsonViolation): string | undefined {
+  if (typeof violation.line !== 'number') {
+    return undefined
+  }
+
+  return typeof violation.column === 'number' ? `${violation.line}:${violation.column}` : String(violation.line)
+}
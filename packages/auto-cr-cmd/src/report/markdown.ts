@@ -0,0 +1,95 @@
+import { RuleSeverity } from 'auto-cr-rules'
+import { getTranslator } from '../i18n'
+import type { FileScanResult, FileSeveritySummary, ScanSummary } from '../scan/types'
+import { toDisplayPath } from '../utils/path'
+import type { ViolationRecord } from './index'
+import { escapeXml } from './xml'
+
+// Markdown 输出：用于 CI 发布 PR 评论。
+// 顶部为汇总表格，下方每个有问题的文件折叠为一个 <details>，列出违规、规则与修复建议。
+
+const SEVERITIES: RuleSeverity[] = [RuleSeverity.Error, RuleSeverity.Warning, RuleSeverity.Optimizing]
+// 行内文本中会被解释为 Markdown/HTML 语法的字符。
+const MARKDOWN_SPECIAL_PATTERN = /[\\`*_[\]<>|#~]/g
+
+export function formatMarkdownOutput(result: ScanSummary, cwd: string = process.cwd()): string {
+  const t = getTranslator()
+  const filesWithViolations = result.files.filter((file) => file.violations.length > 0)
+  const lines = [`## ${escapeMarkdown(t.reportTitle())}`, '', ...renderSummaryTable(result), '']
+
+  if (filesWithViolations.length === 0) {
+    lines.push(escapeMarkdown(t.reportNoViolations()), '')
+  } else {
+    lines.push(`### ${escapeMarkdown(t.reportFilesHeading())}`, '')
+    filesWithViolations.forEach((file) => lines.push(...renderFile(file, cwd), ''))
+  }
+
+  return lines.join('\n')
+}
+
+function renderSummaryTable(result: ScanSummary): string[] {
+  const t = getTranslator()
+  const rows: Array<[string, number]> = [
+    [t.reportScannedFiles(), result.scannedFiles],
+    [t.reportFilesWithErrors(), result.filesWithErrors],
+    [t.reportFilesWithWarnings(), result.filesWithWarnings],
+    [t.reportFilesWithOptimizing(), result.filesWithOptimizing],
+    [t.reportTotalViolations(), result.violationTotals.total],
+  ]
+
+  return [
+    `| ${escapeMarkdown(t.markdownColumnMetric())} | ${escapeMarkdown(t.markdownColumnCount())} |`,
+    '| --- | ---: |',
+    ...rows.map(([label, value]) => `| ${escapeMarkdown(label)} | ${value} |`),
+  ]
+}
+
+// <details> 内的 Markdown 需要与 HTML 标签之间隔一个空行才会被渲染。
+function renderFile(file: FileScanResult, cwd: string): string[] {
+  const violations = [...file.violations].sort(
+    (left, right) => (left.line ?? 0) - (right.line ?? 0) || (left.column ?? 0) - (right.column ?? 0)
+  )
+
+  return [
+    '<details>',
+    `<summary><code>${escapeXml(toDisplayPath(file.filePath, cwd))}</code> ${escapeXml(
+      formatCounts(file.severityCounts)
+    )}</summary>`,
+    '',
+    ...violations.flatMap(renderViolation),
+    '',
+    '</details>',
+  ]
+}
+
+function renderViolation(violation: ViolationRecord): string[] {
+  const t = getTranslator()
+  const location =
+    typeof violation.line === 'number'
+      ? typeof violation.column === 'number'
+        ? ` \`${violation.line}:${violation.column}\``
+        : ` \`${violation.line}\``
+      : ''
+  const severity = t.reporterSeverityLabel({ severity: violation.severity })
+  const suggestions = (violation.suggestions ?? []).map(
+    (suggestion) => `  - ${escapeMarkdown(t.reporterFormatSuggestion(suggestion))}`
+  )
+
+  return [
+    `- **${escapeMarkdown(severity)}**${location} ${escapeMarkdown(violation.message)} (\`${violation.ruleName}\`)`,
+    ...suggestions,
+  ]
+}
+
+// 文件摘要中的计数，例如 "ERROR 1 · WARNING 2"。
+function formatCounts(counts: FileSeveritySummary): string {
+  const t = getTranslator()
+
+  return SEVERITIES.filter((severity) => counts[severity] > 0)
+    .map((severity) => `${t.reporterSeverityLabel({ severity })} ${counts[severity]}`)
+    .join(' · ')
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\r?\n/g, ' ').replace(MARKDOWN_SPECIAL_PATTERN, (char) => `\\${char}`)
+}
@@ -0,0 +1,245 @@
+import { pathToFileURL } from 'url'
+import { RuleSeverity } from 'auto-cr-rules'
+import { toRelativePosixPath } from '../utils/path'
+import { readToolVersion } from '../utils/version'
+import type { Notification, ScanSummary, ScannedRuleDescriptor } from '../scan/types'
+import type { ViolationRecord } from './index'
+
+// SARIF 2.1.0 输出：用于上传到 GitHub Code Scanning 等代码扫描面板。
+// 规范参考：https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+const SARIF_VERSION = '2.1.0'
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const TOOL_NAME = 'auto-cr'
+const TOOL_INFORMATION_URI = 'https://github.com/wangweiwei/auto-cr'
+const SRCROOT_BASE_ID = '%SRCROOT%'
+
+type SarifLevel = 'error' | 'warning' | 'note'
+
+interface SarifMessage {
+  text: string
+}
+
+interface SarifReportingDescriptor {
+  id: string
+  name: string
+  shortDescription: SarifMessage
+  defaultConfiguration: {
+    level: SarifLevel
+  }
+  properties: {
+    tags: string[]
+    severity: RuleSeverity
+  }
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: {
+      uri: string
+      uriBaseId?: string
+    }
+    region?: {
+      startLine: number
+      startColumn?: number
+      endLine?: number
+      endColumn?: number
+    }
+  }
+}
+
+interface SarifResult {
+  ruleId: string
+  ruleIndex: number
+  level: SarifLevel
+  message: SarifMessage
+  locations: SarifLocation[]
+  properties: {
+    tag: string
+    severity: RuleSeverity
+    code?: string
+    suggestions?: string[]
+  }
+}
+
+interface SarifNotification {
+  level: SarifLevel
+  message: SarifMessage
+}
+
+export interface SarifLog {
+  version: typeof SARIF_VERSION
+  $schema: string
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string
+        informationUri: string
+        version?: string
+        rules: SarifReportingDescriptor[]
+      }
+    }
+    originalUriBaseIds: Record<string, { uri: string }>
+    invocations: Array<{
+      executionSuccessful: boolean
+      toolExecutionNotifications: SarifNotification[]
+    }>
+    results: SarifResult[]
+  }>
+}
+
+const SEVERITY_TO_LEVEL: Record<RuleSeverity, SarifLevel> = {
+  [RuleSeverity.Error]: 'error',
+  [RuleSeverity.Warning]: 'warning',
+  [RuleSeverity.Optimizing]: 'note',
+}
+
+const NOTIFICATION_TO_LEVEL: Record<Notification['level'], SarifLevel> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'note',
+}
+
+// 将扫描结果转换为 SARIF 日志；rules 描述来自本次实际加载的规则（含 --rule-dir 自定义规则）。
+export function formatSarifOutput(result: ScanSummary, cwd: string = process.cwd()): SarifLog {
+  const descriptors: SarifReportingDescriptor[] = []
+  const ruleIndexes = new Map<string, number>()
+
+  const registerRule = (rule: ScannedRuleDescriptor): number => {
+    const existing = ruleIndexes.get(rule.name)
+    if (existing !== undefined) {
+      return existing
+    }
+
+    const severity = rule.severity ?? RuleSeverity.Error
+    const index = descriptors.length
+    descriptors.push({
+      id: rule.name,
+      name: rule.name,
+      shortDescription: { text: rule.name },
+      defaultConfiguration: { level: SEVERITY_TO_LEVEL[severity] ?? 'error' },
+      properties: {
+        tags: rule.tag ? [rule.tag] : [],
+        severity,
+      },
+    })
+    ruleIndexes.set(rule.name, index)
+    return index
+  }
+
+  result.rules.forEach(registerRule)
+
+  const results: SarifResult[] = []
+
+  for (const file of result.files) {
+    for (const violation of file.violations) {
+      // reporter 的通用输出（ruleName=general）不在规则列表中，按需补充描述。
+      const ruleIndex = registerRule({
+        name: violation.ruleName,
+        tag: violation.tag,
+        severity: violation.severity,
+      })
+      results.push(formatSarifResult(violation, file.filePath, ruleIndex, cwd))
+    }
+  }
+
+  const version = readToolVersion()
+
+  return {
+    version: SARIF_VERSION,
+    $schema: SARIF_SCHEMA,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_INFORMATION_URI,
+            ...(version ? { version } : {}),
+            rules: descriptors,
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT_BASE_ID]: { uri: ensureTrailingSlash(pathToFileURL(cwd).href) },
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            toolExecutionNotifications: result.notifications.map((notification) => ({
+              level: NOTIFICATION_TO_LEVEL[notification.level],
+              message: {
+                text: notification.detail ? `${notification.message} ${notification.detail}` : notification.message,
+              },
+            })),
+          },
+        ],
+        results,
+      },
+    ],
+  }
+}
+
+function formatSarifResult(
+  violation: ViolationRecord,
+  fallbackPath: string,
+  ruleIndex: number,
+  cwd: string
+): SarifResult {
+  const filePath = violation.filePath ?? fallbackPath
+  const location: SarifLocation = {
+    physicalLocation: {
+      artifactLocation: toArtifactLocation(filePath, cwd),
+    },
+  }
+
+  if (typeof violation.line === 'number' && violation.line > 0) {
+    location.physicalLocation.region = { startLine: violation.line }
+
+    // SARIF 的列同样从 1 开始、按 UTF-16 计，endColumn 指向结束字符之后，与 ViolationRecord 一致。
+    if (typeof violation.column === 'number') {
+      location.physicalLocation.region.startColumn = violation.column
+      location.physicalLocation.region.endLine = violation.endLine
+      location.physicalLocation.region.endColumn = violation.endColumn
+    }
+  }
+
+  const properties: SarifResult['properties'] = {
+    tag: violation.tag,
+    severity: violation.severity,
+  }
+
+  if (violation.code) {
+    properties.code = violation.code
+  }
+
+  if (violation.suggestions && violation.suggestions.length > 0) {
+    properties.suggestions = violation.suggestions.map((suggestion) =>
+      suggestion.link ? `${suggestion.text} (${suggestion.link})` : suggestion.text
+    )
+  }
+
+  return {
+    ruleId: violation.ruleName,
+    ruleIndex,
+    level: SEVERITY_TO_LEVEL[violation.severity] ?? 'error',
+    message: { text: violation.message },
+    locations: [location],
+    properties,
+  }
+}
+
+// 仓库内文件输出相对 %SRCROOT% 的 POSIX 路径，仓库外文件退回绝对 file:// URI。
+function toArtifactLocation(filePath: string, cwd: string): { uri: string; uriBaseId?: string } {
+  const relative = toRelativePosixPath(filePath, cwd)
+
+  if (relative) {
+    return {
+      uri: relative.split('/').map(encodeURIComponent).join('/'),
+      uriBaseId: SRCROOT_BASE_ID,
+    }
+  }
+
+  return { uri: pathToFileURL(filePath).href }
+}
+
+function ensureTrailingSlash(uri: string): string {
+  return uri.endsWith('/') ? uri : `${uri}/`
+}
@@ -0,0 +1,26 @@
+// XML 报告（JUnit/Checkstyle）共用的转义与拼装工具。
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>'
+
+// XML 1.0 不允许的控制字符（保留 \t \n \r）直接移除，避免解析器报错。
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+}
+
+export function escapeXml(value: string): string {
+  return value.replace(INVALID_XML_CHARACTERS, '').replace(/[&<>"']/g, (character) => XML_ENTITIES[character])
+}
+
+// 按顺序拼接属性，值为 undefined 的属性省略。
+export function formatXmlAttributes(attributes: Record<string, string | number | undefined>): string {
+  return Object.keys(attributes)
+    .filter((name) => attributes[name] !== undefined)
+    .map((name) => ` ${name}="${escapeXml(String(attributes[name]))}"`)
+    .join('')
+}
@@ -1,10 +1,23 @@
 import type { Span } from '@swc/types'
 import { parseSync } from '@swc/wasm'
 import { loadParseOptions } from '../config'
-import { createReporter, type ReporterFormat } from '../report'
+import { createReporter, type FixEdit, type ReporterFormat } from '../report'
 import { getLanguage, getTranslator } from '../i18n'
 import { readFile } from '../utils/file'
-import type { Rule, RuleContext, RuleReporter } from 'auto-cr-rules'
+import {
+  RuleSeverity,
+  resolveRuleOptions,
+  type ProjectGraph,
+  type Rule,
+  type RuleContext,
+  type RuleReporter,
+} from 'auto-cr-rules'
+import {
+  createSuppressionFilter,
+  parseSuppressionDirectives,
+  UNUSED_DISABLE_DIRECTIVE_RULE,
+} from './suppressions'
+import { hashSource } from './fix'
 import type { AnalyzeFileSummary, Logger } from './types'
 
 export interface ReporterHooks {
@@ -12,15 +25,25 @@ export interface ReporterHooks {
   onAfterReport?: () => void
 }
 
+export interface AnalyzeFileOptions {
+  // 是否把未生效的 auto-cr-disable 注释作为 warning 输出。
+  reportUnusedDisableDirectives?: boolean
+  // 直接传入源码（如编辑器未保存的内容），不再从磁盘读取 file。
+  source?: string
+  // 本次扫描共享的模块图，供跨文件规则使用。
+  project?: ProjectGraph
+}
+
 export type CreateRuleContext = typeof import('auto-cr-rules').createRuleContext
 
 type ReporterSpanArg = Parameters<RuleReporter['errorAtSpan']>[0]
 
 /**
  * 单文件扫描流程：
- * - 读取源码并解析 AST；
+ * - 读取源码（或使用传入的源码）并解析 AST；
  * - 构建规则上下文（共享 AST 索引、源码索引等）；
  * - 逐条执行规则，收集 reporter 输出；
+ * - 按行内 auto-cr-disable 注释过滤违规；
  * - 汇总为文件级统计。
  */
 export async function analyzeFile(
@@ -29,11 +52,18 @@ export async function analyzeFile(
   format: ReporterFormat,
   log: Logger,
   createRuleContext: CreateRuleContext,
-  reporterHooks?: ReporterHooks
+  reporterHooks?: ReporterHooks,
+  options: AnalyzeFileOptions = {}
 ): Promise<AnalyzeFileSummary> {
-  const source = readFile(file)
+  const source = options.source ?? readFile(file)
+  // 抑制注释在写入 reporter 前生效，被抑制的违规不计入统计；指令在解析完成后读取。
+  let suppressions = createSuppressionFilter([])
   // reporter 负责收集违规与（可选）输出；format=json 用于 worker/缓存场景避免直接输出。
-  const reporter = createReporter(file, source, { format, ...reporterHooks })
+  const reporter = createReporter(file, source, {
+    format,
+    ...reporterHooks,
+    filter: (record) => !suppressions.isSuppressed(record),
+  })
   const t = getTranslator()
 
   let ast
@@ -62,10 +92,15 @@ export async function analyzeFile(
     source,
     reporter,
     language,
+    project: options.project,
   })
+  // 注释位置依赖 SWC span 与源码索引，规则执行前替换过滤器。
+  const directives = parseSuppressionDirectives(source, ast, baseContext.sourceIndex.moduleStart)
+  suppressions = createSuppressionFilter(directives)
 
   // baseContext 已经包含共享分析索引（imports/loops/hotPath 等）。
   const sharedHelpers = baseContext.helpers
+  const collected: Record<string, unknown> = {}
 
   for (const rule of rules) {
     try {
@@ -80,7 +115,8 @@ export async function analyzeFile(
         reportViolation: ((input: unknown, span?: ReporterSpanArg): void => {
           // 统一把规则输出收敛成结构化数据，避免各规则实现重复分支。
           const normalized = normalizeViolationInput(input, span)
-          const resolvedLine = resolveLineForViolation(baseContext.source, baseContext.sourceIndex, normalized)
+          const location = resolveLocationForViolation(baseContext.source, baseContext.sourceIndex, normalized)
+          const resolvedLine = location.line
 
           if (typeof reporterWithRecord.record === 'function') {
             reporterWithRecord.record({
@@ -88,7 +124,8 @@ export async function analyzeFile(
               code: normalized.code,
               suggestions: normalized.suggestions,
               span: normalized.span,
-              line: resolvedLine,
+              ...location,
+              fix: resolveFixEdits(baseContext.source, baseContext.sourceIndex, normalized.fix),
             })
             return
           }
@@ -111,14 +148,34 @@ export async function analyzeFile(
         ...baseContext,
         reporter: scopedReporter,
         helpers,
+        options: resolveRuleOptions(rule.schema, rule.options),
       }
 
       await rule.run(context)
+
+      if (rule.collect) {
+        const data = await rule.collect(context)
+        if (data !== undefined) {
+          collected[rule.name] = data
+        }
+      }
     } catch (error) {
       log('error', t.ruleExecutionFailed({ ruleName: rule.name, file }), error)
     }
   }
 
+  if (options.reportUnusedDisableDirectives) {
+    const unusedReporter = reporter.forRule({
+      name: UNUSED_DISABLE_DIRECTIVE_RULE,
+      tag: 'base',
+      severity: RuleSeverity.Warning,
+    })
+
+    for (const directive of suppressions.unusedDirectives()) {
+      unusedReporter.errorAtLine(directive.line, t.unusedDisableDirective({ directive: directive.text }))
+    }
+  }
+
   // flush 会在 text 模式输出日志，在 json 模式只返回结构化结果。
   const summary = reporter.flush()
 
@@ -127,6 +184,9 @@ export async function analyzeFile(
     totalViolations: summary.totalViolations,
     errorViolations: summary.errorViolations,
     violations: summary.violations,
+    ...(Object.keys(collected).length > 0 ? { collected } : {}),
+    ...(directives.length > 0 ? { suppressions: directives } : {}),
+    sourceHash: hashSource(source),
   }
 }
 
@@ -136,6 +196,7 @@ interface NormalizedViolation {
   line?: number
   code?: string
   suggestions?: ReadonlyArray<SuggestionEntry>
+  fix?: ReadonlyArray<ByteTextEdit>
 }
 
 interface ReporterRecordPayload {
@@ -144,6 +205,24 @@ interface ReporterRecordPayload {
   suggestions?: ReadonlyArray<SuggestionEntry>
   span?: ReporterSpanArg
   line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  fix?: ReadonlyArray<FixEdit>
+}
+
+// 违规位置：行列均从 1 开始，列按 UTF-16 计（与 JS 字符串下标一致）；endLine/endColumn 指向 span 结束处（不含）。
+interface ViolationLocation {
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+}
+
+// 规则输出的修复：span 为 SWC byte offset。
+type ByteTextEdit = {
+  span: Span
+  text: string
 }
 
 type SuggestionEntry = {
@@ -172,6 +251,7 @@ function normalizeViolationInput(
       line?: number
       code?: unknown
       suggestions?: unknown
+      fix?: unknown
     }
 
     const description =
@@ -215,6 +295,7 @@ function normalizeViolationInput(
       line: typeof candidate.line === 'number' ? candidate.line : undefined,
       code,
       suggestions,
+      fix: normalizeFixInput(candidate.fix),
     }
   }
 
@@ -224,24 +305,71 @@ function normalizeViolationInput(
   }
 }
 
+// 只接受结构完整的 edit；任意一项不合法则整个修复作废，避免只应用一半。
+function normalizeFixInput(input: unknown): ReadonlyArray<ByteTextEdit> | undefined {
+  if (!Array.isArray(input) || input.length === 0) {
+    return undefined
+  }
+
+  const edits: ByteTextEdit[] = []
+
+  for (const entry of input) {
+    const candidate = entry as { span?: { start?: unknown; end?: unknown }; text?: unknown } | null
+    const start = candidate?.span?.start
+    const end = candidate?.span?.end
+
+    if (typeof start !== 'number' || typeof end !== 'number' || end < start || typeof candidate?.text !== 'string') {
+      return undefined
+    }
+
+    edits.push({ span: { start, end } as Span, text: candidate.text })
+  }
+
+  return edits
+}
+
+// 把 byte span 转为字符索引，后续应用修复时直接按字符串切片替换。
+const resolveFixEdits = (
+  source: string,
+  sourceIndex: RuleContext['sourceIndex'],
+  fix: ReadonlyArray<ByteTextEdit> | undefined
+): FixEdit[] | undefined => {
+  if (!fix) {
+    return undefined
+  }
+
+  return fix.map((edit) => ({
+    start: bytePosToCharIndex(source, sourceIndex.moduleStart, edit.span.start),
+    end: bytePosToCharIndex(source, sourceIndex.moduleStart, edit.span.end),
+    text: edit.text,
+  }))
+}
+
 type SpanCarrier = { span?: Span }
 
-const resolveLineForViolation = (
+// 规则显式给出的行号优先；span 起点与该行号不一致时列信息不可信，只保留行号。
+const resolveLocationForViolation = (
   source: string,
   sourceIndex: RuleContext['sourceIndex'],
   violation: NormalizedViolation
-): number | undefined => {
-  if (typeof violation.line === 'number' && Number.isFinite(violation.line)) {
-    return violation.line
+): ViolationLocation => {
+  const explicitLine =
+    typeof violation.line === 'number' && Number.isFinite(violation.line) ? violation.line : undefined
+  const span = extractSpan(violation.span)
+
+  if (!span || typeof span.start !== 'number' || !Number.isFinite(span.start)) {
+    return { line: explicitLine }
   }
 
-  const span = extractSpan(violation.span)
-  if (!span) {
-    return undefined
+  const start = resolvePositionFromByteOffset(source, sourceIndex, span.start)
+  if (explicitLine !== undefined && explicitLine !== start.line) {
+    return { line: explicitLine }
   }
 
-  const line = resolveLineFromByteOffset(source, sourceIndex, span.start)
-  return Number.isFinite(line) ? line : undefined
+  const endOffset = typeof span.end === 'number' && span.end >= span.start ? span.end : span.start
+  const end = resolvePositionFromByteOffset(source, sourceIndex, endOffset)
+
+  return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column }
 }
 
 const extractSpan = (spanLike: Span | SpanCarrier | undefined): Span | undefined => {
@@ -256,13 +384,15 @@ const extractSpan = (spanLike: Span | SpanCarrier | undefined): Span | undefined
   return spanLike as Span
 }
 
-const resolveLineFromByteOffset = (
+// SWC byte offset -> 行号 + UTF-16 列号（均从 1 开始）。
+const resolvePositionFromByteOffset = (
   source: string,
   index: RuleContext['sourceIndex'],
   byteOffset: number
-): number => {
+): { line: number; column: number } => {
   const charIndex = bytePosToCharIndex(source, index.moduleStart, byteOffset)
-  return resolveLine(index.lineOffsets, charIndex)
+  const line = resolveLine(index.lineOffsets, charIndex)
+  return { line, column: charIndex - index.lineOffsets[line - 1] + 1 }
 }
 
 const resolveLine = (lineOffsets: number[], position: number): number => {
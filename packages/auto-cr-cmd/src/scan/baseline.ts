@@ -0,0 +1,249 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { getLanguage, getTranslator, type Language } from '../i18n'
+import type { ViolationRecord } from '../report'
+import { toDisplayPath } from '../utils/path'
+import { summarizeViolations } from './summary'
+import type { AnalyzeFileSummary, FileScanResult } from './types'
+
+// 基线文件：记录已知的历史违规，后续扫描只报告新增问题。
+// 指纹由 规则名 + 相对路径 + 规范化代码片段 + 文案 组成，不含行号，因此代码上下移动后依然可以匹配。
+// 文案随 --language 变化，基线记录生成时的语言，加载时语言不一致会给出提示。
+export const DEFAULT_BASELINE_FILE = '.autocr-baseline.json'
+
+const BASELINE_VERSION = 1
+
+export interface BaselineEntry {
+  fingerprint: string
+  ruleName: string
+  filePath: string
+  message: string
+  count: number
+}
+
+export interface BaselineFile {
+  version: number
+  // 生成基线时的文案语言；旧版本基线没有该字段，视为未知。
+  language?: Language
+  violations: BaselineEntry[]
+}
+
+export interface LoadedBaseline {
+  path: string
+  entries: Map<string, number>
+  warnings: string[]
+}
+
+// 基线匹配器：按文件过滤已记录的违规，同一指纹最多抵消基线里记录的次数。
+export interface BaselineMatcher {
+  filter(filePath: string, summary: AnalyzeFileSummary): AnalyzeFileSummary
+  suppressedCount(): number
+}
+
+// 读取基线文件；文件缺失或格式错误时返回空基线并附带 warning，不中断扫描。
+export function loadBaseline(baselinePath: string, language: Language = getLanguage()): LoadedBaseline {
+  const t = getTranslator()
+  const warnings: string[] = []
+  const entries = new Map<string, number>()
+
+  if (!fs.existsSync(baselinePath)) {
+    warnings.push(t.baselinePathMissing({ path: baselinePath }))
+    return { path: baselinePath, entries, warnings }
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as Partial<BaselineFile>
+
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.violations)) {
+      warnings.push(t.baselineInvalidFormat({ path: baselinePath }))
+      return { path: baselinePath, entries, warnings }
+    }
+
+    if (typeof parsed.language === 'string' && parsed.language !== language) {
+      warnings.push(t.baselineLanguageMismatch({ path: baselinePath, baseline: parsed.language, current: language }))
+    }
+
+    for (const entry of parsed.violations) {
+      if (!entry || typeof entry.fingerprint !== 'string') {
+        continue
+      }
+
+      const count = typeof entry.count === 'number' && entry.count > 0 ? Math.floor(entry.count) : 1
+      entries.set(entry.fingerprint, (entries.get(entry.fingerprint) ?? 0) + count)
+    }
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    warnings.push(t.baselineLoadFailed({ path: baselinePath, error: detail }))
+  }
+
+  return { path: baselinePath, entries, warnings }
+}
+
+export function createBaselineMatcher(baseline: LoadedBaseline, cwd: string = process.cwd()): BaselineMatcher {
+  // 剩余可抵消次数：每匹配一次减 1，超出部分视为新增违规。
+  const remaining = new Map(baseline.entries)
+  const sourceLines = createSourceLineReader()
+  let suppressed = 0
+
+  const filter = (filePath: string, summary: AnalyzeFileSummary): AnalyzeFileSummary => {
+    if (summary.violations.length === 0 || remaining.size === 0) {
+      return summary
+    }
+
+    const kept = summary.violations.filter((violation) => {
+      const fingerprint = computeFingerprint(violation, violation.filePath ?? filePath, cwd, sourceLines)
+      const available = remaining.get(fingerprint) ?? 0
+
+      if (available <= 0) {
+        return true
+      }
+
+      remaining.set(fingerprint, available - 1)
+      suppressed += 1
+      return false
+    })
+
+    if (kept.length === summary.violations.length) {
+      return summary
+    }
+
+    return summarizeViolations(kept)
+  }
+
+  return {
+    filter,
+    suppressedCount: () => suppressed,
+  }
+}
+
+/**
+ * 根据扫描结果生成基线文件（按指纹聚合计数，排序保证 diff 稳定）：
+ * - scannedFiles 为本次扫描的全部文件，这些文件的记录整体替换为本次结果；
+ * - 其余文件沿用已有基线中的记录，只扫描部分路径时不会丢失其他文件的历史问题。
+ * 返回写入后基线中的问题总数。
+ */
+export function writeBaseline(
+  baselinePath: string,
+  files: ReadonlyArray<FileScanResult>,
+  scannedFiles: ReadonlyArray<string>,
+  cwd: string = process.cwd()
+): number {
+  const sourceLines = createSourceLineReader()
+  const entries = new Map<string, BaselineEntry>()
+  const scanned = new Set(scannedFiles.map((filePath) => toDisplayPath(filePath, cwd)))
+  let total = 0
+
+  for (const entry of readBaselineEntries(baselinePath)) {
+    if (scanned.has(entry.filePath)) {
+      continue
+    }
+
+    const count = typeof entry.count === 'number' && entry.count > 0 ? Math.floor(entry.count) : 1
+    const existing = entries.get(entry.fingerprint)
+    total += count
+
+    if (existing) {
+      existing.count += count
+    } else {
+      entries.set(entry.fingerprint, { ...entry, count })
+    }
+  }
+
+  for (const file of files) {
+    for (const violation of file.violations) {
+      const filePath = violation.filePath ?? file.filePath
+      const fingerprint = computeFingerprint(violation, filePath, cwd, sourceLines)
+      const existing = entries.get(fingerprint)
+      total += 1
+
+      if (existing) {
+        existing.count += 1
+        continue
+      }
+
+      entries.set(fingerprint, {
+        fingerprint,
+        ruleName: violation.ruleName,
+        filePath: toDisplayPath(filePath, cwd),
+        message: violation.message,
+        count: 1,
+      })
+    }
+  }
+
+  const payload: BaselineFile = {
+    version: BASELINE_VERSION,
+    language: getLanguage(),
+    violations: Array.from(entries.values()).sort(
+      (left, right) =>
+        left.filePath.localeCompare(right.filePath) ||
+        left.ruleName.localeCompare(right.ruleName) ||
+        left.fingerprint.localeCompare(right.fingerprint)
+    ),
+  }
+
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true })
+  fs.writeFileSync(baselinePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8')
+  return total
+}
+
+function computeFingerprint(
+  violation: ViolationRecord,
+  filePath: string,
+  cwd: string,
+  sourceLines: (filePath: string) => string[] | null
+): string {
+  const lines = sourceLines(filePath)
+  const snippet =
+    typeof violation.line === 'number' && lines && lines[violation.line - 1] !== undefined
+      ? lines[violation.line - 1]
+      : violation.code ?? ''
+
+  return crypto
+    .createHash('sha1')
+    .update(
+      [violation.ruleName, toDisplayPath(filePath, cwd), normalizeSnippet(snippet), violation.message].join('\0')
+    )
+    .digest('hex')
+}
+
+// 规范化代码片段：折叠空白，避免缩进/格式化调整导致指纹失效。
+function normalizeSnippet(snippet: string): string {
+  return snippet.replace(/\s+/g, ' ').trim()
+}
+
+function createSourceLineReader(): (filePath: string) => string[] | null {
+  const cache = new Map<string, string[] | null>()
+
+  return (filePath: string) => {
+    if (cache.has(filePath)) {
+      return cache.get(filePath) ?? null
+    }
+
+    let lines: string[] | null = null
+    try {
+      lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/)
+    } catch {
+      lines = null
+    }
+
+    cache.set(filePath, lines)
+    return lines
+  }
+}
+
+// 读取已有基线的原始条目；文件缺失或格式错误时视为空基线（写入时整体覆盖）。
+function readBaselineEntries(baselinePath: string): BaselineEntry[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as Partial<BaselineFile>
+    return Array.isArray(parsed?.violations)
+      ? parsed.violations.filter(
+          (entry): entry is BaselineEntry =>
+            Boolean(entry) && typeof entry.fingerprint === 'string' && typeof entry.filePath === 'string'
+        )
+      : []
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,296 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import type { Rule } from 'auto-cr-rules'
+import { getTranslator } from '../i18n'
+import { getAllFiles } from '../utils/file'
+import { readToolVersion } from '../utils/version'
+import { collectAffectedFiles } from './graph'
+import type { AnalyzeFileSummary, Notification } from './types'
+
+// 结果缓存：按文件内容哈希复用上次的扫描结果，未变化的文件无需再次解析。
+// 跨文件规则（如循环依赖）的结果依赖导入闭包，任一被依赖文件变化都会让依赖方的缓存失效；
+// 导入的解析结果还取决于 tsconfig/package.json 以及尚不存在的候选路径，这些路径变化（或出现）时同样失效。
+// 规则配置按文件解析（嵌套配置、overrides、内联配置），每个条目记录生效配置的指纹，配置变化后该文件重新扫描。
+export const DEFAULT_CACHE_FILE = '.autocr-cache'
+
+const CACHE_VERSION = 5
+const CUSTOM_RULE_EXTENSIONS = ['.js', '.cjs', '.mjs']
+
+// 单文件缓存内容：analyzeFile 的原始结果与日志（diff/基线/修复等后置过滤不进入缓存）。
+export interface CachedFileResult {
+  summary: AnalyzeFileSummary
+  logs: Notification[]
+}
+
+interface CacheEntry {
+  hash: string
+  // 直接依赖（绝对路径），用于构建反向依赖图。
+  imports: string[]
+  // 解析依赖的路径指纹（配置文件与无法解析的说明符的候选路径），null 表示路径不存在。
+  inputs: Record<string, string | null>
+  // 扫描时该文件生效的规则配置指纹（见 CacheDependencyResolver.settings）。
+  settings?: string
+  // 仅依赖文件（不在扫描范围内）只记录哈希与依赖，没有结果。
+  result?: CachedFileResult
+}
+
+interface CacheFile {
+  version: number
+  key: string
+  files: Record<string, CacheEntry>
+}
+
+// 影响扫描结果的配置：任一变化都会让整个缓存失效。
+export interface CacheKeyInput {
+  rules: ReadonlyArray<Rule>
+  // 参与扫描的全部 .autocrrc（含嵌套配置），按内容参与指纹。
+  configFiles?: ReadonlyArray<string>
+  ruleDir?: string
+  language: string
+  tsconfigPath?: string
+  reportUnusedDisableDirectives?: boolean
+}
+
+// 依赖信息来自本次扫描的模块图。
+export interface CacheDependencyResolver {
+  // 直接依赖的项目内源码。
+  imports(filePath: string): string[]
+  // 影响导入解析结果的路径（见 ProjectGraph.resolutionInputsOf）。
+  inputs(filePath: string): ReadonlyArray<string>
+  // 该文件生效的规则配置（RuleSettingsResolver.resolve 的结果），与缓存时不一致则不复用结果。
+  settings(filePath: string): unknown
+}
+
+export interface ResultCache {
+  get(filePath: string): CachedFileResult | undefined
+  set(filePath: string, result: CachedFileResult): void
+  // watch 模式下文件变化后丢弃对应条目，下次 set 时重新记录。
+  forget(filePaths: ReadonlyArray<string>): void
+  save(): void
+}
+
+export function computeCacheKey(input: CacheKeyInput): string {
+  const tsconfigPath = input.tsconfigPath ?? path.resolve(process.cwd(), 'tsconfig.json')
+
+  return crypto
+    .createHash('sha1')
+    .update(
+      JSON.stringify({
+        version: CACHE_VERSION,
+        tool: readToolVersion() ?? null,
+        rules: input.rules.map(({ name, tag, severity }) => [name, tag ?? null, severity ?? null]),
+        configFiles: (input.configFiles ?? []).map((filePath) => [filePath, hashFile(filePath)]),
+        customRules: hashCustomRules(input.ruleDir),
+        language: input.language,
+        tsconfig: hashFile(tsconfigPath),
+        reportUnusedDisableDirectives: Boolean(input.reportUnusedDisableDirectives),
+      })
+    )
+    .digest('hex')
+}
+
+/**
+ * 打开缓存文件并剔除失效条目：
+ * - 配置指纹不一致、版本不一致或文件损坏时整体丢弃；
+ * - 内容哈希变化（含删除）或解析依赖的路径发生变化的文件移除条目；
+ * - 直接/间接导入了这些文件的条目丢弃结果，重新扫描。
+ */
+export function openResultCache(
+  cachePath: string,
+  key: string,
+  dependencies: CacheDependencyResolver,
+  onWarning?: (message: string) => void
+): ResultCache {
+  const entries = loadEntries(cachePath, key, onWarning)
+  let dirty = false
+
+  const stale = Array.from(entries.entries())
+    .filter(([filePath, entry]) => hashFile(filePath) !== entry.hash || hasChangedInputs(entry.inputs))
+    .map(([filePath]) => filePath)
+
+  if (stale.length > 0) {
+    const affected = collectAffectedFiles(stale, Array.from(entries.keys()), (filePath) =>
+      entries.get(filePath)?.imports ?? []
+    )
+
+    affected.forEach((filePath) => {
+      const entry = entries.get(filePath)
+      if (entry) {
+        delete entry.result
+      }
+    })
+    stale.forEach((filePath) => entries.delete(filePath))
+    dirty = true
+  }
+
+  // 沿导入闭包补齐依赖文件的哈希，保证下次能检测到依赖变化。
+  const recordDependencies = (imports: ReadonlyArray<string>): void => {
+    const queue = [...imports]
+
+    while (queue.length > 0) {
+      const filePath = queue.shift() as string
+      if (entries.has(filePath)) {
+        continue
+      }
+
+      const hash = hashFile(filePath)
+      if (hash === null) {
+        continue
+      }
+
+      const dependencyImports = dependencies.imports(filePath)
+      entries.set(filePath, {
+        hash,
+        imports: dependencyImports,
+        inputs: fingerprintInputs(dependencies.inputs(filePath)),
+      })
+      queue.push(...dependencyImports)
+    }
+  }
+
+  const get = (filePath: string): CachedFileResult | undefined => {
+    const entry = entries.get(filePath)
+    return entry?.result && entry.settings === hashSettings(dependencies.settings(filePath)) ? entry.result : undefined
+  }
+
+  const set = (filePath: string, result: CachedFileResult): void => {
+    const hash = hashFile(filePath)
+    if (hash === null) {
+      return
+    }
+
+    const imports = dependencies.imports(filePath)
+    entries.set(filePath, {
+      hash,
+      imports,
+      inputs: fingerprintInputs(dependencies.inputs(filePath)),
+      settings: hashSettings(dependencies.settings(filePath)),
+      result,
+    })
+    recordDependencies(imports)
+    dirty = true
+  }
+
+  const forget = (filePaths: ReadonlyArray<string>): void => {
+    filePaths.forEach((filePath) => {
+      dirty = entries.delete(filePath) || dirty
+    })
+  }
+
+  const save = (): void => {
+    if (!dirty) {
+      return
+    }
+
+    const payload: CacheFile = { version: CACHE_VERSION, key, files: {} }
+    entries.forEach((entry, filePath) => {
+      payload.files[filePath] = entry
+    })
+
+    try {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true })
+      fs.writeFileSync(cachePath, JSON.stringify(payload), 'utf-8')
+      dirty = false
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      onWarning?.(getTranslator().cacheWriteFailed({ path: cachePath, error: detail }))
+    }
+  }
+
+  return { get, set, forget, save }
+}
+
+// 读取缓存文件；不存在时静默返回空缓存，损坏时给出 warning 后丢弃。
+function loadEntries(
+  cachePath: string,
+  key: string,
+  onWarning?: (message: string) => void
+): Map<string, CacheEntry> {
+  const entries = new Map<string, CacheEntry>()
+
+  if (!fs.existsSync(cachePath)) {
+    return entries
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as Partial<CacheFile>
+
+    if (!parsed || parsed.version !== CACHE_VERSION || parsed.key !== key || !parsed.files) {
+      return entries
+    }
+
+    Object.keys(parsed.files).forEach((filePath) => {
+      const entry = parsed.files?.[filePath]
+      if (
+        entry &&
+        typeof entry.hash === 'string' &&
+        Array.isArray(entry.imports) &&
+        entry.inputs &&
+        typeof entry.inputs === 'object'
+      ) {
+        entries.set(filePath, entry)
+      }
+    })
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    onWarning?.(getTranslator().cacheLoadFailed({ path: cachePath, error: detail }))
+  }
+
+  return entries
+}
+
+// 自定义规则以文件内容参与指纹，规则实现改动后缓存自动失效。
+function hashCustomRules(ruleDir?: string): string | null {
+  if (!ruleDir) {
+    return null
+  }
+
+  const absolutePath = path.resolve(process.cwd(), ruleDir)
+  if (!fs.existsSync(absolutePath)) {
+    return null
+  }
+
+  const hash = crypto.createHash('sha1')
+  getAllFiles(absolutePath, [], CUSTOM_RULE_EXTENSIONS)
+    .sort()
+    .forEach((filePath) => {
+      hash.update(path.relative(absolutePath, filePath))
+      hash.update('\0')
+      hash.update(hashFile(filePath) ?? '')
+      hash.update('\0')
+    })
+
+  return hash.digest('hex')
+}
+
+const hashSettings = (settings: unknown): string =>
+  crypto.createHash('sha1').update(JSON.stringify(settings ?? null)).digest('hex')
+
+const fingerprintInputs = (inputs: ReadonlyArray<string>): Record<string, string | null> => {
+  const fingerprints: Record<string, string | null> = {}
+  inputs.forEach((inputPath) => {
+    fingerprints[inputPath] = fingerprintPath(inputPath)
+  })
+  return fingerprints
+}
+
+const hasChangedInputs = (inputs: Record<string, string | null>): boolean =>
+  Object.keys(inputs).some((inputPath) => fingerprintPath(inputPath) !== inputs[inputPath])
+
+// 文件按内容哈希，目录只记录存在（如 node_modules 下的包目录），不存在为 null。
+function fingerprintPath(targetPath: string): string | null {
+  try {
+    return fs.statSync(targetPath).isDirectory() ? 'dir' : hashFile(targetPath)
+  } catch {
+    return null
+  }
+}
+
+function hashFile(filePath: string): string | null {
+  try {
+    return crypto.createHash('sha1').update(fs.readFileSync(filePath)).digest('hex')
+  } catch {
+    return null
+  }
+}
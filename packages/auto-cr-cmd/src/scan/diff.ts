@@ -0,0 +1,23 @@
+import { isLineChanged, type ChangedFiles } from '../utils/git'
+import { summarizeViolations } from './summary'
+import type { AnalyzeFileSummary } from './types'
+
+// diff 模式：只保留落在变更行上的违规。
+// 规则本身仍基于完整源码与依赖树执行（如循环依赖检测），这里只裁剪输出。
+export function createChangedLinesFilter(
+  changes: ChangedFiles
+): (filePath: string, summary: AnalyzeFileSummary) => AnalyzeFileSummary {
+  return (filePath, summary) => {
+    const ranges = changes.get(filePath)
+    if (!ranges || summary.violations.length === 0) {
+      return summary
+    }
+
+    // 没有行号的违规无法定位到具体变更，保守起见保留。
+    const kept = summary.violations.filter(
+      (violation) => typeof violation.line !== 'number' || isLineChanged(ranges, violation.line)
+    )
+
+    return kept.length === summary.violations.length ? summary : summarizeViolations(kept)
+  }
+}
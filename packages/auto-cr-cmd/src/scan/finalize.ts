@@ -0,0 +1,132 @@
+import path from 'path'
+import {
+  resolveRuleOptions,
+  type ProjectGraph,
+  type Rule,
+  type RuleCollectedEntry,
+  type RuleProjectViolation,
+  type RuleReporter,
+} from 'auto-cr-rules'
+import { createReporter } from '../report'
+import { getLanguage, getTranslator } from '../i18n'
+import { readFile } from '../utils/file'
+import { createSuppressionFilter, type SuppressionDirective } from './suppressions'
+import type { AnalyzeFileSummary, Logger } from './types'
+
+export type CreateRuleProjectContext = typeof import('auto-cr-rules')['createRuleProjectContext']
+
+export interface ProjectRulesOptions {
+  // 声明了 finalize 的规则。
+  rules: ReadonlyArray<Rule>
+  // 参与汇总的文件，决定 collected 的顺序。
+  files: ReadonlyArray<string>
+  // 文件 -> 各规则 collect 的结果（来自主线程或 worker 的单文件结果）。
+  collected: ReadonlyMap<string, Readonly<Record<string, unknown>>>
+  // 文件 -> 单文件扫描时解析出的抑制指令。
+  suppressions: ReadonlyMap<string, ReadonlyArray<SuppressionDirective>>
+  createRuleProjectContext: CreateRuleProjectContext
+  project?: ProjectGraph
+  // 读取被上报文件的源码（reporter 输出代码片段用）；默认读磁盘。
+  readSource?: (filePath: string) => string
+  log: Logger
+}
+
+type RecordingReporter = RuleReporter & {
+  record?: (payload: {
+    description: string
+    line?: number
+    column?: number
+    code?: string
+    suggestions?: RuleProjectViolation['suggestions']
+  }) => void
+}
+
+/**
+ * 两阶段规则的汇总阶段（主线程执行）：
+ * - 按文件顺序整理各规则 collect 的结果并执行 finalize；
+ * - finalize 上报的违规按文件归组，经过与单文件规则相同的 auto-cr-disable 过滤；
+ * - 只返回 files 中的文件，其余路径的上报被忽略。
+ */
+export async function runProjectRules(options: ProjectRulesOptions): Promise<Map<string, AnalyzeFileSummary>> {
+  const t = getTranslator()
+  const language = getLanguage()
+  const files = Array.from(new Set(options.files))
+  const known = new Set(files)
+  const reports = new Map<string, Array<{ rule: Rule; violation: RuleProjectViolation }>>()
+
+  for (const rule of options.rules) {
+    if (!rule.finalize) {
+      continue
+    }
+
+    const collected: RuleCollectedEntry[] = []
+    files.forEach((filePath) => {
+      const data = options.collected.get(filePath)?.[rule.name]
+      if (data !== undefined) {
+        collected.push({ filePath, data })
+      }
+    })
+
+    const context = options.createRuleProjectContext({
+      language,
+      collected,
+      options: resolveRuleOptions(rule.schema, rule.options),
+      project: options.project,
+      report: (violation) => {
+        const filePath = path.resolve(violation.filePath)
+        if (!known.has(filePath)) {
+          return
+        }
+
+        const bucket = reports.get(filePath) ?? []
+        bucket.push({ rule, violation })
+        reports.set(filePath, bucket)
+      },
+    })
+
+    try {
+      await rule.finalize(context)
+    } catch (error) {
+      options.log('error', t.ruleFinalizeFailed({ ruleName: rule.name }), error)
+    }
+  }
+
+  const readSource = options.readSource ?? readFile
+  const summaries = new Map<string, AnalyzeFileSummary>()
+
+  reports.forEach((entries, filePath) => {
+    let source: string
+    try {
+      source = readSource(filePath)
+    } catch {
+      return
+    }
+
+    const suppressions = createSuppressionFilter(options.suppressions.get(filePath) ?? [])
+    const reporter = createReporter(filePath, source, {
+      format: 'json',
+      filter: (record) => !suppressions.isSuppressed(record),
+    })
+
+    entries.forEach(({ rule, violation }) => {
+      const scopedReporter = reporter.forRule(rule) as RecordingReporter
+      scopedReporter.record?.({
+        description: violation.description,
+        line: violation.line,
+        column: violation.column,
+        code: violation.code,
+        suggestions: violation.suggestions,
+      })
+    })
+
+    const summary = reporter.flush()
+    summaries.set(filePath, {
+      severityCounts: summary.severityCounts,
+      totalViolations: summary.totalViolations,
+      errorViolations: summary.errorViolations,
+      violations: summary.violations,
+    })
+  })
+
+  return summaries
+}
@@ -0,0 +1,248 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import { parseSync } from '@swc/wasm'
+import { loadParseOptions } from '../config'
+import type { FixEdit, ViolationRecord } from '../report'
+import { readFile } from '../utils/file'
+import { summarizeViolations } from './summary'
+import type { AnalyzeFileSummary } from './types'
+
+// --fix 写回文件；--fix-dry-run 只计算并报告将要发生的修改。
+export type FixMode = 'apply' | 'dry-run'
+
+export interface AppliedFix {
+  ruleName: string
+  line?: number
+  before: string
+  after: string
+}
+
+export interface FileFixResult {
+  // apply 模式下移除已修复的违规；dry-run 保持原结果。
+  summary: AnalyzeFileSummary
+  applied: AppliedFix[]
+  // 修复后的源码无法解析时为 true，此时文件保持不变。
+  invalid: boolean
+  // 文件在扫描后被修改（edit 基于扫描时的源码）时为 true，此时跳过修复。
+  changed: boolean
+}
+
+// 扫描时的源码指纹，修复前据此确认磁盘上的文件没有变化。
+export function hashSource(source: string): string {
+  return crypto.createHash('sha1').update(source).digest('hex')
+}
+
+/**
+ * 应用单文件的自动修复：
+ * - sourceHash 为扫描时的源码指纹，与磁盘上的文件不一致时 edit 已失效，整体跳过；
+ * - 按位置排序，与已接受修复重叠的违规整体跳过（留给下一次 --fix）；
+ * - 修复后重新解析，确认语法仍然有效才写回；
+ * - 写回后剩余违规的行列与 edit 换算到修复后的源码，--code-frame 等读取新文件时位置仍然准确；
+ * - 返回实际应用的修改，供 CLI 输出。
+ */
+export function applyFileFixes(
+  filePath: string,
+  summary: AnalyzeFileSummary,
+  mode: FixMode,
+  sourceHash?: string
+): FileFixResult {
+  const fixable = summary.violations.filter((violation) => violation.fix && violation.fix.length > 0)
+
+  if (fixable.length === 0) {
+    return { summary, applied: [], invalid: false, changed: false }
+  }
+
+  const source = readFile(filePath)
+
+  if (sourceHash !== undefined && hashSource(source) !== sourceHash) {
+    return { summary, applied: [], invalid: false, changed: true }
+  }
+
+  const accepted = selectNonOverlappingFixes(fixable, source.length)
+
+  if (accepted.length === 0) {
+    return { summary, applied: [], invalid: false, changed: false }
+  }
+
+  const edits = sortEdits(accepted.flatMap((violation) => violation.fix ?? []))
+  let output = source
+
+  for (let index = edits.length - 1; index >= 0; index -= 1) {
+    const edit = edits[index]
+    output = `${output.slice(0, edit.start)}${edit.text}${output.slice(edit.end)}`
+  }
+
+  try {
+    parseSync(output, loadParseOptions(filePath) as unknown as Parameters<typeof parseSync>[1])
+  } catch {
+    return { summary, applied: [], invalid: true, changed: false }
+  }
+
+  if (mode === 'apply' && output !== source) {
+    fs.writeFileSync(filePath, output, 'utf-8')
+  }
+
+  const applied = accepted.map((violation) => {
+    const fix = violation.fix ?? []
+    return {
+      ruleName: violation.ruleName,
+      line: violation.line,
+      before: fix.map((edit) => source.slice(edit.start, edit.end)).join(' '),
+      after: fix.map((edit) => edit.text).join(' '),
+    }
+  })
+
+  if (mode === 'dry-run') {
+    return { summary, applied, invalid: false, changed: false }
+  }
+
+  const fixed = new Set(accepted)
+  const remap = createViolationRemapper(source, output, edits)
+  return {
+    summary: summarizeViolations(
+      summary.violations.filter((violation) => !fixed.has(violation)).map((violation) => remap(violation))
+    ),
+    applied,
+    invalid: false,
+    changed: false,
+  }
+}
+
+function selectNonOverlappingFixes(violations: ReadonlyArray<ViolationRecord>, sourceLength: number): ViolationRecord[] {
+  const candidates = violations
+    .map((violation) => ({ violation, edits: sortEdits(violation.fix ?? []) }))
+    .filter(({ edits }) => edits.every((edit) => edit.start >= 0 && edit.end <= sourceLength && edit.start <= edit.end))
+    .filter(({ edits }) => edits.every((edit, index) => index === 0 || edit.start >= edits[index - 1].end))
+    .sort((left, right) => left.edits[0].start - right.edits[0].start)
+
+  const accepted: ViolationRecord[] = []
+  let lastEnd = -1
+
+  for (const { violation, edits } of candidates) {
+    if (edits[0].start < lastEnd) {
+      continue
+    }
+
+    accepted.push(violation)
+    lastEnd = edits[edits.length - 1].end
+  }
+
+  return accepted
+}
+
+function sortEdits(edits: ReadonlyArray<FixEdit>): FixEdit[] {
+  return [...edits].sort((left, right) => left.start - right.start || left.end - right.end)
+}
+
+/**
+ * 把原源码上的违规位置换算到修复后的源码（edits 按位置升序且互不重叠）：
+ * - 行列先转成字符索引，按之前的 edit 累计偏移，落在被替换范围内的位置移到替换文本起点；
+ * - 未应用的 edit 同样平移，与已应用 edit 重叠的无法换算，直接移除（下一次 --fix 重新计算）。
+ */
+function createViolationRemapper(
+  source: string,
+  output: string,
+  edits: ReadonlyArray<FixEdit>
+): (violation: ViolationRecord) => ViolationRecord {
+  const before = createLineIndex(source)
+  const after = createLineIndex(output)
+
+  const mapOffset = (offset: number): number => {
+    let delta = 0
+
+    for (const edit of edits) {
+      if (offset < edit.start) {
+        break
+      }
+
+      if (offset < edit.end) {
+        return edit.start + delta
+      }
+
+      delta += edit.text.length - (edit.end - edit.start)
+    }
+
+    return offset + delta
+  }
+
+  const mapPosition = (line: number, column?: number): { line: number; column?: number } => {
+    const position = after.positionAt(mapOffset(before.offsetAt(line, column ?? 1)))
+    return column === undefined ? { line: position.line } : position
+  }
+
+  const overlapsApplied = (edit: FixEdit): boolean =>
+    edits.some(
+      (applied) => edit.start === applied.start || (edit.start < applied.end && applied.start < edit.end)
+    )
+
+  return (violation) => {
+    const next: ViolationRecord = { ...violation }
+
+    if (typeof violation.line === 'number') {
+      const start = mapPosition(violation.line, violation.column)
+      next.line = start.line
+      if (start.column !== undefined) {
+        next.column = start.column
+      }
+    }
+
+    if (typeof violation.endLine === 'number') {
+      const end = mapPosition(violation.endLine, violation.endColumn)
+      next.endLine = end.line
+      if (end.column !== undefined) {
+        next.endColumn = end.column
+      }
+    }
+
+    if (violation.fix) {
+      if (violation.fix.some(overlapsApplied)) {
+        delete next.fix
+      } else {
+        next.fix = violation.fix.map((edit) => ({
+          start: mapOffset(edit.start),
+          end: mapOffset(edit.end),
+          text: edit.text,
+        }))
+      }
+    }
+
+    return next
+  }
+}
+
+// 行列（从 1 开始，列按 UTF-16 计）与字符索引互转。
+function createLineIndex(text: string): {
+  offsetAt(line: number, column: number): number
+  positionAt(offset: number): { line: number; column: number }
+} {
+  const lineStarts = [0]
+
+  for (let index = 0; index < text.length; index += 1) {
+    if (text.charCodeAt(index) === 10) {
+      lineStarts.push(index + 1)
+    }
+  }
+
+  const offsetAt = (line: number, column: number): number => {
+    const lineIndex = Math.min(Math.max(line, 1), lineStarts.length) - 1
+    return Math.min(lineStarts[lineIndex] + Math.max(column, 1) - 1, text.length)
+  }
+
+  const positionAt = (offset: number): { line: number; column: number } => {
+    let low = 0
+    let high = lineStarts.length - 1
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (lineStarts[middle] <= offset) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+
+    return { line: low + 1, column: offset - lineStarts[low] + 1 }
+  }
+
+  return { offsetAt, positionAt }
+}
@@ -0,0 +1,145 @@
+import type { ImportGraph } from './types'
+
+/**
+ * 计算受变化影响的文件：变化文件本身 + 直接/间接依赖它们的文件。
+ * 循环依赖等跨文件规则的结果会随依赖方变化，因此沿反向依赖图传递。
+ */
+export function collectAffectedFiles(
+  changed: ReadonlyArray<string>,
+  knownFiles: ReadonlyArray<string>,
+  resolveImports: (filePath: string) => string[]
+): string[] {
+  const dependents = new Map<string, string[]>()
+
+  for (const filePath of knownFiles) {
+    for (const target of resolveImports(filePath)) {
+      const bucket = dependents.get(target)
+      if (bucket) {
+        bucket.push(filePath)
+      } else {
+        dependents.set(target, [filePath])
+      }
+    }
+  }
+
+  const affected = new Set<string>(changed)
+  const queue = [...changed]
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string
+    for (const dependent of dependents.get(current) ?? []) {
+      if (!affected.has(dependent)) {
+        affected.add(dependent)
+        queue.push(dependent)
+      }
+    }
+  }
+
+  const known = new Set(knownFiles)
+  return Array.from(affected).filter((filePath) => known.has(filePath))
+}
+
+/**
+ * 构建导入图：从扫描文件出发沿依赖展开（包含未扫描的项目内源码），
+ * 并用 Tarjan 算法找出存在环路的强连通分量。
+ */
+export function collectImportGraph(
+  files: ReadonlyArray<string>,
+  resolveImports: (filePath: string) => ReadonlyArray<string>
+): ImportGraph {
+  const scanned = new Set(files)
+  const adjacency = new Map<string, string[]>()
+  const queue = Array.from(scanned)
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string
+    if (adjacency.has(current)) {
+      continue
+    }
+
+    const targets = Array.from(new Set(resolveImports(current))).sort()
+    adjacency.set(current, targets)
+    targets.filter((target) => !adjacency.has(target)).forEach((target) => queue.push(target))
+  }
+
+  const nodes = Array.from(adjacency.keys()).sort()
+  const edges = nodes.flatMap((from) => (adjacency.get(from) ?? []).map((to) => ({ from, to })))
+  const components = findStronglyConnectedComponents(nodes, adjacency)
+    .filter((component) => component.length > 1 || (adjacency.get(component[0]) ?? []).includes(component[0]))
+    .map((component) => component.sort())
+    .sort((left, right) => right.length - left.length || (left[0] < right[0] ? -1 : 1))
+
+  return {
+    nodes: nodes.map((filePath) => ({ filePath, scanned: scanned.has(filePath) })),
+    edges,
+    components,
+  }
+}
+
+// Tarjan 强连通分量，使用显式栈迭代，避免依赖链过深时递归栈溢出。
+const findStronglyConnectedComponents = (
+  nodes: ReadonlyArray<string>,
+  adjacency: ReadonlyMap<string, ReadonlyArray<string>>
+): string[][] => {
+  const indexes = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const components: string[][] = []
+  let nextIndex = 0
+
+  for (const root of nodes) {
+    if (indexes.has(root)) {
+      continue
+    }
+
+    // 每一帧记录当前节点与下一个待访问的邻居下标。
+    const frames: Array<{ node: string; next: number }> = [{ node: root, next: 0 }]
+    indexes.set(root, nextIndex)
+    lowLinks.set(root, nextIndex)
+    nextIndex += 1
+    stack.push(root)
+    onStack.add(root)
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      const neighbors = adjacency.get(frame.node) ?? []
+
+      if (frame.next < neighbors.length) {
+        const neighbor = neighbors[frame.next]
+        frame.next += 1
+
+        if (!indexes.has(neighbor)) {
+          indexes.set(neighbor, nextIndex)
+          lowLinks.set(neighbor, nextIndex)
+          nextIndex += 1
+          stack.push(neighbor)
+          onStack.add(neighbor)
+          frames.push({ node: neighbor, next: 0 })
+        } else if (onStack.has(neighbor)) {
+          lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node) as number, indexes.get(neighbor) as number))
+        }
+        continue
+      }
+
+      frames.pop()
+      const parent = frames[frames.length - 1]
+      if (parent) {
+        lowLinks.set(parent.node, Math.min(lowLinks.get(parent.node) as number, lowLinks.get(frame.node) as number))
+      }
+
+      if (lowLinks.get(frame.node) === indexes.get(frame.node)) {
+        const component: string[] = []
+        let member: string | undefined
+        do {
+          member = stack.pop() as string
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== frame.node)
+        components.push(component)
+      }
+    }
+  }
+
+  return components
+}
@@ -0,0 +1,13 @@
+import { parseSync } from '@swc/wasm'
+import type { ProjectGraph } from 'auto-cr-rules'
+import { loadParseOptions } from '../config'
+import type { RulesRuntime } from './runtime'
+
+// 每次扫描构建一份模块图，扫描文件之外的依赖用与扫描相同的解析参数按需解析。
+export function createScanProjectGraph(rulesRuntime: RulesRuntime, files: ReadonlyArray<string>): ProjectGraph {
+  return rulesRuntime.createProjectGraph({
+    files,
+    parse: (source, filePath) =>
+      parseSync(source, loadParseOptions(filePath) as unknown as Parameters<typeof parseSync>[1]),
+  })
+}
@@ -2,10 +2,19 @@ import fs from 'fs'
 import path from 'path'
 import type { Rule } from 'auto-cr-rules'
 
+// auto-cr-cmd 以 workspace:* 依赖 auto-cr-rules，发布时固定为同一版本，因此运行时能力都按必定存在处理；
+// analyzeFile/finalize 中静态导入的 API 同样依赖这一点。
 export type RulesRuntime = {
   builtinRules: Rule[]
   createRuleContext: typeof import('auto-cr-rules').createRuleContext
   RuleSeverity: typeof import('auto-cr-rules').RuleSeverity
+  // 跨文件能力：模块图与 watch 模式的增量失效。
+  createProjectGraph: typeof import('auto-cr-rules').createProjectGraph
+  invalidateDependencyCaches: typeof import('auto-cr-rules').invalidateDependencyCaches
+  // 两阶段规则的 finalize 上下文。
+  createRuleProjectContext: typeof import('auto-cr-rules').createRuleProjectContext
+  // 未落盘源码的依赖解析（scanSource 使用）。
+  setSourceOverride: typeof import('auto-cr-rules').setSourceOverride
 }
 
 // 运行 TS 源码时优先加载本地 rules，避免开发时拿到旧的 workspace 依赖。
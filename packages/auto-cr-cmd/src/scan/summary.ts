@@ -0,0 +1,44 @@
+import { RuleSeverity } from 'auto-cr-rules'
+import type { ViolationRecord } from '../report'
+import type { AnalyzeFileSummary } from './types'
+
+// 由违规列表重新计算文件级统计（基线、diff 等后置过滤使用）。
+export function summarizeViolations(violations: ReadonlyArray<ViolationRecord>): AnalyzeFileSummary {
+  const severityCounts = { error: 0, warning: 0, optimizing: 0 }
+
+  for (const violation of violations) {
+    if (violation.severity === RuleSeverity.Error) {
+      severityCounts.error += 1
+    } else if (violation.severity === RuleSeverity.Warning) {
+      severityCounts.warning += 1
+    } else if (violation.severity === RuleSeverity.Optimizing) {
+      severityCounts.optimizing += 1
+    }
+  }
+
+  return {
+    severityCounts,
+    totalViolations: violations.length,
+    errorViolations: severityCounts.error,
+    violations,
+  }
+}
+
+// 合并同一文件的两份结果（如单文件规则与 finalize 上报的违规），计数直接相加，源码指纹沿用 base。
+export function mergeSummaries(base: AnalyzeFileSummary, extra?: AnalyzeFileSummary): AnalyzeFileSummary {
+  if (!extra) {
+    return base
+  }
+
+  return {
+    severityCounts: {
+      error: base.severityCounts.error + extra.severityCounts.error,
+      warning: base.severityCounts.warning + extra.severityCounts.warning,
+      optimizing: base.severityCounts.optimizing + extra.severityCounts.optimizing,
+    },
+    totalViolations: base.totalViolations + extra.totalViolations,
+    errorViolations: base.errorViolations + extra.errorViolations,
+    violations: [...base.violations, ...extra.violations],
+    ...(base.sourceHash ? { sourceHash: base.sourceHash } : {}),
+  }
+}
@@ -0,0 +1,275 @@
+import type { Module, Span } from '@swc/types'
+import type { ViolationRecord } from '../report'
+
+// 行内抑制注释：
+// - // auto-cr-disable-next-line rule-a, rule-b  抑制下一行；
+// - // auto-cr-disable-line rule-a              抑制当前行；
+// - /* auto-cr-disable rule-a */ ... /* auto-cr-enable rule-a */ 抑制一段区域；
+// - 不写规则名表示作用于全部规则；`--` 之后的内容视为说明文字。
+export type SuppressionKind = 'disable-next-line' | 'disable-line' | 'disable' | 'enable'
+
+export interface SuppressionDirective {
+  kind: SuppressionKind
+  ruleNames: string[]
+  // 注释所在行（多行块注释取起始行）。
+  line: number
+  // 注释结束行，disable-next-line 作用于其下一行。
+  endLine: number
+  // 规范化后的指令文本，用于未使用提示。
+  text: string
+}
+
+export interface SuppressionFilter {
+  isSuppressed(record: Pick<ViolationRecord, 'ruleName' | 'line'>): boolean
+  // 返回未抑制任何违规的 disable 类指令（enable 不参与统计）。
+  unusedDirectives(): SuppressionDirective[]
+}
+
+// 未使用的抑制注释以独立规则名输出，且自身不可被抑制。
+export const UNUSED_DISABLE_DIRECTIVE_RULE = 'unused-disable-directive'
+
+const DIRECTIVE_PATTERN = /^auto-cr-(disable-next-line|disable-line|disable|enable)(?:\s+([\s\S]*))?$/
+
+interface CommentToken {
+  value: string
+  line: number
+  endLine: number
+}
+
+// 从源码注释中解析抑制指令；ast 与 moduleStart 来自同一次 SWC 解析，用于排除字面量中形似注释的内容。
+export function parseSuppressionDirectives(
+  source: string,
+  ast: Module,
+  moduleStart: number
+): SuppressionDirective[] {
+  const directives: SuppressionDirective[] = []
+
+  for (const comment of collectComments(source, ast, moduleStart)) {
+    const directive = parseDirective(comment)
+    if (directive) {
+      directives.push(directive)
+    }
+  }
+
+  return directives
+}
+
+// 根据指令构建过滤器：按行判断违规是否被抑制，并记录每条指令是否生效。
+export function createSuppressionFilter(directives: ReadonlyArray<SuppressionDirective>): SuppressionFilter {
+  const used = new Set<SuppressionDirective>()
+  const lineDirectives = new Map<number, SuppressionDirective[]>()
+  const blockDirectives = directives
+    .filter((directive) => directive.kind === 'disable' || directive.kind === 'enable')
+    .sort((left, right) => left.line - right.line)
+
+  for (const directive of directives) {
+    if (directive.kind === 'disable-line') {
+      appendTo(lineDirectives, directive.line, directive)
+    } else if (directive.kind === 'disable-next-line') {
+      appendTo(lineDirectives, directive.endLine + 1, directive)
+    }
+  }
+
+  const findBlockDirective = (ruleName: string, line: number): SuppressionDirective | undefined => {
+    let disableAll: SuppressionDirective | undefined
+    const disabledRules = new Map<string, SuppressionDirective>()
+    const reenabledRules = new Set<string>()
+
+    for (const directive of blockDirectives) {
+      if (directive.line > line) {
+        break
+      }
+
+      if (directive.kind === 'disable') {
+        if (directive.ruleNames.length === 0) {
+          disableAll = directive
+          disabledRules.clear()
+          reenabledRules.clear()
+        } else {
+          directive.ruleNames.forEach((name) => {
+            disabledRules.set(name, directive)
+            reenabledRules.delete(name)
+          })
+        }
+        continue
+      }
+
+      if (directive.ruleNames.length === 0) {
+        disableAll = undefined
+        disabledRules.clear()
+        reenabledRules.clear()
+      } else {
+        directive.ruleNames.forEach((name) => {
+          disabledRules.delete(name)
+          if (disableAll) {
+            reenabledRules.add(name)
+          }
+        })
+      }
+    }
+
+    const ruleDirective = disabledRules.get(ruleName)
+    if (ruleDirective) {
+      return ruleDirective
+    }
+
+    return disableAll && !reenabledRules.has(ruleName) ? disableAll : undefined
+  }
+
+  const isSuppressed = ({ ruleName, line }: Pick<ViolationRecord, 'ruleName' | 'line'>): boolean => {
+    if (ruleName === UNUSED_DISABLE_DIRECTIVE_RULE || typeof line !== 'number') {
+      return false
+    }
+
+    const candidates = lineDirectives.get(line) ?? []
+    const matched = candidates.find((directive) => appliesTo(directive, ruleName))
+    if (matched) {
+      used.add(matched)
+      return true
+    }
+
+    const blockDirective = findBlockDirective(ruleName, line)
+    if (blockDirective) {
+      used.add(blockDirective)
+      return true
+    }
+
+    return false
+  }
+
+  const unusedDirectives = (): SuppressionDirective[] =>
+    directives.filter((directive) => directive.kind !== 'enable' && !used.has(directive))
+
+  return { isSuppressed, unusedDirectives }
+}
+
+function appliesTo(directive: SuppressionDirective, ruleName: string): boolean {
+  return directive.ruleNames.length === 0 || directive.ruleNames.includes(ruleName)
+}
+
+function appendTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const bucket = map.get(key)
+  if (bucket) {
+    bucket.push(value)
+  } else {
+    map.set(key, [value])
+  }
+}
+
+function parseDirective(comment: CommentToken): SuppressionDirective | null {
+  // 块注释支持 JSDoc 风格的前导星号。
+  const body = comment.value
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*\*\s?/, ''))
+    .join(' ')
+    .trim()
+  const match = body.match(DIRECTIVE_PATTERN)
+
+  if (!match) {
+    return null
+  }
+
+  const kind = match[1] as SuppressionKind
+  const rawRules = (match[2] ?? '').split(/\s--\s|^--\s|\s--$/)[0]
+  const ruleNames = rawRules
+    .split(/[\s,]+/)
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  return {
+    kind,
+    ruleNames,
+    line: comment.line,
+    endLine: comment.endLine,
+    text: ruleNames.length > 0 ? `auto-cr-${kind} ${ruleNames.join(', ')}` : `auto-cr-${kind}`,
+  }
+}
+
+// SWC 的解析结果不带注释，但字面量的 span 是准确的：把字符串、模板字符串片段、正则与 JSX 文本替换为空格后，
+// 剩余源码中的 // 与 /* 只可能是注释，无需再自行判断字符串与正则的边界。
+const LITERAL_NODE_TYPES = new Set(['StringLiteral', 'TemplateElement', 'RegExpLiteral', 'JSXText'])
+
+const SPACE = 0x20
+const NEWLINE = 0x0a
+
+function collectComments(source: string, ast: Module, moduleStart: number): CommentToken[] {
+  // span 为 UTF-8 byte offset，直接在字节上替换，换行保留以便计算行号。
+  const bytes = Buffer.from(source, 'utf-8')
+
+  collectLiteralSpans(ast).forEach(({ start, end }) => {
+    const stop = Math.min(end - moduleStart, bytes.length)
+    for (let offset = Math.max(start - moduleStart, 0); offset < stop; offset += 1) {
+      if (bytes[offset] !== NEWLINE) {
+        bytes[offset] = SPACE
+      }
+    }
+  })
+
+  const masked = bytes.toString('utf-8')
+  const comments: CommentToken[] = []
+  let line = 1
+  // shebang 行由 SWC 单独解析（Module.interpreter），不作为注释。
+  let index = 0
+  if (/^\ufeff?#!/.test(masked)) {
+    const end = masked.indexOf('\n')
+    index = end === -1 ? masked.length : end
+  }
+
+  while (index < masked.length) {
+    const char = masked[index]
+    const next = masked[index + 1]
+
+    if (char === '\n') {
+      line += 1
+      index += 1
+      continue
+    }
+
+    if (char === '/' && next === '/') {
+      const end = masked.indexOf('\n', index)
+      const stop = end === -1 ? masked.length : end
+      comments.push({ value: masked.slice(index + 2, stop), line, endLine: line })
+      index = stop
+      continue
+    }
+
+    if (char === '/' && next === '*') {
+      const end = masked.indexOf('*/', index + 2)
+      const stop = end === -1 ? masked.length : end
+      const value = masked.slice(index + 2, stop)
+      const startLine = line
+      line += value.split('\n').length - 1
+      comments.push({ value, line: startLine, endLine: line })
+      index = stop + 2
+      continue
+    }
+
+    index += 1
+  }
+
+  return comments
+}
+
+function collectLiteralSpans(node: unknown, spans: Span[] = []): Span[] {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectLiteralSpans(child, spans))
+    return spans
+  }
+
+  if (!node || typeof node !== 'object') {
+    return spans
+  }
+
+  const { type, span } = node as { type?: unknown; span?: Span }
+  if (typeof type === 'string' && LITERAL_NODE_TYPES.has(type) && span) {
+    spans.push(span)
+    return spans
+  }
+
+  Object.keys(node).forEach((key) => {
+    if (key !== 'span') {
+      collectLiteralSpans((node as Record<string, unknown>)[key], spans)
+    }
+  })
+  return spans
+}
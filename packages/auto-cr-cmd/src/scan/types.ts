@@ -1,4 +1,6 @@
 import type { ViolationRecord } from '../report'
+import type { RuleSeverity } from 'auto-cr-rules'
+import type { SuppressionDirective } from './suppressions'
 
 // 日志级别：与 consola 输出级别保持一致。
 export type NotificationLevel = 'info' | 'warn' | 'error'
@@ -24,4 +26,56 @@ export interface AnalyzeFileSummary {
   totalViolations: number
   errorViolations: number
   violations: ReadonlyArray<ViolationRecord>
+  // 两阶段规则 collect 的结果（规则名 -> 数据），由主线程汇总后交给 finalize。
+  collected?: Readonly<Record<string, unknown>>
+  // 文件中的 auto-cr-disable 指令，finalize 阶段的上报沿用同一份解析结果。
+  suppressions?: ReadonlyArray<SuppressionDirective>
+  // 扫描时的源码指纹（见 hashSource），自动修复前据此确认 edit 仍对应磁盘上的文件。
+  sourceHash?: string
+}
+
+// 单文件扫描结果（带路径），用于汇总输出。
+export interface FileScanResult {
+  filePath: string
+  severityCounts: FileSeveritySummary
+  totalViolations: number
+  errorViolations: number
+  violations: ReadonlyArray<ViolationRecord>
+}
+
+// 参与扫描的规则描述，供 SARIF 等需要规则元数据的输出格式使用。
+export interface ScannedRuleDescriptor {
+  name: string
+  tag?: string
+  severity?: RuleSeverity
+}
+
+// 项目导入图（--graph-out）：路径均为绝对路径，节点与边按路径排序，便于跨次对比。
+export interface ImportGraph {
+  // 扫描文件及其直接/间接依赖的项目内源码；scanned 为 false 的节点未参与本次扫描（如被忽略）。
+  nodes: Array<{ filePath: string; scanned: boolean }>
+  edges: Array<{ from: string; to: string }>
+  // 存在环路的强连通分量（多于一个文件，或文件导入自身），按文件数降序。
+  components: string[][]
+}
+
+// 整体扫描结果：统计、文件明细与日志。
+export interface ScanSummary {
+  scannedFiles: number
+  filesWithErrors: number
+  filesWithWarnings: number
+  filesWithOptimizing: number
+  violationTotals: {
+    total: number
+    error: number
+    warning: number
+    optimizing: number
+  }
+  files: FileScanResult[]
+  rules: ScannedRuleDescriptor[]
+  notifications: Notification[]
+  // 按 failOn/maxWarnings 判定本次扫描是否失败（CLI 据此以 1 退出）。
+  failed: boolean
+  // 仅在 AutoCrOptions.importGraph 开启时提供。
+  importGraph?: ImportGraph
 }
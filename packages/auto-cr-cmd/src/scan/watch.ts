@@ -0,0 +1,184 @@
+import fs from 'fs'
+import path from 'path'
+import type { ViolationRecord } from '../report'
+import type { FileScanResult } from './types'
+
+export interface WatchPathsOptions {
+  targets: string[]
+  // 返回 false 的路径不会触发重新扫描（如 node_modules、被 ignore 的文件）。
+  shouldHandle: (filePath: string) => boolean
+  // changed 为本轮变化的绝对路径（已去重，包含新增/删除的文件）。
+  onChange: (changed: string[]) => Promise<void>
+  onError?: (error: unknown) => void
+  debounceMs?: number
+}
+
+export interface PathWatcher {
+  close(): void
+}
+
+const DEFAULT_DEBOUNCE_MS = 100
+
+/**
+ * 监听文件/目录变化：
+ * - 目录使用递归监听；平台不支持时退回到逐个目录监听（新建的子目录不会被追踪）；
+ * - 文件监听其所在目录，兼容编辑器“写临时文件再重命名”的保存方式；
+ * - 事件按 debounce 合并，且上一轮处理完成前不会开始下一轮。
+ */
+export function watchPaths(options: WatchPathsOptions): PathWatcher {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS
+  const watchers: fs.FSWatcher[] = []
+  const pending = new Set<string>()
+  let timer: NodeJS.Timeout | null = null
+  let running = false
+  let closed = false
+
+  const flush = async (): Promise<void> => {
+    timer = null
+    if (running || closed || pending.size === 0) {
+      return
+    }
+
+    const changed = Array.from(pending)
+    pending.clear()
+    running = true
+
+    try {
+      await options.onChange(changed)
+    } catch (error) {
+      options.onError?.(error)
+    } finally {
+      running = false
+      // 处理期间积累的新事件在本轮结束后继续处理。
+      if (pending.size > 0 && !closed) {
+        schedule()
+      }
+    }
+  }
+
+  const schedule = (): void => {
+    if (timer) {
+      clearTimeout(timer)
+    }
+    timer = setTimeout(() => {
+      void flush()
+    }, debounceMs)
+  }
+
+  // 不区分 change/rename：很多编辑器保存时会先写临时文件再重命名，是否新增/删除由调用方检查文件是否存在。
+  const record = (filePath: string): void => {
+    if (!options.shouldHandle(filePath)) {
+      return
+    }
+
+    pending.add(filePath)
+    schedule()
+  }
+
+  const watchDirectory = (dir: string, recursive: boolean, filter?: (filePath: string) => boolean): void => {
+    const watcher = fs.watch(dir, { recursive }, (_eventType, fileName) => {
+      if (!fileName) {
+        return
+      }
+
+      const filePath = path.resolve(dir, fileName.toString())
+      if (!filter || filter(filePath)) {
+        record(filePath)
+      }
+    })
+    watcher.on('error', (error) => options.onError?.(error))
+    watchers.push(watcher)
+  }
+
+  const watchTree = (dir: string): void => {
+    try {
+      watchDirectory(dir, true)
+    } catch {
+      listDirectories(dir).forEach((subDir) => watchDirectory(subDir, false))
+    }
+  }
+
+  const watchedFiles = new Map<string, Set<string>>()
+
+  for (const target of options.targets) {
+    const stat = fs.statSync(target)
+    if (stat.isDirectory()) {
+      watchTree(target)
+      continue
+    }
+
+    const dir = path.dirname(target)
+    const files = watchedFiles.get(dir) ?? new Set<string>()
+    files.add(target)
+    watchedFiles.set(dir, files)
+  }
+
+  watchedFiles.forEach((files, dir) => watchDirectory(dir, false, (filePath) => files.has(filePath)))
+
+  return {
+    close: () => {
+      closed = true
+      if (timer) {
+        clearTimeout(timer)
+      }
+      watchers.forEach((watcher) => watcher.close())
+    },
+  }
+}
+
+function listDirectories(root: string): string[] {
+  const result = [root]
+
+  for (const entry of safeReadDir(root)) {
+    if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+      result.push(...listDirectories(path.join(root, entry.name)))
+    }
+  }
+
+  return result
+}
+
+function safeReadDir(dir: string): fs.Dirent[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+}
+
+// 对比同一批文件扫描前后的违规，统计新增与已解决的数量（按 规则 + 文案 + 代码 计数，忽略行号变化）。
+export function diffViolationCounts(
+  before: ReadonlyArray<FileScanResult>,
+  after: ReadonlyArray<FileScanResult>
+): { added: number; resolved: number } {
+  const counts = new Map<string, number>()
+  const keyOf = (filePath: string, violation: ViolationRecord): string =>
+    [filePath, violation.ruleName, violation.message, violation.code ?? ''].join('\0')
+
+  before.forEach((file) =>
+    file.violations.forEach((violation) => {
+      const key = keyOf(file.filePath, violation)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    })
+  )
+
+  let added = 0
+  after.forEach((file) =>
+    file.violations.forEach((violation) => {
+      const key = keyOf(file.filePath, violation)
+      const remaining = counts.get(key) ?? 0
+      if (remaining > 0) {
+        counts.set(key, remaining - 1)
+      } else {
+        added += 1
+      }
+    })
+  )
+
+  let resolved = 0
+  counts.forEach((remaining) => {
+    resolved += remaining
+  })
+
+  return { added, resolved }
+}
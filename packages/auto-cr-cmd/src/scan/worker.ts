@@ -1,9 +1,10 @@
 import { parentPort, workerData } from 'worker_threads'
 import { setLanguage } from '../i18n'
 import { setTsConfigPath } from '../config'
-import { applyRuleConfig } from '../config/autocrrc'
+import { createRuleResolver, createRuleSettingsResolver } from '../config/autocrrc'
 import { loadCustomRules } from '../rules/loader'
 import { analyzeFile } from './analyzeFile'
+import { createScanProjectGraph } from './project'
 import { loadRulesRuntime } from './runtime'
 import type { Logger, Notification, NotificationLevel } from './types'
 import type { WorkerInboundMessage, WorkerInitData, WorkerOutboundMessage } from './workerTypes'
@@ -20,8 +21,15 @@ const builtinRules = rulesRuntime.builtinRules
 const createRuleContext = rulesRuntime.createRuleContext
 // 自定义规则加载失败不在 worker 中输出，避免多 worker 重复日志。
 const customRules = loadCustomRules(initData.ruleDir, { onWarning: () => {} })
-// 规则配置在 worker 中生效，确保与主线程扫描结果一致。
-const rules = applyRuleConfig([...builtinRules, ...customRules], initData.ruleSettings, () => {})
+// 规则配置在 worker 中按文件解析，确保与主线程扫描结果一致；配置 warning 已由主线程输出。
+const availableRules = [...builtinRules, ...customRules]
+const resolveRules = createRuleResolver(
+  availableRules,
+  createRuleSettingsResolver(initData.autocrrc ?? {}, availableRules),
+  () => {}
+)
+// 每个 worker 持有独立的模块图，未分配到本 worker 的文件在被查询时按需解析。
+const projectGraph = createScanProjectGraph(rulesRuntime, initData.projectFiles ?? [])
 
 const port = parentPort
 
@@ -58,6 +66,19 @@ port.on('message', async (message: WorkerInboundMessage) => {
     return
   }
 
+  if (message.type === 'invalidate') {
+    rulesRuntime.invalidateDependencyCaches?.(message.filePaths)
+    projectGraph.invalidate(message.filePaths)
+    if (message.projectFiles) {
+      projectGraph.setFiles(message.projectFiles)
+    }
+    if (!message.filePaths) {
+      // 全量失效时同时重置 tsconfig 解析缓存，保证解析参数与主线程一致。
+      setTsConfigPath(initData.tsconfigPath)
+    }
+    return
+  }
+
   const { id, filePath } = message
   const logs: Notification[] = []
   // 只收集日志，不直接输出，保持主线程统一渲染。
@@ -67,7 +88,10 @@ port.on('message', async (message: WorkerInboundMessage) => {
 
   try {
     // format 固定为 json，确保 worker 不直接输出。
-    const summary = await analyzeFile(filePath, rules, 'json', log, createRuleContext)
+    const summary = await analyzeFile(filePath, resolveRules(filePath), 'json', log, createRuleContext, undefined, {
+      reportUnusedDisableDirectives: initData.reportUnusedDisableDirectives,
+      project: projectGraph,
+    })
     const payload: WorkerOutboundMessage = {
       type: 'result',
       id,
@@ -17,7 +17,28 @@ export interface WorkerPoolOptions {
   onResult: (result: WorkerFileResult) => void
 }
 
-// 创建 worker 池并分发任务，结果通过回调抛给主线程处理。
+export interface PersistentWorkerPoolOptions {
+  workerCount: number
+  initData: WorkerInitData
+}
+
+// 常驻 worker 池：watch 模式下跨多轮扫描复用 worker，避免每次重新初始化 SWC wasm 与规则。
+export interface WorkerPool {
+  run(files: string[], onResult: (result: WorkerFileResult) => void): Promise<void>
+  // 通知所有 worker 失效跨文件缓存（不传 filePaths 表示全部清空），projectFiles 为最新的扫描文件列表。
+  invalidate(filePaths?: string[], projectFiles?: string[]): void
+  close(): Promise<void>
+}
+
+interface ActiveRun {
+  tasks: Array<{ id: number; filePath: string }>
+  nextTaskIndex: number
+  completed: number
+  onResult: (result: WorkerFileResult) => void
+  finish: (error?: Error) => void
+}
+
+// 创建 worker 池并分发任务（一次性），结果通过回调抛给主线程处理。
 export async function runWorkerPool(options: WorkerPoolOptions): Promise<void> {
   const { files, workerCount, initData, onResult } = options
 
@@ -25,28 +46,56 @@ export async function runWorkerPool(options: WorkerPoolOptions): Promise<void> {
     return
   }
 
+  const pool = createWorkerPool({ workerCount, initData })
+
+  // 不论成功/失败都终止 worker，避免孤儿线程占用资源。
+  try {
+    await pool.run(files, onResult)
+  } finally {
+    await pool.close()
+  }
+}
+
+/**
+ * 创建常驻 worker 池：
+ * - worker 按需启动，数量不超过 workerCount；
+ * - 同一时刻只执行一轮 run，任务按空闲 worker 逐个分发；
+ * - 任一 worker 出错时终止全部 worker 并让本轮失败，下一轮按需重新启动。
+ */
+export function createWorkerPool(options: PersistentWorkerPoolOptions): WorkerPool {
+  const { workerCount, initData } = options
   const { entry, execArgv } = resolveWorkerEntry()
-  // 用 index 作为任务 ID，主线程可按 ID 还原扫描顺序。
-  const tasks = files.map((filePath, index) => ({ id: index, filePath }))
   const workers: Worker[] = []
-  let nextTaskIndex = 0
-  let completed = 0
+  const idleWorkers: Worker[] = []
+  let activeRun: ActiveRun | null = null
 
-  // 不论成功/失败都终止 worker，避免孤儿线程占用资源。
   const terminateAll = async (): Promise<void> => {
-    await Promise.all(workers.map((worker) => worker.terminate()))
+    const snapshot = workers.splice(0, workers.length)
+    idleWorkers.length = 0
+    await Promise.all(snapshot.map((worker) => worker.terminate()))
+  }
+
+  const failActiveRun = (error: Error): void => {
+    const run = activeRun
+    if (!run) {
+      return
+    }
+
+    activeRun = null
+    // 失败时其余 worker 可能仍在处理旧任务，直接终止，避免结果串到下一轮。
+    void terminateAll().finally(() => run.finish(error))
   }
 
-  // 将任务分配给空闲 worker；无任务时发送 shutdown。
+  // 将任务分配给空闲 worker；没有剩余任务时把 worker 放回空闲队列。
   const assignTask = (worker: Worker): void => {
-    if (nextTaskIndex >= tasks.length) {
-      const shutdown: WorkerInboundMessage = { type: 'shutdown' }
-      worker.postMessage(shutdown)
+    const run = activeRun
+    if (!run || run.nextTaskIndex >= run.tasks.length) {
+      idleWorkers.push(worker)
       return
     }
 
-    const task = tasks[nextTaskIndex]
-    nextTaskIndex += 1
+    const task = run.tasks[run.nextTaskIndex]
+    run.nextTaskIndex += 1
     const message: WorkerInboundMessage = {
       type: 'analyze',
       id: task.id,
@@ -55,73 +104,119 @@ export async function runWorkerPool(options: WorkerPoolOptions): Promise<void> {
     worker.postMessage(message)
   }
 
-  await new Promise<void>((resolve, reject) => {
-    let settled = false
+  const startWorker = (): Worker => {
+    const worker = new Worker(entry, {
+      workerData: initData,
+      execArgv: execArgv.length > 0 ? execArgv : undefined,
+    })
 
-    // 只允许 resolve/reject 一次，避免重复触发导致未捕获异常。
-    const finish = (error?: Error): void => {
-      if (settled) {
+    worker.on('message', (payload: WorkerOutboundMessage) => {
+      const run = activeRun
+      if (!run) {
         return
       }
-      settled = true
-      if (error) {
-        reject(error)
-      } else {
-        resolve()
+
+      if (payload.type === 'error') {
+        failActiveRun(new Error(payload.message))
+        return
       }
-    }
 
-    const startWorker = (): Worker => {
-      const worker = new Worker(entry, {
-        workerData: initData,
-        execArgv: execArgv.length > 0 ? execArgv : undefined,
+      // 把单文件结果交回主线程，由主线程决定输出/汇总策略。
+      run.onResult({
+        id: payload.id,
+        filePath: payload.filePath,
+        summary: payload.summary,
+        logs: payload.logs,
       })
 
-      worker.on('message', (payload: WorkerOutboundMessage) => {
-        if (payload.type === 'error') {
-          finish(new Error(payload.message))
-          return
-        }
-
-        // 把单文件结果交回主线程，由主线程决定输出/汇总策略。
-        onResult({
-          id: payload.id,
-          filePath: payload.filePath,
-          summary: payload.summary,
-          logs: payload.logs,
-        })
-
-        completed += 1
-        if (completed >= tasks.length) {
-          finish()
-          return
-        }
-
-        assignTask(worker)
-      })
+      run.completed += 1
+      if (run.completed >= run.tasks.length) {
+        activeRun = null
+        idleWorkers.push(worker)
+        run.finish()
+        return
+      }
 
-      worker.on('error', (error) => {
-        finish(error instanceof Error ? error : new Error(String(error)))
-      })
+      assignTask(worker)
+    })
 
-      worker.on('exit', (code) => {
-        // 非 0 退出视为异常，且只在任务未完成时失败。
-        if (code !== 0 && completed < tasks.length) {
-          finish(new Error(`Worker exited with code ${code}`))
-        }
-      })
+    worker.on('error', (error) => {
+      failActiveRun(error instanceof Error ? error : new Error(String(error)))
+    })
 
-      assignTask(worker)
-      return worker
+    worker.on('exit', (code) => {
+      const index = workers.indexOf(worker)
+      if (index >= 0) {
+        workers.splice(index, 1)
+      }
+      const idleIndex = idleWorkers.indexOf(worker)
+      if (idleIndex >= 0) {
+        idleWorkers.splice(idleIndex, 1)
+      }
+
+      // 非 0 退出视为异常，且只在有任务进行时失败。
+      if (code !== 0) {
+        failActiveRun(new Error(`Worker exited with code ${code}`))
+      }
+    })
+
+    workers.push(worker)
+    return worker
+  }
+
+  const run = (files: string[], onResult: (result: WorkerFileResult) => void): Promise<void> => {
+    if (files.length === 0) {
+      return Promise.resolve()
     }
 
-    const actualCount = Math.max(1, Math.min(workerCount, tasks.length))
-    for (let index = 0; index < actualCount; index += 1) {
-      workers.push(startWorker())
+    if (activeRun) {
+      return Promise.reject(new Error('Worker pool is busy'))
     }
-  }).finally(async () => {
+
+    return new Promise<void>((resolve, reject) => {
+      let settled = false
+
+      activeRun = {
+        // 用 index 作为任务 ID，主线程可按 ID 还原扫描顺序。
+        tasks: files.map((filePath, index) => ({ id: index, filePath })),
+        nextTaskIndex: 0,
+        completed: 0,
+        onResult,
+        // 只允许 resolve/reject 一次，避免重复触发导致未捕获异常。
+        finish: (error?: Error) => {
+          if (settled) {
+            return
+          }
+          settled = true
+          if (error) {
+            reject(error)
+          } else {
+            resolve()
+          }
+        },
+      }
+
+      const targetCount = Math.max(1, Math.min(workerCount, files.length))
+      while (workers.length < targetCount) {
+        idleWorkers.push(startWorker())
+      }
+
+      // 先取出当前空闲的 worker 再分发，避免分发过程中修改队列。
+      const available = idleWorkers.splice(0, idleWorkers.length)
+      available.forEach((worker) => assignTask(worker))
+    })
+  }
+
+  const invalidate = (filePaths?: string[], projectFiles?: string[]): void => {
+    const message: WorkerInboundMessage = { type: 'invalidate', filePaths, projectFiles }
+    workers.forEach((worker) => worker.postMessage(message))
+  }
+
+  const close = async (): Promise<void> => {
     await terminateAll()
-  })
+  }
+
+  return { run, invalidate, close }
 }
 
 // Worker 入口解析：开发态使用 ts-node，构建产物直接使用 JS。
@@ -1,12 +1,16 @@
-import type { RuleSettingInput } from '../config/autocrrc'
+import type { AutoCrRcSource } from '../config/autocrrc'
 import type { AnalyzeFileSummary, Notification } from './types'
 
 // Worker 启动参数：由主线程传入，用于初始化规则与解析配置。
 export interface WorkerInitData {
   ruleDir?: string
-  ruleSettings?: Record<string, RuleSettingInput>
+  // 基础 .autocrrc 快照；嵌套配置与 overrides 由 worker 按文件自行解析。
+  autocrrc?: AutoCrRcSource
   language: string
   tsconfigPath?: string
+  reportUnusedDisableDirectives?: boolean
+  // 本次扫描的全部文件，worker 据此构建自己的模块图。
+  projectFiles?: string[]
 }
 
 // 主线程 -> worker：请求分析单个文件。
@@ -16,6 +20,14 @@ export interface WorkerTaskMessage {
   filePath: string
 }
 
+// 主线程 -> worker：失效跨文件缓存（watch 模式）；filePaths 为空表示全部清空。
+export interface WorkerInvalidateMessage {
+  type: 'invalidate'
+  filePaths?: string[]
+  // 扫描文件有增删时附带最新的文件列表。
+  projectFiles?: string[]
+}
+
 // 主线程 -> worker：结束信号。
 export interface WorkerShutdownMessage {
   type: 'shutdown'
@@ -38,5 +50,5 @@ export interface WorkerErrorMessage {
   message: string
 }
 
-export type WorkerInboundMessage = WorkerTaskMessage | WorkerShutdownMessage
+export type WorkerInboundMessage = WorkerTaskMessage | WorkerInvalidateMessage | WorkerShutdownMessage
 export type WorkerOutboundMessage = WorkerResultMessage | WorkerErrorMessage
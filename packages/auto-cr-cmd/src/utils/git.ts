@@ -0,0 +1,144 @@
+import { execFileSync } from 'child_process'
+import path from 'path'
+import { getTranslator } from '../i18n'
+import { normalizeInputPath } from './path'
+
+// 变更行区间（闭区间，1-based）。
+export interface LineRange {
+  start: number
+  end: number
+}
+
+// key 为文件绝对路径，value 为新增/修改的行区间。
+export type ChangedFiles = Map<string, LineRange[]>
+
+export interface GitDiffOptions {
+  // 对比的基准 ref；不传时对比 HEAD（--staged）或暂存区（工作区改动）。
+  base?: string
+  // 只看已暂存的改动（git diff --cached）。
+  staged?: boolean
+  cwd?: string
+}
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/
+
+/**
+ * 通过 git diff 收集变更文件与变更行：
+ * - 使用 --unified=0，只保留新增/修改行，删除行不计入；
+ * - 显式指定 a/、b/ 前缀，不受用户 diff.mnemonicPrefix / diff.noprefix 配置影响；
+ * - 忽略已删除文件，重命名按新路径计算；
+ * - 非 --staged 模式下，未跟踪的新文件视为整文件变更。
+ */
+export function collectGitChanges(options: GitDiffOptions = {}): ChangedFiles {
+  const cwd = options.cwd ?? process.cwd()
+  const root = runGit(['rev-parse', '--show-toplevel'], cwd).trim()
+  const args = [
+    'diff',
+    '--unified=0',
+    '--no-color',
+    '--no-ext-diff',
+    '--src-prefix=a/',
+    '--dst-prefix=b/',
+    '--diff-filter=ACMR',
+  ]
+
+  if (options.staged) {
+    args.push('--cached')
+  }
+
+  if (options.base) {
+    args.push(options.base)
+  }
+
+  args.push('--')
+
+  const changes = parseUnifiedDiff(runGit(args, root), root)
+
+  if (!options.staged) {
+    const untracked = runGit(['ls-files', '--others', '--exclude-standard', '-z'], root)
+      .split('\0')
+      .filter(Boolean)
+
+    for (const relativePath of untracked) {
+      changes.set(path.resolve(root, relativePath), [{ start: 1, end: Number.MAX_SAFE_INTEGER }])
+    }
+  }
+
+  return changes
+}
+
+export function isLineChanged(ranges: ReadonlyArray<LineRange>, line: number): boolean {
+  return ranges.some((range) => line >= range.start && line <= range.end)
+}
+
+// 解析 git diff --unified=0 的输出，路径相对 root 解析为绝对路径。
+export function parseUnifiedDiff(output: string, root: string): ChangedFiles {
+  const changes: ChangedFiles = new Map()
+  let currentRanges: LineRange[] | null = null
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = parseDiffPath(line.slice(4))
+      if (target === null) {
+        currentRanges = null
+        continue
+      }
+
+      currentRanges = []
+      changes.set(path.resolve(root, target), currentRanges)
+      continue
+    }
+
+    if (!currentRanges || !line.startsWith('@@')) {
+      continue
+    }
+
+    const match = line.match(HUNK_HEADER_PATTERN)
+    if (!match) {
+      continue
+    }
+
+    const start = Number(match[1])
+    const count = match[2] === undefined ? 1 : Number(match[2])
+
+    // count 为 0 表示纯删除，新文件中没有对应行。
+    if (count > 0) {
+      currentRanges.push({ start, end: start + count - 1 })
+    }
+  }
+
+  return changes
+}
+
+// 解析 "+++ b/path" 行；路径可能被 git 以 C 风格加引号（含非 ASCII 字符时）。
+function parseDiffPath(raw: string): string | null {
+  const decoded = normalizeInputPath(raw.replace(/\t$/, ''))
+
+  if (decoded === '/dev/null') {
+    return null
+  }
+
+  return decoded.startsWith('b/') ? decoded.slice(2) : decoded
+}
+
+function runGit(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: GIT_MAX_BUFFER,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+  } catch (error) {
+    // 优先使用 git 自身的 stderr（如 unknown revision / not a git repository）。
+    const stderr = (error as { stderr?: unknown }).stderr
+    const detail =
+      typeof stderr === 'string' && stderr.trim()
+        ? stderr.trim()
+        : error instanceof Error
+          ? error.message
+          : String(error)
+    throw new Error(getTranslator().gitDiffFailed({ command: `git ${args.join(' ')}`, error: detail }))
+  }
+}
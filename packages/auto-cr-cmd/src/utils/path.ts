@@ -1,3 +1,5 @@
+import path from 'path'
+
 const ESCAPE_BYTES: Record<string, number> = {
   a: 0x07,
   b: 0x08,
@@ -94,3 +96,18 @@ const decodeGitQuotedPath = (input: string): string => {
 
 // 兼容 git quotePath 输出的 C-style 字符串，确保非 ASCII 路径可解析。
 export const normalizeInputPath = (input: string): string => decodeGitQuotedPath(input)
+
+// 工作目录内的文件转为相对 cwd 的 POSIX 路径；不在工作目录内时返回 null。
+export const toRelativePosixPath = (filePath: string, cwd: string): string | null => {
+  const relative = path.relative(cwd, filePath)
+
+  if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative.split(path.sep).join('/')
+  }
+
+  return null
+}
+
+// 报告中展示的文件路径：工作目录内的文件展示相对路径，其余保留绝对路径（统一为 POSIX 分隔符）。
+export const toDisplayPath = (filePath: string, cwd: string): string =>
+  toRelativePosixPath(filePath, cwd) ?? filePath.split(path.sep).join('/')
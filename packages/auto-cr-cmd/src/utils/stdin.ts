@@ -72,3 +72,22 @@ export async function readPathsFromStdin(shouldForceRead: boolean): Promise<stri
     }
   })
 }
+
+// 读取 STDIN 的全部内容作为源码（--stdin-code），保持原样不做切分。
+export async function readSourceFromStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+
+    process.stdin.on('data', (chunk: Buffer) => {
+      chunks.push(chunk)
+    })
+
+    process.stdin.on('error', (error) => {
+      reject(error)
+    })
+
+    process.stdin.on('end', () => {
+      resolve(Buffer.concat(chunks).toString('utf8'))
+    })
+  })
+}
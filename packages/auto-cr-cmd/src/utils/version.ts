@@ -0,0 +1,13 @@
+import fs from 'fs'
+import path from 'path'
+
+// 版本号从包的 package.json 读取；src 与 dist 目录层级一致，相对路径可以复用。
+export function readToolVersion(): string | undefined {
+  try {
+    const raw = fs.readFileSync(path.resolve(__dirname, '../../package.json'), 'utf-8')
+    const pkg = JSON.parse(raw) as { version?: unknown }
+    return typeof pkg.version === 'string' ? pkg.version : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,95 @@
+import assert from 'assert'
+import fs from 'fs'
+import { after, describe, it } from 'node:test'
+import { createAutoCr, type AutoCrOptions } from '../src'
+import { loadBaseline } from '../src/scan/baseline'
+import { createFixture } from './helpers'
+
+// 基线：指纹不含行号、部分扫描更新时保留其他文件记录、语言不一致提示。
+
+const SWALLOWED = 'try { run() } catch (error) {}\n'
+
+const fixture = createFixture({
+  'src/a.ts': SWALLOWED,
+  'src/b.ts': SWALLOWED,
+})
+
+after(() => fixture.cleanup())
+
+const scan = async (files: string[], options: AutoCrOptions = {}) =>
+  createAutoCr({ language: 'en', ...options }).scanFiles(files.map((file) => fixture.resolve(file)))
+
+const readEntries = (baselinePath: string) =>
+  JSON.parse(fs.readFileSync(baselinePath, 'utf-8')).violations as Array<{
+    filePath: string
+    count: number
+  }>
+
+describe('baseline fingerprints', () => {
+  const baselinePath = fixture.resolve('fingerprints.json')
+
+  it('suppresses recorded problems after the code moves to other lines', async () => {
+    await scan(['src/a.ts'], { baselinePath, updateBaseline: true })
+    fixture.write('src/a.ts', `\n\n// moved\n${SWALLOWED}`)
+
+    const summary = await scan(['src/a.ts'], { baselinePath })
+    assert.strictEqual(summary.violationTotals.total, 0)
+  })
+
+  it('reports occurrences beyond the recorded count', async () => {
+    fixture.write('src/a.ts', `${SWALLOWED}${SWALLOWED}`)
+
+    const summary = await scan(['src/a.ts'], { baselinePath })
+    assert.strictEqual(summary.violationTotals.total, 1)
+    fixture.write('src/a.ts', SWALLOWED)
+  })
+})
+
+describe('baseline updates', () => {
+  const baselinePath = fixture.resolve('partial.json')
+
+  it('keeps entries for files outside a partial scan', async () => {
+    await scan(['src/a.ts', 'src/b.ts'], { baselinePath, updateBaseline: true })
+    assert.strictEqual(readEntries(baselinePath).length, 2)
+
+    fixture.write('src/a.ts', 'export const fixed = 1\n')
+    await scan(['src/a.ts'], { baselinePath, updateBaseline: true })
+
+    const entries = readEntries(baselinePath)
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.filePath),
+      [fixture.resolve('src/b.ts')]
+    )
+    assert.strictEqual((await scan(['src/b.ts'], { baselinePath })).violationTotals.total, 0)
+    fixture.write('src/a.ts', SWALLOWED)
+  })
+
+  it('rejects updating the baseline in diff mode', async () => {
+    await assert.rejects(
+      scan(['src/a.ts'], {
+        baselinePath,
+        updateBaseline: true,
+        changedFiles: new Map([[fixture.resolve('src/a.ts'), [{ start: 1, end: 1 }]]]),
+      }),
+      /--update-baseline cannot be combined with --diff/
+    )
+  })
+})
+
+describe('baseline language', () => {
+  it('warns when the baseline was written in another language', async () => {
+    const baselinePath = fixture.resolve('language.json')
+    await scan(['src/a.ts'], { baselinePath, updateBaseline: true })
+
+    assert.deepStrictEqual(loadBaseline(baselinePath, 'en').warnings, [])
+    assert.match(loadBaseline(baselinePath, 'zh').warnings.join('\n'), /en/)
+
+    const notifications: string[] = []
+    await scan(['src/a.ts'], {
+      baselinePath,
+      language: 'zh',
+      hooks: { onNotification: (record) => notifications.push(record.message) },
+    })
+    assert.ok(notifications.some((message) => message.includes('基线文件按语言 en 生成')))
+  })
+})
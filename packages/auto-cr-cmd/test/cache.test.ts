@@ -0,0 +1,96 @@
+import assert from 'assert'
+import { defineRule } from 'auto-cr-rules'
+import { after, beforeEach, describe, it } from 'node:test'
+import { createAutoCr, type AutoCrOptions } from '../src'
+import type { AutoCrRcConfig } from '../src/config/autocrrc'
+import { createFixture } from './helpers'
+
+// 结果缓存：未变化的文件复用结果，依赖变化使导入方失效，按文件生效的规则配置变化使该文件失效。
+
+const fixture = createFixture({
+  'src/a.ts': "import { b } from './b'\ntry { b() } catch (error) {}\n",
+  'src/b.ts': 'export const b = () => 1\n',
+  'src/c.ts': 'try { run() } catch (error) {}\n',
+})
+
+// 内联配置的 overrides 相对工作目录匹配。
+const originalCwd = process.cwd()
+process.chdir(fixture.dir)
+
+after(() => {
+  process.chdir(originalCwd)
+  fixture.cleanup()
+})
+
+// 记录实际执行规则的文件，命中缓存的文件不会出现在这里。
+const scanned: string[] = []
+const trackRuns = defineRule('track-runs', ({ filePath }) => {
+  scanned.push(filePath)
+})
+
+beforeEach(() => {
+  scanned.length = 0
+})
+
+const FILES = ['src/a.ts', 'src/b.ts', 'src/c.ts']
+
+const scan = async (cachePath: string, config: AutoCrRcConfig = {}, options: AutoCrOptions = {}) =>
+  createAutoCr({ language: 'en', rules: [trackRuns], config, cachePath, ...options }).scanFiles(
+    FILES.map((file) => fixture.resolve(file))
+  )
+
+const scannedFiles = () => scanned.map((filePath) => filePath.slice(fixture.dir.length + 1)).sort()
+
+describe('result cache', () => {
+  it('reuses results for unchanged files', async () => {
+    const cachePath = fixture.resolve('reuse.cache')
+    const first = await scan(cachePath)
+    assert.deepStrictEqual(scannedFiles(), FILES)
+
+    scanned.length = 0
+    const second = await scan(cachePath)
+    assert.deepStrictEqual(scannedFiles(), [])
+    assert.deepStrictEqual(second.violationTotals, first.violationTotals)
+  })
+
+  it('rescans importers when a dependency changes', async () => {
+    const cachePath = fixture.resolve('imports.cache')
+    await scan(cachePath)
+
+    scanned.length = 0
+    fixture.write('src/b.ts', 'export const b = () => 2\n')
+    await scan(cachePath)
+    assert.deepStrictEqual(scannedFiles(), ['src/a.ts', 'src/b.ts'])
+  })
+
+  it('rescans files whose inline override settings change', async () => {
+    const cachePath = fixture.resolve('overrides.cache')
+    const before = await scan(cachePath)
+    assert.strictEqual(before.violationTotals.warning, 2)
+
+    scanned.length = 0
+    const after = await scan(cachePath, {
+      overrides: [{ files: 'src/c.ts', rules: { 'no-swallowed-errors': 'off' } }],
+    })
+    assert.deepStrictEqual(scannedFiles(), ['src/c.ts'])
+    assert.strictEqual(after.violationTotals.warning, 1)
+  })
+
+  it('rescans files whose nested config settings change', async () => {
+    const cachePath = fixture.resolve('nested.cache')
+    await scan(cachePath)
+
+    scanned.length = 0
+    fixture.write(
+      'src/.autocrrc.json',
+      JSON.stringify({ rules: { 'no-swallowed-errors': 'error' } })
+    )
+    try {
+      const summary = await scan(cachePath)
+      assert.deepStrictEqual(scannedFiles(), FILES)
+      assert.strictEqual(summary.violationTotals.error, 2)
+    } finally {
+      fixture.write('src/.autocrrc.json', '{}')
+    }
+  })
+})
@@ -0,0 +1,184 @@
+import assert from 'assert'
+import { builtinRules } from 'auto-cr-rules'
+import { after, before, describe, it } from 'node:test'
+import { createAutoCr } from '../src'
+import { createRuleSettingsResolver, loadAutoCrRc, toAutoCrRcSource } from '../src/config/autocrrc'
+import { resolvePreset } from '../src/config/presets'
+import { setLanguage } from '../src/i18n'
+import { createFixture } from './helpers'
+
+// .autocrrc：extends 展开、内置预设，以及嵌套配置与 overrides 的合并顺序。
+
+const fixture = createFixture({
+  'src/swallowed.ts': 'try { run() } catch (error) {}\n',
+  'src/lookup.ts': 'for (const id of ids) { users.find((user) => user.id === id) }\n',
+})
+
+before(() => setLanguage('en'))
+after(() => fixture.cleanup())
+
+const writeJson = (relativePath: string, value: unknown): string =>
+  fixture.write(relativePath, JSON.stringify(value))
+
+describe('presets', () => {
+  it('recommended turns optimizing rules off and keeps the others on', () => {
+    assert.deepStrictEqual(resolvePreset('auto-cr:recommended', builtinRules), {
+      'no-deep-relative-imports': true,
+      'no-circular-dependencies': true,
+      'no-unresolved-imports': true,
+      'no-swallowed-errors': true,
+      'no-catastrophic-regex': 'off',
+      'no-deep-clone-in-loop': 'off',
+      'no-n2-array-lookup': 'off',
+    })
+  })
+
+  it('performance only raises performance rules and leaves the others unset', () => {
+    assert.deepStrictEqual(resolvePreset('auto-cr:performance', builtinRules), {
+      'no-catastrophic-regex': 'warning',
+      'no-deep-clone-in-loop': 'warning',
+      'no-n2-array-lookup': 'warning',
+    })
+  })
+
+  it('strict sets every rule to error', () => {
+    const settings = resolvePreset('auto-cr:strict', builtinRules) ?? {}
+    assert.deepStrictEqual(
+      Object.keys(settings).sort(),
+      builtinRules.map((rule) => rule.name).sort()
+    )
+    assert.ok(Object.values(settings).every((setting) => setting === 'error'))
+  })
+
+  it('returns undefined for unknown presets', () => {
+    assert.strictEqual(resolvePreset('auto-cr:missing', builtinRules), undefined)
+  })
+
+  it('layers performance on top of recommended', async () => {
+    const summary = await createAutoCr({
+      language: 'en',
+      config: { extends: ['auto-cr:recommended', 'auto-cr:performance'] },
+    }).scanFiles([fixture.resolve('src/swallowed.ts'), fixture.resolve('src/lookup.ts')])
+
+    assert.deepStrictEqual(summary.violationTotals, {
+      total: 2,
+      error: 0,
+      warning: 2,
+      optimizing: 0,
+    })
+  })
+})
+
+describe('extends', () => {
+  it('merges extended configs in order with the own rules last', () => {
+    writeJson('extends/.autocrrc.json', {
+      extends: ['auto-cr:strict', './shared/base.json'],
+      rules: { 'no-swallowed-errors': 'warning' },
+      overrides: [{ files: 'scripts/**', rules: { 'no-deep-relative-imports': 'off' } }],
+    })
+    writeJson('extends/shared/base.json', {
+      extends: './deeper.js',
+      rules: { 'no-swallowed-errors': 'error', 'no-n2-array-lookup': 'off' },
+      overrides: [{ files: 'legacy/**', rules: { 'no-circular-dependencies': 'off' } }],
+    })
+    fixture.write(
+      'extends/shared/deeper.js',
+      "module.exports = { rules: { 'no-unresolved-imports': ['warning', { allow: ['virtual:*'] }] } }\n"
+    )
+
+    const loaded = loadAutoCrRc(fixture.resolve('extends/.autocrrc.json'), builtinRules)
+
+    assert.deepStrictEqual(loaded.errors, [])
+    assert.strictEqual(loaded.rules?.['no-swallowed-errors'], 'warning')
+    assert.strictEqual(loaded.rules?.['no-n2-array-lookup'], 'off')
+    assert.strictEqual(loaded.rules?.['no-catastrophic-regex'], 'error')
+    assert.deepStrictEqual(loaded.rules?.['no-unresolved-imports'], [
+      'warning',
+      { allow: ['virtual:*'] },
+    ])
+    assert.deepStrictEqual(
+      loaded.overrides?.map((override) => override.files),
+      ['legacy/**', 'scripts/**']
+    )
+    assert.deepStrictEqual(loaded.dependencies?.sort(), [
+      fixture.resolve('extends/shared/base.json'),
+      fixture.resolve('extends/shared/deeper.js'),
+    ])
+  })
+
+  it('reports cycles, missing files and unknown presets', () => {
+    writeJson('cycle/a.json', { extends: './b.json' })
+    writeJson('cycle/b.json', { extends: './a.json' })
+    writeJson('invalid/.autocrrc.json', { extends: ['./missing.json', 'auto-cr:missing'] })
+
+    assert.match(
+      loadAutoCrRc(fixture.resolve('cycle/a.json'), builtinRules).errors.join('\n'),
+      /Circular "extends" chain: .*a\.json -> .*b\.json -> .*a\.json/
+    )
+
+    const errors = loadAutoCrRc(fixture.resolve('invalid/.autocrrc.json'), builtinRules).errors
+    assert.strictEqual(errors.length, 2)
+    assert.match(errors[0], /Cannot resolve extended config \.\/missing\.json/)
+    assert.match(errors[1], /Unknown built-in preset auto-cr:missing/)
+  })
+})
+
+describe('cascade', () => {
+  const cwd = fixture.resolve('cascade')
+  writeJson('cascade/.autocrrc.json', {
+    rules: { 'no-deep-relative-imports': ['error', { maxDepth: 3 }] },
+    overrides: [
+      {
+        files: 'legacy/**',
+        excludedFiles: 'legacy/keep/**',
+        rules: { 'no-swallowed-errors': 'off' },
+      },
+    ],
+  })
+  writeJson('cascade/packages/app/.autocrrc.json', {
+    rules: { 'no-deep-relative-imports': 'warning' },
+    overrides: [{ files: '**/*.test.ts', rules: { 'no-deep-relative-imports': 'off' } }],
+  })
+  writeJson('cascade/packages/isolated/.autocrrc.json', {
+    root: true,
+    rules: { 'no-swallowed-errors': 'error' },
+  })
+
+  const resolver = createRuleSettingsResolver(
+    toAutoCrRcSource(loadAutoCrRc(fixture.resolve('cascade/.autocrrc.json'), builtinRules)),
+    builtinRules,
+    (message) => assert.fail(message),
+    cwd
+  )
+  const resolve = (relativePath: string) =>
+    resolver.resolve(fixture.resolve(`cascade/${relativePath}`))
+
+  it('applies overrides relative to their config file', () => {
+    assert.deepStrictEqual(resolve('legacy/a.ts'), {
+      'no-deep-relative-imports': ['error', { maxDepth: 3 }],
+      'no-swallowed-errors': 'off',
+    })
+    assert.deepStrictEqual(resolve('legacy/keep/a.ts'), {
+      'no-deep-relative-imports': ['error', { maxDepth: 3 }],
+    })
+  })
+
+  it('merges nested configs from the outside in and keeps outer options', () => {
+    assert.deepStrictEqual(resolve('packages/app/src/a.ts'), {
+      'no-deep-relative-imports': ['warning', { maxDepth: 3 }],
+    })
+    assert.deepStrictEqual(resolve('packages/app/src/a.test.ts'), {
+      'no-deep-relative-imports': ['off', { maxDepth: 3 }],
+    })
+  })
+
+  it('stops at configs marked root', () => {
+    assert.deepStrictEqual(resolve('packages/isolated/src/a.ts'), {
+      'no-swallowed-errors': 'error',
+    })
+    assert.deepStrictEqual(
+      resolver.configFiles(fixture.resolve('cascade/packages/isolated/a.ts')),
+      [fixture.resolve('cascade/packages/isolated/.autocrrc.json')]
+    )
+  })
+})
@@ -0,0 +1,84 @@
+import assert from 'assert'
+import { after, describe, it } from 'node:test'
+import { createAutoCr, type AutoCrOptions } from '../src'
+import { createFixture, runCli } from './helpers'
+
+// 退出码策略：failOn/maxWarnings 决定 summary.failed，CLI 据此映射为退出码。
+
+// warning: no-swallowed-errors；optimizing: no-n2-array-lookup。
+const fixture = createFixture({
+  'src/warning.ts': 'try { run() } catch (error) {}\n',
+  'src/optimizing.ts': 'for (const id of ids) { users.find((user) => user.id === id) }\n',
+  'src/clean.ts': 'export const clean = 1\n',
+})
+
+after(() => fixture.cleanup())
+
+const scan = async (files: string[], options: AutoCrOptions = {}) =>
+  createAutoCr({ language: 'en', ...options }).scanFiles(files.map((file) => fixture.resolve(file)))
+
+describe('failure policy', () => {
+  it('fails on error-level violations by default', async () => {
+    assert.strictEqual((await scan(['src/warning.ts'])).failed, false)
+    assert.strictEqual(
+      (await scan(['src/warning.ts'], { config: { rules: { 'no-swallowed-errors': 'error' } } }))
+        .failed,
+      true
+    )
+  })
+
+  it('fails at or above the failOn level', async () => {
+    assert.strictEqual((await scan(['src/warning.ts'], { failOn: 'warning' })).failed, true)
+    assert.strictEqual((await scan(['src/optimizing.ts'], { failOn: 'warning' })).failed, false)
+    assert.strictEqual((await scan(['src/optimizing.ts'], { failOn: 'optimizing' })).failed, true)
+    assert.strictEqual(
+      (
+        await scan(['src/warning.ts'], {
+          failOn: 'none',
+          config: { rules: { 'no-swallowed-errors': 'error' } },
+        })
+      ).failed,
+      false
+    )
+  })
+
+  it('fails when warnings exceed maxWarnings', async () => {
+    assert.strictEqual((await scan(['src/warning.ts'], { maxWarnings: 1 })).failed, false)
+    assert.strictEqual((await scan(['src/warning.ts'], { maxWarnings: 0 })).failed, true)
+  })
+
+  it('reads failOn and maxWarnings from the config, with options taking precedence', async () => {
+    assert.strictEqual(
+      (await scan(['src/warning.ts'], { config: { failOn: 'warning' } })).failed,
+      true
+    )
+    assert.strictEqual(
+      (await scan(['src/warning.ts'], { config: { maxWarnings: 0 } })).failed,
+      true
+    )
+    assert.strictEqual(
+      (await scan(['src/warning.ts'], { failOn: 'error', config: { failOn: 'warning' } })).failed,
+      false
+    )
+  })
+})
+
+describe('cli exit codes', () => {
+  it('exits with 0 below the threshold and 1 above it', () => {
+    assert.strictEqual(runCli(['-l', 'en', 'src/warning.ts'], fixture.dir).status, 0)
+    assert.strictEqual(
+      runCli(['-l', 'en', '--fail-on', 'warning', 'src/warning.ts'], fixture.dir).status,
+      1
+    )
+    assert.strictEqual(
+      runCli(['-l', 'en', '--max-warnings', '0', 'src/warning.ts'], fixture.dir).status,
+      1
+    )
+  })
+
+  it('exits with 2 for an invalid config', () => {
+    const result = runCli(['-l', 'en', '--config', 'missing.json', 'src/clean.ts'], fixture.dir)
+    assert.strictEqual(result.status, 2)
+    assert.match(result.stdout + result.stderr, /Config file not found/)
+  })
+})
@@ -0,0 +1,175 @@
+import assert from 'assert'
+import fs from 'fs'
+import { defineRule, RuleSeverity, type Rule } from 'auto-cr-rules'
+import { after, describe, it } from 'node:test'
+import { createAutoCr, type AutoCrOptions } from '../src'
+import { applyFileFixes, hashSource } from '../src/scan/fix'
+import { summarizeViolations } from '../src/scan/summary'
+import { createFixture } from './helpers'
+
+// 自动修复：edit 按字符索引应用（含多字节源码），重叠修复跳过，剩余违规的位置换算到修复后的源码。
+
+const fixture = createFixture()
+
+after(() => fixture.cleanup())
+
+type SpanNode = { type?: string; span?: { start: number; end: number } }
+
+// 按节点类型遍历 AST，测试规则只需要找到特定的表达式。
+const findNodes = (
+  node: unknown,
+  match: (node: SpanNode) => boolean,
+  found: SpanNode[] = []
+): SpanNode[] => {
+  if (Array.isArray(node)) {
+    node.forEach((child) => findNodes(child, match, found))
+  } else if (node && typeof node === 'object') {
+    if (match(node as SpanNode)) {
+      found.push(node as SpanNode)
+    }
+    Object.values(node).forEach((child) => findNodes(child, match, found))
+  }
+  return found
+}
+
+// 把标识符 legacy 替换为跨行的 (\n  modern\n)，修复后后续代码下移两行。
+const renameLegacy: Rule = defineRule(
+  'rename-legacy',
+  { severity: RuleSeverity.Warning },
+  ({ ast, helpers }) => {
+    findNodes(
+      ast,
+      (node) => node.type === 'Identifier' && (node as { value?: string }).value === 'legacy'
+    ).forEach((node) =>
+      helpers.reportViolation({
+        description: 'Use modern instead of legacy',
+        span: node.span,
+        fix: node.span ? [{ span: node.span, text: '(\n  modern\n)' }] : undefined,
+      })
+    )
+  }
+)
+
+// 把整个调用表达式替换掉，与 rename-legacy 的 edit 重叠。
+const replaceCall: Rule = defineRule(
+  'replace-call',
+  { severity: RuleSeverity.Warning },
+  ({ ast, helpers }) => {
+    findNodes(ast, (node) => node.type === 'CallExpression').forEach((node) =>
+      helpers.reportViolation({
+        description: 'Replace the call',
+        span: node.span,
+        fix: node.span ? [{ span: node.span, text: 'replaced()' }] : undefined,
+      })
+    )
+  }
+)
+
+const scan = async (file: string, options: AutoCrOptions = {}) =>
+  createAutoCr({
+    language: 'en',
+    config: { rules: { 'no-swallowed-errors': 'error' } },
+    ...options,
+  }).scanFiles([fixture.resolve(file)])
+
+const violationsOf = (summary: Awaited<ReturnType<typeof scan>>) =>
+  summary.files.flatMap((file) => file.violations)
+
+describe('applying fixes', () => {
+  it('applies edits after multibyte characters', async () => {
+    const filePath = fixture.write(
+      'src/multibyte.ts',
+      "const 名前 = '😀😀'; const value = legacy\n"
+    )
+
+    await scan('src/multibyte.ts', { rules: [renameLegacy], fix: 'apply' })
+
+    assert.strictEqual(
+      fs.readFileSync(filePath, 'utf-8'),
+      "const 名前 = '😀😀'; const value = (\n  modern\n)\n"
+    )
+  })
+
+  it('skips fixes that overlap an accepted fix', async () => {
+    const filePath = fixture.write('src/overlap.ts', 'const value = legacy()\n')
+
+    const summary = await scan('src/overlap.ts', {
+      rules: [renameLegacy, replaceCall],
+      fix: 'apply',
+    })
+
+    const output = fs.readFileSync(filePath, 'utf-8')
+    assert.ok(
+      output === 'const value = (\n  modern\n)()\n' || output === 'const value = replaced()\n',
+      output
+    )
+    const remaining = violationsOf(summary)
+    assert.strictEqual(remaining.length, 1)
+    assert.strictEqual(remaining[0].fix, undefined)
+  })
+
+  it('moves remaining violations to their position in the fixed source', async () => {
+    const filePath = fixture.write(
+      'src/remaining.ts',
+      'const value = legacy\ntry {\n  run()\n} catch (error) {\n}\n'
+    )
+    const before = violationsOf(await scan('src/remaining.ts', { rules: [renameLegacy] }))
+    const swallowed = before.find((violation) => violation.ruleName === 'no-swallowed-errors')
+    assert.strictEqual(swallowed?.line, 4)
+
+    const summary = await scan('src/remaining.ts', { rules: [renameLegacy], fix: 'apply' })
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n')
+    const [remaining] = violationsOf(summary)
+    assert.strictEqual(remaining.ruleName, 'no-swallowed-errors')
+    assert.strictEqual(remaining.line, 6)
+    assert.ok(lines[(remaining.line as number) - 1].includes('catch'))
+    // 同一行内容未变，列保持不变。
+    assert.strictEqual(remaining.column, swallowed?.column)
+  })
+
+  it('leaves files untouched in dry-run mode', async () => {
+    const filePath = fixture.write('src/dry-run.ts', 'const value = legacy\n')
+
+    const summary = await scan('src/dry-run.ts', { rules: [renameLegacy], fix: 'dry-run' })
+
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), 'const value = legacy\n')
+    assert.strictEqual(violationsOf(summary).length, 1)
+  })
+})
+
+describe('applyFileFixes', () => {
+  const createSummary = () =>
+    summarizeViolations([
+      {
+        tag: 'base',
+        ruleName: 'rename-legacy',
+        severity: RuleSeverity.Warning,
+        message: 'Use modern instead of legacy',
+        line: 1,
+        fix: [{ start: 14, end: 20, text: 'modern' }],
+      },
+    ])
+
+  it('skips files that changed after they were scanned', () => {
+    const scanned = 'const value = legacy\n'
+    const filePath = fixture.write('src/changed.ts', '// edited\nconst value = legacy\n')
+
+    const result = applyFileFixes(filePath, createSummary(), 'apply', hashSource(scanned))
+
+    assert.strictEqual(result.changed, true)
+    assert.deepStrictEqual(result.applied, [])
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), '// edited\nconst value = legacy\n')
+  })
+
+  it('applies edits when the file matches the scanned source', () => {
+    const scanned = 'const value = legacy\n'
+    const filePath = fixture.write('src/unchanged.ts', scanned)
+
+    const result = applyFileFixes(filePath, createSummary(), 'apply', hashSource(scanned))
+
+    assert.strictEqual(result.changed, false)
+    assert.strictEqual(result.applied.length, 1)
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), 'const value = modern\n')
+  })
+})
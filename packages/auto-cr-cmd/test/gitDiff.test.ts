@@ -0,0 +1,108 @@
+import assert from 'assert'
+import { execFileSync } from 'child_process'
+import path from 'path'
+import { after, describe, it } from 'node:test'
+import { collectGitChanges, parseUnifiedDiff } from '../src/utils/git'
+import { createFixture } from './helpers'
+
+// diff 模式：unified diff 解析与 git 前缀配置。
+
+const ROOT = path.resolve('/repo')
+
+const toObject = (changes: ReturnType<typeof parseUnifiedDiff>) => Object.fromEntries(changes)
+
+describe('parseUnifiedDiff', () => {
+  it('collects added and modified line ranges per file', () => {
+    const output = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3 +3 @@',
+      '-old',
+      '+new',
+      '@@ -10,0 +11,3 @@',
+      '+one',
+      '+two',
+      '+three',
+      '@@ -20,2 +23,0 @@',
+      '-gone',
+      '-gone',
+    ].join('\n')
+
+    assert.deepStrictEqual(toObject(parseUnifiedDiff(output, ROOT)), {
+      [path.join(ROOT, 'src/a.ts')]: [
+        { start: 3, end: 3 },
+        { start: 11, end: 13 },
+      ],
+    })
+  })
+
+  it('uses the new path for renamed files', () => {
+    const output = [
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 90%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -1 +1,2 @@',
+    ].join('\n')
+
+    assert.deepStrictEqual(toObject(parseUnifiedDiff(output, ROOT)), {
+      [path.join(ROOT, 'src/new.ts')]: [{ start: 1, end: 2 }],
+    })
+  })
+
+  it('decodes quoted paths with non-ASCII characters', () => {
+    const output = [
+      'diff --git "a/src/\\344\\270\\255.ts" "b/src/\\344\\270\\255.ts"',
+      '--- "a/src/\\344\\270\\255.ts"',
+      '+++ "b/src/\\344\\270\\255.ts"',
+      '@@ -0,0 +1 @@',
+    ].join('\n')
+
+    assert.deepStrictEqual(toObject(parseUnifiedDiff(output, ROOT)), {
+      [path.join(ROOT, 'src/中.ts')]: [{ start: 1, end: 1 }],
+    })
+  })
+
+  it('skips deleted targets', () => {
+    const output = ['--- a/src/a.ts', '+++ /dev/null', '@@ -1,2 +0,0 @@'].join('\n')
+    assert.deepStrictEqual(toObject(parseUnifiedDiff(output, ROOT)), {})
+  })
+})
+
+describe('collectGitChanges', () => {
+  const fixture = createFixture({ 'src/a.ts': 'export const a = 1\n' })
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      cwd: fixture.dir,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+
+  git('init', '-q')
+  git('add', '-A')
+  git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init')
+  fixture.write('src/a.ts', 'export const a = 1\nexport const b = 2\n')
+
+  after(() => fixture.cleanup())
+
+  for (const [key, value] of [
+    ['diff.mnemonicPrefix', 'true'],
+    ['diff.noprefix', 'true'],
+  ]) {
+    it(`ignores ${key} in the user's git config`, () => {
+      git('config', key, value)
+
+      try {
+        const changes = collectGitChanges({ base: 'HEAD', cwd: fixture.dir })
+        assert.deepStrictEqual(toObject(changes), {
+          [fixture.resolve('src/a.ts')]: [{ start: 2, end: 2 }],
+        })
+      } finally {
+        git('config', '--unset', key)
+      }
+    })
+  }
+})
@@ -0,0 +1,68 @@
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 测试用临时项目：带 package.json 作为独立项目根目录，用例结束后删除。
+export interface Fixture {
+  dir: string
+  // 写入文件（相对 dir），返回绝对路径。
+  write(relativePath: string, content: string): string
+  resolve(relativePath: string): string
+  cleanup(): void
+}
+
+export function createFixture(files: Record<string, string> = {}): Fixture {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'auto-cr-cmd-')))
+
+  const write = (relativePath: string, content: string): string => {
+    const filePath = path.join(dir, relativePath)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, content)
+    return filePath
+  }
+
+  write('package.json', '{}')
+  Object.entries(files).forEach(([relativePath, content]) => write(relativePath, content))
+
+  return {
+    dir,
+    write,
+    resolve: (relativePath) => path.join(dir, relativePath),
+    cleanup: () => fs.rmSync(dir, { recursive: true, force: true }),
+  }
+}
+
+const PACKAGE_DIR = path.resolve(__dirname, '..')
+
+export interface CliResult {
+  status: number | null
+  stdout: string
+  stderr: string
+}
+
+// 以子进程运行 TS 版 CLI（与 pnpm run cli 相同），用于断言退出码与输出。
+export function runCli(args: ReadonlyArray<string>, cwd: string): CliResult {
+  const result = spawnSync(
+    process.execPath,
+    [
+      '-r',
+      require.resolve('ts-node/register/transpile-only'),
+      path.join(PACKAGE_DIR, 'src/cli.ts'),
+      ...args,
+    ],
+    {
+      cwd,
+      encoding: 'utf-8',
+      input: '',
+      timeout: 60000,
+      env: {
+        ...process.env,
+        TS_NODE_PROJECT: path.join(PACKAGE_DIR, 'tsconfig.json'),
+        AUTO_CR_WORKERS: '0',
+      },
+    }
+  )
+
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr }
+}
@@ -0,0 +1,82 @@
+import assert from 'assert'
+import { pathToFileURL } from 'url'
+import { after, describe, it } from 'node:test'
+import type { LspConnection } from '../src/lsp/connection'
+import { startLanguageServer } from '../src/lsp/server'
+import type { Diagnostic } from '../src/lsp/types'
+import { createFixture } from './helpers'
+
+// 语言服务重新加载配置：extends 引入的 JS 配置变化后同样生效。
+
+const fixture = createFixture({
+  '.autocrrc.js': "module.exports = { extends: ['./shared/base.js'] }\n",
+  'shared/base.js': "module.exports = { rules: { 'no-swallowed-errors': 'error' } }\n",
+  'src/index.ts': 'try { run() } catch (error) {}\n',
+})
+
+const originalCwd = process.cwd()
+
+after(() => {
+  process.chdir(originalCwd)
+  fixture.cleanup()
+})
+
+type Handler = (params: unknown) => unknown
+
+// 内存中的连接：测试直接调用处理函数，并等待服务端发布诊断。
+const createTestConnection = () => {
+  const requests = new Map<string, Handler>()
+  const notifications = new Map<string, Handler>()
+  const waiting: Array<(diagnostics: Diagnostic[]) => void> = []
+
+  const connection: LspConnection = {
+    onRequest: (method, handler) => requests.set(method, handler as Handler),
+    onNotification: (method, handler) => notifications.set(method, handler as Handler),
+    sendNotification: (method, params) => {
+      if (method === 'textDocument/publishDiagnostics') {
+        waiting.shift()?.((params as { diagnostics: Diagnostic[] }).diagnostics)
+      }
+    },
+    sendRequest: () => {},
+    listen: () => {},
+  }
+
+  return {
+    connection,
+    request: (method: string, params: unknown) => requests.get(method)?.(params),
+    notify: (method: string, params: unknown) => notifications.get(method)?.(params),
+    nextDiagnostics: () => new Promise<Diagnostic[]>((resolve) => waiting.push(resolve)),
+  }
+}
+
+describe('language server config reload', () => {
+  it('reloads JS configs pulled in through extends', async () => {
+    const client = createTestConnection()
+    const uri = pathToFileURL(fixture.resolve('src/index.ts')).href
+    startLanguageServer(client.connection)
+    client.request('initialize', {
+      rootUri: pathToFileURL(fixture.dir).href,
+      capabilities: {},
+      initializationOptions: { language: 'en' },
+    })
+
+    const opened = client.nextDiagnostics()
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri, version: 1, text: 'try { run() } catch (error) {}\n' },
+    })
+    assert.deepStrictEqual(
+      (await opened).map((diagnostic) => diagnostic.severity),
+      [1]
+    )
+
+    fixture.write(
+      'shared/base.js',
+      "module.exports = { rules: { 'no-swallowed-errors': 'off' } }\n"
+    )
+    const reloaded = client.nextDiagnostics()
+    client.notify('textDocument/didSave', {
+      textDocument: { uri: pathToFileURL(fixture.resolve('shared/base.js')).href },
+    })
+    assert.deepStrictEqual(await reloaded, [])
+  })
+})
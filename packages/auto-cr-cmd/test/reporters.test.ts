@@ -0,0 +1,85 @@
+import assert from 'assert'
+import path from 'path'
+import { RuleSeverity } from 'auto-cr-rules'
+import { describe, it } from 'node:test'
+import { formatCheckstyleOutput } from '../src/report/checkstyle'
+import { formatJunitOutput } from '../src/report/junit'
+import { formatSarifOutput } from '../src/report/sarif'
+import type { ScanSummary } from '../src/scan/types'
+
+// 机器可读报告：XML 输出转义特殊字符并移除非法控制字符，SARIF 的路径按 URI 编码。
+
+const CWD = path.resolve('/project')
+const FILE_PATH = path.join(CWD, 'src', 'a&b <c>.ts')
+const MESSAGE = 'Use "a" & \'b\' instead of <c>\u0007'
+
+const createSummary = (): ScanSummary => ({
+  scannedFiles: 1,
+  filesWithErrors: 1,
+  filesWithWarnings: 0,
+  filesWithOptimizing: 0,
+  violationTotals: { total: 1, error: 1, warning: 0, optimizing: 0 },
+  files: [
+    {
+      filePath: FILE_PATH,
+      severityCounts: { error: 1, warning: 0, optimizing: 0 },
+      totalViolations: 1,
+      errorViolations: 1,
+      violations: [
+        {
+          tag: 'base',
+          ruleName: 'custom-rule',
+          severity: RuleSeverity.Error,
+          message: MESSAGE,
+          line: 3,
+          column: 5,
+          code: 'if (a < b && c > d) {}',
+        },
+      ],
+    },
+  ],
+  rules: [{ name: 'custom-rule', tag: 'base', severity: RuleSeverity.Error }],
+  notifications: [],
+  failed: true,
+})
+
+const ESCAPED_MESSAGE = 'Use &quot;a&quot; &amp; &apos;b&apos; instead of &lt;c&gt;'
+const ESCAPED_FILE_PATH = path.join(CWD, 'src', 'a&amp;b &lt;c&gt;.ts')
+
+describe('checkstyle output', () => {
+  it('escapes attribute values', () => {
+    const output = formatCheckstyleOutput(createSummary())
+
+    assert.ok(output.includes(`<file name="${ESCAPED_FILE_PATH}">`))
+    assert.ok(
+      output.includes(
+        `<error line="3" column="5" severity="error" message="${ESCAPED_MESSAGE}" source="auto-cr.custom-rule" />`
+      )
+    )
+    assert.ok(!output.includes('\u0007'))
+  })
+})
+
+describe('junit output', () => {
+  it('escapes attribute values and failure text', () => {
+    const output = formatJunitOutput(createSummary(), CWD)
+
+    assert.ok(output.includes('<testsuite name="src/a&amp;b &lt;c&gt;.ts"'))
+    assert.ok(output.includes(`<failure message="${ESCAPED_MESSAGE}" type="error">`))
+    assert.ok(output.includes('code: if (a &lt; b &amp;&amp; c &gt; d) {}</failure>'))
+    assert.ok(!output.includes('\u0007'))
+  })
+})
+
+describe('sarif output', () => {
+  it('keeps messages verbatim and encodes artifact paths', () => {
+    const [run] = formatSarifOutput(createSummary(), CWD).runs
+    const [result] = run.results
+
+    assert.strictEqual(result.message.text, MESSAGE)
+    assert.deepStrictEqual(result.locations[0].physicalLocation.artifactLocation, {
+      uri: 'src/a%26b%20%3Cc%3E.ts',
+      uriBaseId: '%SRCROOT%',
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import assert from 'assert'
+import { parseSync } from '@swc/wasm'
+import { createRuleContext, defineRule, RuleSeverity } from 'auto-cr-rules'
+import { after, describe, it } from 'node:test'
+import { createAutoCr } from '../src'
+import { loadParseOptions } from '../src/config'
+import { createReporter } from '../src/report'
+import { parseSuppressionDirectives } from '../src/scan/suppressions'
+import { createFixture } from './helpers'
+
+// 行内抑制注释：指令从 SWC 解析结果中定位，字符串、模板、正则与 JSX 文本中的同名文本不生效。
+
+const fixture = createFixture()
+
+after(() => fixture.cleanup())
+
+const parse = (source: string, file = 'src/input.tsx') => {
+  const filePath = fixture.resolve(file)
+  const ast = parseSync(
+    source,
+    loadParseOptions(filePath) as unknown as Parameters<typeof parseSync>[1]
+  )
+  const { sourceIndex } = createRuleContext({
+    ast,
+    filePath,
+    source,
+    reporter: createReporter(filePath, source, { format: 'json' }),
+    language: 'en',
+  })
+  return parseSuppressionDirectives(source, ast, sourceIndex.moduleStart)
+}
+
+// 每一行都上报一次违规，剩余的行号即未被抑制的行。
+const everyLine = defineRule(
+  'every-line',
+  { severity: RuleSeverity.Warning },
+  ({ source, helpers }) => {
+    source.split('\n').forEach((text, index) => {
+      if (text.trim()) {
+        helpers.reportViolation({ description: 'line', line: index + 1 })
+      }
+    })
+  }
+)
+
+const scanLines = async (source: string) => {
+  const summary = await createAutoCr({
+    language: 'en',
+    rules: [everyLine],
+    config: { rules: { 'no-swallowed-errors': 'off' } },
+    reportUnusedDisableDirectives: true,
+  }).scanSource(source, fixture.resolve('src/lines.ts'))
+  return summary.files
+    .flatMap((file) => file.violations)
+    .map((violation) => `${violation.ruleName}:${violation.line}`)
+}
+
+describe('parseSuppressionDirectives', () => {
+  it('parses line, next-line and block directives with descriptions', () => {
+    const directives = parse(
+      [
+        '// auto-cr-disable-next-line rule-a, rule-b -- legacy code',
+        'run()',
+        'run() // auto-cr-disable-line',
+        '/**',
+        ' * auto-cr-disable rule-c',
+        ' */',
+        'run()',
+        '/* auto-cr-enable rule-c */',
+      ].join('\n')
+    )
+
+    assert.deepStrictEqual(
+      directives.map(({ kind, ruleNames, line, endLine }) => ({ kind, ruleNames, line, endLine })),
+      [
+        { kind: 'disable-next-line', ruleNames: ['rule-a', 'rule-b'], line: 1, endLine: 1 },
+        { kind: 'disable-line', ruleNames: [], line: 3, endLine: 3 },
+        { kind: 'disable', ruleNames: ['rule-c'], line: 4, endLine: 6 },
+        { kind: 'enable', ruleNames: ['rule-c'], line: 8, endLine: 8 },
+      ]
+    )
+  })
+
+  it('ignores directive-like text inside literals', () => {
+    const directives = parse(
+      [
+        "const a = '// auto-cr-disable-line'",
+        'const b = `/* auto-cr-disable */ ${a} // auto-cr-disable-line`',
+        'const c = /\\/\\/ auto-cr-disable-line/',
+        'const d = <div title="/* auto-cr-disable */">// auto-cr-disable-line</div>',
+        'const e = a / 2 // auto-cr-disable-line rule-a',
+      ].join('\n')
+    )
+
+    assert.deepStrictEqual(
+      directives.map(({ kind, ruleNames, line }) => ({ kind, ruleNames, line })),
+      [{ kind: 'disable-line', ruleNames: ['rule-a'], line: 5 }]
+    )
+  })
+
+  it('keeps line numbers after multibyte text and a shebang', () => {
+    const directives = parse(
+      [
+        '#!/usr/bin/env node // auto-cr-disable',
+        "const 名前 = '😀\\n😀'",
+        '// auto-cr-disable-next-line',
+        'run()',
+      ].join('\n'),
+      'src/script.ts'
+    )
+
+    assert.deepStrictEqual(
+      directives.map(({ kind, line }) => ({ kind, line })),
+      [{ kind: 'disable-next-line', line: 3 }]
+    )
+  })
+})
+
+describe('suppressing violations', () => {
+  it('filters violations and reports unused directives', async () => {
+    const lines = await scanLines(
+      [
+        'run() // auto-cr-disable-line every-line',
+        '// auto-cr-disable-next-line every-line',
+        'run()',
+        '/* auto-cr-disable */',
+        'run()',
+        '/* auto-cr-enable */',
+        'run() // auto-cr-disable-line other-rule',
+        "const text = '// auto-cr-disable-line every-line'",
+      ].join('\n')
+    )
+
+    assert.deepStrictEqual(lines.sort(), [
+      'every-line:2',
+      'every-line:6',
+      'every-line:7',
+      'every-line:8',
+      'unused-disable-directive:7',
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import assert from 'assert'
+import { after, describe, it } from 'node:test'
+import { createAutoCr } from '../src'
+import type { Notification } from '../src/scan/types'
+import { createFixture } from './helpers'
+
+// watch 模式：无改动的保存不产生新增/已解决的问题，summary.notifications 不随轮次无限增长。
+
+const A_SOURCE = "import { b } from './b'\nexport const a = () => b\n"
+const B_SOURCE = "import { a } from './a'\nexport const b = () => a\n"
+
+const fixture = createFixture({ 'src/a.ts': A_SOURCE, 'src/b.ts': B_SOURCE })
+
+after(() => fixture.cleanup())
+
+const DELTA_PATTERN = /^Re-scanned \d+ file\(s\)/
+
+describe('watch mode', () => {
+  it('reports no changes when a file in a cycle is saved unchanged', async () => {
+    const deltas: string[] = []
+    let stop: () => void = () => {}
+    const until = new Promise<void>((resolve) => {
+      stop = resolve
+    })
+    // 每收到一轮结果就触发下一次保存，两轮后结束监听。
+    const saves = [
+      () => fixture.write('src/b.ts', B_SOURCE),
+      () => fixture.write('src/a.ts', A_SOURCE),
+    ]
+    const saveNext = () => {
+      const save = saves.shift()
+      if (save) {
+        setTimeout(save, 50)
+      } else {
+        stop()
+      }
+    }
+
+    const summary = await createAutoCr({
+      language: 'en',
+      hooks: {
+        onNotification: (record: Notification) => {
+          if (record.message.startsWith('Watching for file changes')) {
+            saveNext()
+          } else if (DELTA_PATTERN.test(record.message)) {
+            deltas.push(record.message)
+            saveNext()
+          }
+        },
+      },
+    }).scanFiles([fixture.resolve('src')], { watch: { until } })
+
+    assert.strictEqual(deltas.length, 2)
+    deltas.forEach((delta) => assert.match(delta, /: 0 new problem\(s\), 0 resolved;/))
+    assert.strictEqual(summary.violationTotals.warning, 1)
+    assert.strictEqual(
+      summary.notifications.filter((record) => DELTA_PATTERN.test(record.message)).length,
+      1
+    )
+  })
+})
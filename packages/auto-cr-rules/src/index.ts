@@ -5,26 +5,61 @@ export type {
   ImportReference,
   Language,
   LoopEntry,
+  ModuleResolution,
+  ProjectGraph,
+  ProjectGraphReader,
   Rule,
   RuleAnalysis,
+  RuleCollectedEntry,
+  RuleHooks,
   RuleMetadata,
   RuleContext,
   RuleHelpers,
   RuleMessages,
+  RuleOptionDefinition,
+  RuleOptionType,
+  RuleOptionValue,
+  RuleOptions,
+  RuleOptionsSchema,
+  RuleProject,
+  RuleProjectContext,
+  RuleProjectViolation,
   RuleReporter,
   RuleReporterRecord,
   RuleSuggestion,
+  RuleTextEdit,
   SourceIndex,
   RuleViolationInput,
 } from './types'
 export { RuleSeverity } from './types'
 export { defineRule, isRule, toRule } from './types'
-export { createRuleContext } from './runtime'
-export type { RuleContextOptions } from './runtime'
+export { createRuleContext, createRuleProjectContext } from './runtime'
+export { resolveRuleOptions, validateRuleOptions } from './options'
+export type { RuleOptionIssue, ValidatedRuleOptions } from './options'
+export { invalidateDependencyCaches } from './rules/noCircularDependencies'
+export { createProjectGraph } from './project/graph'
+export type { ProjectGraphOptions } from './project/graph'
+export { setSourceOverride } from './project/resolver'
+export type { RuleContextOptions, RuleProjectContextOptions } from './runtime'
+export { createParseOptions } from './parseOptions'
+export type { ParserCompilerOptions } from './parseOptions'
+export { createRuleTester } from './tester'
+export type {
+  RuleTester,
+  RuleTesterCase,
+  RuleTesterCases,
+  RuleTesterExpectedError,
+  RuleTesterInvalidCase,
+  RuleTesterOptions,
+  RuleTesterRecord,
+  RuleTesterResult,
+  RuleTesterValidCase,
+} from './tester'
 export {
   builtinRules,
   noDeepRelativeImports,
   noCircularDependencies,
+  noUnresolvedImports,
   noSwallowedErrors,
   noCatastrophicRegex,
   noDeepCloneInLoop,
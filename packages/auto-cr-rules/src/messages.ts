@@ -7,7 +7,7 @@ const ruleTranslations: Record<Language, RuleMessages> = {
     swallowedError: () => '捕获到的异常未被重新抛出或记录，可能导致问题被静默吞噬。',
     circularDependency: ({ chain }) => `检测到循环依赖: ${chain}`,
     unresolvedImport: ({ value }) =>
-      `无法解析导入 "${value}"，请检查 tsconfig paths/baseUrl/rootDirs 或 package.json exports。`,
+      `无法解析导入 "${value}"，目标文件或依赖包不存在；使用别名时请检查 tsconfig paths/baseUrl/rootDirs 或 package.json exports。`,
     noCatastrophicRegex: ({ pattern }) => `热路径正则包含嵌套的无限量词，可能引发灾难性回溯: ${pattern}`,
     noDeepCloneInLoop: () => '热路径中使用深拷贝（structuredClone 或 JSON.parse(JSON.stringify)），可能造成明显开销。',
     noN2ArrayLookup: ({ method }) => `热路径中使用线性查找方法 ${method}，可能导致 O(n^2) 访问。`,
@@ -17,7 +17,7 @@ const ruleTranslations: Record<Language, RuleMessages> = {
     swallowedError: () => 'Caught exception is neither rethrown nor logged; potential swallowed error detected.',
     circularDependency: ({ chain }) => `Circular dependency detected: ${chain}`,
     unresolvedImport: ({ value }) =>
-      `Unable to resolve import "${value}". Check tsconfig paths/baseUrl/rootDirs or package.json exports.`,
+      `Unable to resolve import "${value}": the target file or package does not exist. For aliases, check tsconfig paths/baseUrl/rootDirs or package.json exports.`,
     noCatastrophicRegex: ({ pattern }) =>
       `Regex in a hot path contains nested unbounded quantifiers and may trigger catastrophic backtracking: ${pattern}`,
     noDeepCloneInLoop: () => 'Deep cloning in a hot path (structuredClone or JSON.parse(JSON.stringify)) may be costly.',
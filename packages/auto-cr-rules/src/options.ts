@@ -0,0 +1,86 @@
+import type { RuleOptionDefinition, RuleOptionValue, RuleOptions, RuleOptionsSchema } from './types'
+
+// 校验失败的配置项：unknown 表示 schema 未声明，invalid 表示类型或取值不符合约束。
+export interface RuleOptionIssue {
+  option: string
+  reason: 'unknown' | 'invalid'
+  value: unknown
+  definition?: RuleOptionDefinition
+}
+
+export interface ValidatedRuleOptions {
+  // 仅包含通过校验的配置项，失败项回退到默认值。
+  options: RuleOptions
+  issues: RuleOptionIssue[]
+}
+
+// 按 schema 校验用户配置；不抛异常，由调用方决定如何提示。
+export function validateRuleOptions(
+  schema: RuleOptionsSchema,
+  input: Readonly<Record<string, unknown>>
+): ValidatedRuleOptions {
+  const options: Record<string, RuleOptionValue> = {}
+  const issues: RuleOptionIssue[] = []
+
+  for (const [option, value] of Object.entries(input)) {
+    const definition = Object.prototype.hasOwnProperty.call(schema, option) ? schema[option] : undefined
+
+    if (!definition) {
+      issues.push({ option, reason: 'unknown', value })
+      continue
+    }
+
+    if (value === undefined) {
+      continue
+    }
+
+    if (!matchesDefinition(definition, value)) {
+      issues.push({ option, reason: 'invalid', value, definition })
+      continue
+    }
+
+    options[option] = value
+  }
+
+  return { options, issues }
+}
+
+// 合并 schema 默认值与用户配置，得到规则运行时使用的 options。
+export function resolveRuleOptions(schema?: RuleOptionsSchema, configured?: RuleOptions): RuleOptions {
+  const resolved: Record<string, RuleOptionValue | undefined> = {}
+
+  if (schema) {
+    for (const [option, definition] of Object.entries(schema)) {
+      if (definition.default !== undefined) {
+        resolved[option] = definition.default
+      }
+    }
+  }
+
+  return Object.freeze({ ...resolved, ...configured })
+}
+
+function matchesDefinition(definition: RuleOptionDefinition, value: unknown): value is RuleOptionValue {
+  switch (definition.type) {
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'number':
+    case 'integer':
+      return (
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (definition.type === 'number' || Number.isInteger(value)) &&
+        (definition.minimum === undefined || value >= definition.minimum) &&
+        (definition.maximum === undefined || value <= definition.maximum)
+      )
+    case 'string':
+      return typeof value === 'string' && (!definition.enum || definition.enum.includes(value))
+    case 'string[]':
+      return (
+        Array.isArray(value) &&
+        value.every((item) => typeof item === 'string' && (!definition.enum || definition.enum.includes(item)))
+      )
+    default:
+      return false
+  }
+}
@@ -0,0 +1,104 @@
+import path from 'path'
+import type { EsParserConfig, JscTarget, ParseOptions, TsParserConfig } from '@swc/types'
+
+// SWC 解析参数：按文件扩展名选择 TS/ES 语法，并结合 tsconfig 的 target/jsx/decorators。
+// CLI 与 RuleTester 共用，保证规则测试与真实扫描拿到同样的 AST。
+export interface ParserCompilerOptions {
+  jsx?: string
+  target?: string
+  experimentalDecorators?: boolean
+}
+
+const TARGET_MAP: Record<string, JscTarget> = {
+  es3: 'es3',
+  es5: 'es5',
+  es6: 'es2015',
+  es2015: 'es2015',
+  es2016: 'es2016',
+  es2017: 'es2017',
+  es2018: 'es2018',
+  es2019: 'es2019',
+  es2020: 'es2020',
+  es2021: 'es2021',
+  es2022: 'es2022',
+  esnext: 'esnext',
+  latest: 'esnext',
+}
+
+export function createParseOptions(filePath: string, compilerOptions?: ParserCompilerOptions): ParseOptions {
+  const extension = path.extname(filePath).toLowerCase()
+  const enableDecorators = Boolean(compilerOptions?.experimentalDecorators)
+  const target = normalizeTarget(compilerOptions?.target)
+
+  let parserConfig: TsParserConfig | EsParserConfig
+
+  if (extension === '.ts' || extension === '.tsx') {
+    parserConfig = createTsParserConfig(extension, enableDecorators)
+  } else if (extension === '.js' || extension === '.jsx') {
+    parserConfig = createEsParserConfig(extension, compilerOptions, enableDecorators)
+  } else {
+    parserConfig = createTsParserConfig('.ts', enableDecorators)
+  }
+
+  const options: ParseOptions = {
+    ...parserConfig,
+    comments: true,
+  }
+
+  if (target) {
+    options.target = target
+  }
+
+  return options
+}
+
+function normalizeTarget(target?: string): JscTarget | undefined {
+  if (!target) return undefined
+
+  const normalized = target.toLowerCase()
+
+  if (normalized in TARGET_MAP) {
+    return TARGET_MAP[normalized]
+  }
+
+  const match = normalized.match(/^es(\d{4})$/)
+  if (match) {
+    const year = `es${match[1]}` as keyof typeof TARGET_MAP
+    return TARGET_MAP[year]
+  }
+
+  return undefined
+}
+
+function isJsxEnabled(option?: string): boolean {
+  if (!option) return false
+
+  const normalized = option.toLowerCase()
+  return normalized !== 'none'
+}
+
+function createTsParserConfig(extension: string, enableDecorators: boolean): TsParserConfig {
+  const shouldEnableJsx = extension === '.tsx'
+
+  return {
+    syntax: 'typescript',
+    tsx: shouldEnableJsx,
+    decorators: enableDecorators,
+    dynamicImport: true,
+  }
+}
+
+function createEsParserConfig(
+  extension: string,
+  options: ParserCompilerOptions | undefined,
+  enableDecorators: boolean
+): EsParserConfig {
+  const jsxEnabled = extension === '.jsx' || (extension === '.js' && isJsxEnabled(options?.jsx))
+
+  return {
+    syntax: 'ecmascript',
+    jsx: jsxEnabled,
+    decorators: enableDecorators,
+    importAttributes: true,
+  }
+}
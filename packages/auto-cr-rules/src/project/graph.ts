@@ -0,0 +1,192 @@
+import path from 'path'
+import type { Module } from '@swc/types'
+import { collectImportReferences } from '../imports'
+import type { ImportReference, ProjectGraph } from '../types'
+import { collectModuleExports } from './moduleExports'
+import {
+  clearResolverCaches,
+  collectResolutionConfigFiles,
+  collectUnresolvedCandidates,
+  moduleExists,
+  readProjectSource,
+  resolveModule,
+} from './resolver'
+
+export interface ProjectGraphOptions {
+  // 本次扫描的文件，importersOf 在这些文件中查找依赖方。
+  files?: ReadonlyArray<string>
+  // 解析未登记模块的源码，由宿主提供（CLI 使用与扫描相同的 SWC 参数）；
+  // 不提供时只能查询已通过 addModule 登记的模块。解析失败时抛错即可，按无依赖处理。
+  parse?: (source: string, filePath: string) => Module
+}
+
+interface ModuleEntry {
+  // 原始说明符（含 export ... from），用于追踪无法解析的导入。
+  specifiers: string[]
+  imports: string[]
+  exports: string[]
+  exportAllFrom: string[]
+}
+
+const EMPTY_ENTRY: ModuleEntry = Object.freeze({
+  specifiers: [],
+  imports: [],
+  exports: [],
+  exportAllFrom: [],
+}) as ModuleEntry
+
+/**
+ * 项目模块图：
+ * - 扫描文件在规则执行前用其 SWC 分析结果登记，依赖文件首次查询时才读取并解析；
+ * - 依赖方索引按需构建，登记/失效时增量维护；
+ * - 说明符解析与 noCircularDependencies 等规则共用同一套 resolver。
+ */
+export function createProjectGraph(options: ProjectGraphOptions = {}): ProjectGraph {
+  const modules = new Map<string, ModuleEntry>()
+  let files = new Set((options.files ?? []).map((filePath) => path.resolve(filePath)))
+  // 反向依赖：被依赖文件 -> 扫描文件中的依赖方。null 表示尚未构建。
+  let importers: Map<string, Set<string>> | null = null
+
+  const resolveAll = (specifiers: ReadonlyArray<string>, fromFile: string): string[] => {
+    const resolved = new Set<string>()
+
+    for (const specifier of specifiers) {
+      const target = resolveModule(fromFile, specifier).resolved
+      if (target) {
+        resolved.add(target)
+      }
+    }
+
+    return Array.from(resolved)
+  }
+
+  const createEntry = (filePath: string, ast: Module, imports: ReadonlyArray<ImportReference>): ModuleEntry => {
+    const moduleExports = collectModuleExports(ast)
+    const specifiers = Array.from(
+      new Set([...imports.map((reference) => reference.value), ...moduleExports.reExportSources])
+    )
+
+    return {
+      specifiers,
+      imports: resolveAll(specifiers, filePath),
+      exports: moduleExports.names,
+      exportAllFrom: resolveAll(moduleExports.exportAllSources, filePath),
+    }
+  }
+
+  const load = (filePath: string): ModuleEntry => {
+    const cached = modules.get(filePath)
+    if (cached) {
+      return cached
+    }
+
+    const source = options.parse ? readProjectSource(filePath) : null
+    let entry = EMPTY_ENTRY
+
+    if (source !== null && options.parse) {
+      try {
+        const ast = options.parse(source, filePath)
+        entry = createEntry(filePath, ast, collectImportReferences(ast))
+      } catch {
+        entry = EMPTY_ENTRY
+      }
+    }
+
+    modules.set(filePath, entry)
+    return entry
+  }
+
+  const linkImporter = (filePath: string, entry: ModuleEntry): void => {
+    entry.imports.forEach((target) => {
+      const bucket = importers?.get(target)
+      if (bucket) {
+        bucket.add(filePath)
+      } else {
+        importers?.set(target, new Set([filePath]))
+      }
+    })
+  }
+
+  const unlinkImporter = (filePath: string, entry: ModuleEntry | undefined): void => {
+    entry?.imports.forEach((target) => importers?.get(target)?.delete(filePath))
+  }
+
+  const getImporters = (): Map<string, Set<string>> => {
+    if (!importers) {
+      importers = new Map()
+      files.forEach((filePath) => linkImporter(filePath, load(filePath)))
+    }
+
+    return importers
+  }
+
+  // export * 展开时跳过 default，并防止互相转发导致死循环。
+  const collectExports = (filePath: string, visited: Set<string>): string[] => {
+    if (visited.has(filePath)) {
+      return []
+    }
+
+    visited.add(filePath)
+    const entry = load(filePath)
+    const names = [...entry.exports]
+
+    entry.exportAllFrom.forEach((target) => {
+      collectExports(target, visited)
+        .filter((name) => name !== 'default')
+        .forEach((name) => names.push(name))
+    })
+
+    return Array.from(new Set(names))
+  }
+
+  const addModule = (filePath: string, ast: Module, imports?: ReadonlyArray<ImportReference>): void => {
+    const target = path.resolve(filePath)
+    const entry = createEntry(target, ast, imports ?? collectImportReferences(ast))
+
+    if (importers) {
+      unlinkImporter(target, modules.get(target))
+      linkImporter(target, entry)
+    }
+
+    modules.set(target, entry)
+    files.add(target)
+  }
+
+  const setFiles = (nextFiles: ReadonlyArray<string>): void => {
+    files = new Set(nextFiles.map((filePath) => path.resolve(filePath)))
+    importers = null
+  }
+
+  const invalidate = (filePaths?: ReadonlyArray<string>): void => {
+    importers = null
+
+    if (!filePaths) {
+      modules.clear()
+      clearResolverCaches()
+      return
+    }
+
+    filePaths.forEach((filePath) => modules.delete(path.resolve(filePath)))
+  }
+
+  return {
+    resolve: (specifier, fromFile) => resolveModule(fromFile, specifier).resolved,
+    resolveModule: (specifier, fromFile) => resolveModule(fromFile, specifier),
+    exists: (specifier, fromFile) => moduleExists(fromFile, specifier),
+    importsOf: (filePath) => load(path.resolve(filePath)).imports,
+    resolutionInputsOf: (filePath) => {
+      const target = path.resolve(filePath)
+      return Array.from(
+        new Set([
+          ...collectResolutionConfigFiles(target),
+          ...collectUnresolvedCandidates(target, load(target).specifiers),
+        ])
+      )
+    },
+    importersOf: (filePath) => Array.from(getImporters().get(path.resolve(filePath)) ?? []),
+    exportsOf: (filePath) => collectExports(path.resolve(filePath), new Set()),
+    addModule,
+    setFiles,
+    invalidate,
+  }
+}
@@ -0,0 +1,100 @@
+import type { Declaration, Module, ModuleExportName, Pattern } from '@swc/types'
+
+// 模块的导出信息，只看顶层语句（ESM 导出只能出现在顶层）。
+export interface ModuleExports {
+  // 本模块直接提供的导出名称（含 export { x } from 转发的名称）。
+  names: string[]
+  // export ... from 的来源说明符，计入模块依赖。
+  reExportSources: string[]
+  // export * from 的来源说明符，导出名称需要展开来源模块。
+  exportAllSources: string[]
+}
+
+export const collectModuleExports = (module: Module): ModuleExports => {
+  const names: string[] = []
+  const reExportSources: string[] = []
+  const exportAllSources: string[] = []
+
+  for (const item of module.body) {
+    switch (item.type) {
+      case 'ExportDeclaration':
+        names.push(...collectDeclarationNames(item.declaration))
+        break
+      case 'ExportDefaultDeclaration':
+      case 'ExportDefaultExpression':
+      case 'TsExportAssignment':
+        names.push('default')
+        break
+      case 'ExportNamedDeclaration':
+        for (const specifier of item.specifiers) {
+          if (specifier.type === 'ExportSpecifier') {
+            names.push(readExportName(specifier.exported ?? specifier.orig))
+          } else if (specifier.type === 'ExportNamespaceSpecifier') {
+            names.push(readExportName(specifier.name))
+          } else {
+            names.push(specifier.exported.value)
+          }
+        }
+        if (item.source) {
+          reExportSources.push(item.source.value)
+        }
+        break
+      case 'ExportAllDeclaration':
+        reExportSources.push(item.source.value)
+        exportAllSources.push(item.source.value)
+        break
+      default:
+        break
+    }
+  }
+
+  return { names: unique(names), reExportSources, exportAllSources }
+}
+
+const collectDeclarationNames = (declaration: Declaration): string[] => {
+  switch (declaration.type) {
+    case 'ClassDeclaration':
+    case 'FunctionDeclaration':
+      return [declaration.identifier.value]
+    case 'VariableDeclaration':
+      return declaration.declarations.flatMap((declarator) => collectPatternNames(declarator.id))
+    case 'TsModuleDeclaration':
+      return declaration.id.type === 'Identifier' ? [declaration.id.value] : []
+    default:
+      return [declaration.id.value]
+  }
+}
+
+// 解构导出：export const { a, b: [c] } = value。
+const collectPatternNames = (pattern: Pattern | undefined): string[] => {
+  if (!pattern) {
+    return []
+  }
+
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.value]
+    case 'ArrayPattern':
+      return pattern.elements.flatMap((element) => collectPatternNames(element))
+    case 'ObjectPattern':
+      return pattern.properties.flatMap((property) => {
+        if (property.type === 'AssignmentPatternProperty') {
+          return [property.key.value]
+        }
+        if (property.type === 'KeyValuePatternProperty') {
+          return collectPatternNames(property.value)
+        }
+        return collectPatternNames(property.argument)
+      })
+    case 'AssignmentPattern':
+      return collectPatternNames(pattern.left)
+    case 'RestElement':
+      return collectPatternNames(pattern.argument)
+    default:
+      return []
+  }
+}
+
+const readExportName = (name: ModuleExportName): string => name.value
+
+const unique = (values: string[]): string[] => Array.from(new Set(values))
@@ -0,0 +1,766 @@
+import fs from 'fs'
+import path from 'path'
+import type { ModuleResolution } from '../types'
+import { isWithinRoot, resolveProjectRoot } from '../rules/utils/project'
+import {
+  applyPathMapping,
+  clearTsConfigCache,
+  getTsConfigForFile,
+  getTsConfigInputs,
+  matchPathPattern,
+  type TsConfigInfo,
+} from '../rules/utils/tsconfig'
+
+/**
+ * 模块说明符解析（ProjectGraph 与各跨文件规则共用）：
+ * - 相对路径（含 tsconfig rootDirs）；
+ * - tsconfig paths/baseUrl；
+ * - workspace 内 package.json exports/main/module；
+ * - 只返回项目根目录内的源码文件，声明文件与 node_modules 视为外部依赖。
+ */
+const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']
+
+// 声明文件、JSON 以及 TS 的 mts/cts 等非源码目标，仅在判断“目标是否存在”时使用。
+const EXISTENCE_EXTENSIONS = [...SUPPORTED_EXTENSIONS, '.mts', '.cts', '.d.ts', '.json']
+// TS ESM 写法：import './a.js' 实际指向 a.ts/a.tsx。
+const TS_EXTENSION_ALIASES: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx', '.d.ts'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts', '.d.mts'],
+  '.cjs': ['.cts', '.d.cts'],
+}
+
+// 缓存 workspace 包名索引，避免重复扫描。
+const workspacePackageCache = new Map<string, Map<string, WorkspacePackage>>()
+// 缓存“目录 + 包名”是否能在 node_modules 中找到。
+const installedPackageCache = new Map<string, boolean>()
+// 未落盘的源码（如 --stdin-code、编辑器缓冲区）：读取依赖时优先于磁盘内容，且视为存在的文件。
+const sourceOverrides = new Map<string, string>()
+// 记录解析过程探测过的路径（collectUnresolvedCandidates 期间开启）。
+let probedPaths: Set<string> | null = null
+
+// 解析 fromFile 中的说明符；项目根目录按 fromFile 推断。
+export const resolveModule = (fromFile: string, specifier: string): ModuleResolution => {
+  const origin = path.resolve(fromFile)
+  return resolveModuleSpecifier(origin, specifier, createModuleResolver(resolveProjectRoot(origin)))
+}
+
+// 说明符能否找到目标（不要求是项目内源码）：
+// - 项目内源码、声明文件、JSON 等已存在的文件，以及项目根目录外的文件都算存在；
+// - 命中 tsconfig 别名或 workspace 包却找不到文件时视为不存在；
+// - 其余裸说明符沿目录向上在 node_modules 中查找包（含 @types）。
+export const moduleExists = (fromFile: string, specifier: string): boolean => {
+  const origin = path.resolve(fromFile)
+  const resolution = resolveModule(origin, specifier)
+
+  if (resolution.resolved) {
+    return true
+  }
+
+  if (resolution.aliased) {
+    return false
+  }
+
+  const cleaned = specifier.split(/[?#]/)[0]
+
+  if (cleaned.startsWith('.') || path.isAbsolute(cleaned)) {
+    return existsAsFile(path.resolve(path.dirname(origin), cleaned))
+  }
+
+  return isInstalledPackage(path.dirname(origin), splitPackageSpecifier(cleaned).packageName)
+}
+
+// 无法解析的说明符在解析过程中探测过的候选路径（含扩展名、index 文件、别名目标与 node_modules 目录）。
+// 这些路径之一出现后，说明符可能变为可解析，供结果缓存等判断失效。
+export const collectUnresolvedCandidates = (fromFile: string, specifiers: ReadonlyArray<string>): string[] => {
+  const origin = path.resolve(fromFile)
+  const candidates = new Set<string>()
+
+  for (const specifier of specifiers) {
+    const probed = new Set<string>()
+    probedPaths = probed
+
+    try {
+      const cleaned = specifier.split(/[?#]/)[0]
+      const isPath = cleaned.startsWith('.') || path.isAbsolute(cleaned)
+      // 已安装的外部包不是项目内源码，resolved 总为 null，无需跟踪。
+      const unresolved =
+        !resolveModule(origin, specifier).resolved && (isPath || !moduleExists(origin, specifier))
+      if (unresolved) {
+        probed.forEach((candidate) => candidates.add(candidate))
+      }
+    } finally {
+      probedPaths = null
+    }
+  }
+
+  return Array.from(candidates)
+}
+
+// 影响 fromFile 说明符解析的配置文件：tsconfig（向上查找的候选位置与 extends 链）、
+// workspace 清单以及各 workspace 包的 package.json（exports 字段）。
+export const collectResolutionConfigFiles = (fromFile: string): string[] => {
+  const origin = path.resolve(fromFile)
+  const root = resolveProjectRoot(origin)
+  const packageFiles = Array.from(getWorkspacePackages(root).values()).map((pkg) =>
+    path.join(pkg.dir, 'package.json')
+  )
+
+  return Array.from(
+    new Set([...getTsConfigInputs(origin, root), path.join(root, 'pnpm-workspace.yaml'), ...packageFiles])
+  )
+}
+
+// 读取项目文件源码，优先使用内存源码；读取失败返回 null。
+export const readProjectSource = (filePath: string): string | null => {
+  const override = sourceOverrides.get(filePath)
+  if (override !== undefined) {
+    return override
+  }
+
+  try {
+    return fs.readFileSync(filePath, 'utf-8')
+  } catch {
+    return null
+  }
+}
+
+// 设置/清除某个文件的内存源码；传 undefined 表示恢复读取磁盘。
+// 已构建的 ProjectGraph 不会感知变化，调用方需要自行失效或重建。
+export const setSourceOverride = (filePath: string, source: string | undefined): void => {
+  const target = path.resolve(filePath)
+
+  if (source === undefined) {
+    sourceOverrides.delete(target)
+  } else {
+    sourceOverrides.set(target, source)
+  }
+}
+
+// 清理解析缓存（tsconfig、workspace 包索引），配置文件变化后需要调用。
+export const clearResolverCaches = (): void => {
+  workspacePackageCache.clear()
+  installedPackageCache.clear()
+  clearTsConfigCache()
+}
+
+type ModuleResolver = {
+  root: string
+  workspacePackages: Map<string, WorkspacePackage>
+}
+
+type WorkspacePackage = {
+  name: string
+  dir: string
+  packageJson: PackageJsonShape
+}
+
+type PackageJsonShape = {
+  name?: string
+  exports?: unknown
+  main?: string
+  module?: string
+  types?: string
+}
+
+const createModuleResolver = (root: string): ModuleResolver => {
+  return {
+    root,
+    workspacePackages: getWorkspacePackages(root),
+  }
+}
+
+const resolveModuleSpecifier = (fromFile: string, specifier: string, resolver: ModuleResolver): ModuleResolution => {
+  const root = resolver.root
+  const cleaned = specifier.split(/[?#]/)[0]
+
+  if (cleaned.startsWith('.')) {
+    return {
+      resolved: resolveRelativeImport(fromFile, cleaned, root),
+      aliased: false,
+    }
+  }
+
+  const tsconfig = getTsConfigForFile(fromFile, root)
+  let aliasAttempted = false
+
+  const pathsResolution = resolveWithTsConfigPaths(cleaned, tsconfig, root)
+  if (pathsResolution.resolved) {
+    return { resolved: pathsResolution.resolved, aliased: true }
+  }
+  if (pathsResolution.attempted) {
+    aliasAttempted = true
+  }
+
+  const baseUrlResolution = resolveWithBaseUrl(cleaned, tsconfig, root, resolver)
+  if (baseUrlResolution.resolved) {
+    return { resolved: baseUrlResolution.resolved, aliased: true }
+  }
+  if (baseUrlResolution.attempted) {
+    aliasAttempted = true
+  }
+
+  const packageResolution = resolveWorkspacePackageImport(cleaned, resolver)
+  if (packageResolution.resolved) {
+    return { resolved: packageResolution.resolved, aliased: true }
+  }
+
+  return {
+    resolved: null,
+    aliased: aliasAttempted || packageResolution.attempted,
+  }
+}
+
+const resolveRelativeImport = (fromFile: string, specifier: string, root: string): string | null => {
+  const cleaned = specifier.split(/[?#]/)[0]
+  const basePath = path.resolve(path.dirname(fromFile), cleaned)
+  const direct = resolvePathCandidate(basePath, root)
+  if (direct) {
+    return direct
+  }
+
+  const tsconfig = getTsConfigForFile(fromFile, root)
+  if (!tsconfig || tsconfig.rootDirs.length === 0) {
+    return null
+  }
+
+  const containingRoot = tsconfig.rootDirs.find((dir) => isWithinRoot(fromFile, dir))
+  if (!containingRoot) {
+    return null
+  }
+
+  const relativeToRoot = path.relative(containingRoot, basePath)
+  if (relativeToRoot.startsWith('..') || path.isAbsolute(relativeToRoot)) {
+    return null
+  }
+
+  for (const rootDir of tsconfig.rootDirs) {
+    const candidate = resolvePathCandidate(path.join(rootDir, relativeToRoot), root)
+    if (candidate) {
+      return candidate
+    }
+  }
+
+  return null
+}
+
+const resolveWithTsConfigPaths = (
+  specifier: string,
+  tsconfig: TsConfigInfo | null,
+  root: string
+): { resolved: string | null; attempted: boolean } => {
+  if (!tsconfig || Object.keys(tsconfig.paths).length === 0) {
+    return { resolved: null, attempted: false }
+  }
+
+  let attempted = false
+
+  for (const [pattern, targets] of Object.entries(tsconfig.paths)) {
+    const match = matchPathPattern(pattern, specifier)
+    if (!match.matched) {
+      continue
+    }
+
+    attempted = true
+
+    for (const target of targets) {
+      const mapped = applyPathMapping(target, match.wildcard)
+      const resolved = resolvePathCandidate(mapped, root)
+      if (resolved) {
+        return { resolved, attempted: true }
+      }
+    }
+  }
+
+  return { resolved: null, attempted }
+}
+
+const resolveWithBaseUrl = (
+  specifier: string,
+  tsconfig: TsConfigInfo | null,
+  root: string,
+  resolver: ModuleResolver
+): { resolved: string | null; attempted: boolean } => {
+  if (!tsconfig?.baseUrl) {
+    return { resolved: null, attempted: false }
+  }
+
+  const packageName = parsePackageName(specifier)
+  if (packageName && isKnownPackage(packageName, resolver, tsconfig.rootDirs)) {
+    return { resolved: null, attempted: false }
+  }
+
+  if (!specifier.includes('/') && !specifier.startsWith('@')) {
+    return { resolved: null, attempted: false }
+  }
+
+  const basePath = path.resolve(tsconfig.baseUrl, specifier)
+  const resolved = resolvePathCandidate(basePath, root)
+  return { resolved, attempted: true }
+}
+
+const resolveWorkspacePackageImport = (
+  specifier: string,
+  resolver: ModuleResolver
+): { resolved: string | null; attempted: boolean } => {
+  const { packageName, subpath } = splitPackageSpecifier(specifier)
+  const pkg = resolver.workspacePackages.get(packageName)
+  if (!pkg) {
+    return { resolved: null, attempted: false }
+  }
+
+  const resolved = resolveWorkspacePackageTarget(pkg, subpath, resolver.root)
+  return { resolved, attempted: true }
+}
+
+const splitPackageSpecifier = (specifier: string): { packageName: string; subpath: string } => {
+  const segments = specifier.split('/')
+  if (specifier.startsWith('@') && segments.length >= 2) {
+    const packageName = `${segments[0]}/${segments[1]}`
+    const subpath = segments.length > 2 ? `./${segments.slice(2).join('/')}` : '.'
+    return { packageName, subpath }
+  }
+
+  const packageName = segments[0]
+  const subpath = segments.length > 1 ? `./${segments.slice(1).join('/')}` : '.'
+  return { packageName, subpath }
+}
+
+const parsePackageName = (specifier: string): string | null => {
+  const { packageName } = splitPackageSpecifier(specifier)
+  return packageName || null
+}
+
+const isKnownPackage = (packageName: string, resolver: ModuleResolver, rootDirs: string[]): boolean => {
+  if (resolver.workspacePackages.has(packageName)) {
+    return true
+  }
+
+  const nodeModules = findNodeModulePackageDir(packageName, resolver.root, rootDirs)
+  return Boolean(nodeModules)
+}
+
+const resolveWorkspacePackageTarget = (pkg: WorkspacePackage, subpath: string, root: string): string | null => {
+  const exportsField = pkg.packageJson.exports
+
+  if (exportsField) {
+    const target = resolveExportsTarget(exportsField, subpath)
+    if (target) {
+      const candidate = path.resolve(pkg.dir, target)
+      const resolved = resolvePathCandidate(candidate, root)
+      if (resolved) {
+        return resolved
+      }
+    }
+  }
+
+  if (subpath === '.') {
+    const fallback = pkg.packageJson.module || pkg.packageJson.main || pkg.packageJson.types
+    if (fallback) {
+      const candidate = path.resolve(pkg.dir, fallback)
+      const resolved = resolvePathCandidate(candidate, root)
+      if (resolved) {
+        return resolved
+      }
+    }
+  }
+
+  if (subpath.startsWith('./')) {
+    const candidate = path.resolve(pkg.dir, subpath.slice(2))
+    const resolved = resolvePathCandidate(candidate, root)
+    if (resolved) {
+      return resolved
+    }
+  }
+
+  return null
+}
+
+const resolveExportsTarget = (exportsField: unknown, subpath: string): string | null => {
+  if (typeof exportsField === 'string') {
+    return subpath === '.' ? exportsField : null
+  }
+
+  if (Array.isArray(exportsField)) {
+    for (const entry of exportsField) {
+      const resolved = resolveExportsTarget(entry, subpath)
+      if (resolved) {
+        return resolved
+      }
+    }
+    return null
+  }
+
+  if (!exportsField || typeof exportsField !== 'object') {
+    return null
+  }
+
+  const exportsObj = exportsField as Record<string, unknown>
+
+  if (Object.keys(exportsObj).some((key) => key.startsWith('./') || key === '.')) {
+    const direct = resolveExportsSubpath(exportsObj, subpath)
+    if (direct) {
+      return direct
+    }
+    return null
+  }
+
+  return resolveConditionalTarget(exportsObj)
+}
+
+const resolveExportsSubpath = (exportsObj: Record<string, unknown>, subpath: string): string | null => {
+  if (exportsObj[subpath] !== undefined) {
+    return resolveExportsTarget(exportsObj[subpath], '.')
+  }
+
+  for (const [pattern, target] of Object.entries(exportsObj)) {
+    if (!pattern.includes('*')) {
+      continue
+    }
+
+    const match = matchPathPattern(pattern, subpath)
+    if (!match.matched) {
+      continue
+    }
+
+    if (typeof target === 'string') {
+      return applyPathMapping(target, match.wildcard)
+    }
+
+    const resolved = resolveExportsTarget(target, '.')
+    if (resolved && resolved.includes('*')) {
+      return applyPathMapping(resolved, match.wildcard)
+    }
+
+    if (resolved) {
+      return resolved
+    }
+  }
+
+  return null
+}
+
+const resolveConditionalTarget = (exportsObj: Record<string, unknown>): string | null => {
+  const orderedKeys = ['import', 'require', 'default', 'types']
+  for (const key of orderedKeys) {
+    if (exportsObj[key] === undefined) {
+      continue
+    }
+    const resolved = resolveExportsTarget(exportsObj[key], '.')
+    if (resolved) {
+      return resolved
+    }
+  }
+
+  for (const value of Object.values(exportsObj)) {
+    const resolved = resolveExportsTarget(value, '.')
+    if (resolved) {
+      return resolved
+    }
+  }
+
+  return null
+}
+
+const findNodeModulePackageDir = (packageName: string, root: string, rootDirs: string[]): string | null => {
+  const searchRoots = [root, ...rootDirs]
+  for (const start of searchRoots) {
+    let current = start
+    let last = ''
+
+    while (current && current !== last) {
+      const candidate = path.join(current, 'node_modules', packageName, 'package.json')
+      if (probeExists(candidate)) {
+        return path.dirname(candidate)
+      }
+
+      if (path.resolve(current) === path.resolve(root)) {
+        break
+      }
+
+      last = current
+      current = path.dirname(current)
+    }
+  }
+
+  return null
+}
+
+const getWorkspacePackages = (root: string): Map<string, WorkspacePackage> => {
+  const cached = workspacePackageCache.get(root)
+  if (cached) {
+    return cached
+  }
+
+  const patterns = loadWorkspacePatterns(root)
+  const packageDirs = new Set<string>()
+
+  for (const pattern of patterns) {
+    const expanded = expandWorkspacePattern(root, pattern)
+    for (const dir of expanded) {
+      const pkgPath = path.join(dir, 'package.json')
+      if (fs.existsSync(pkgPath)) {
+        packageDirs.add(dir)
+      }
+    }
+  }
+
+  const packages = new Map<string, WorkspacePackage>()
+
+  packageDirs.forEach((dir) => {
+    try {
+      const raw = fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')
+      const pkg = JSON.parse(raw) as PackageJsonShape
+      if (pkg.name) {
+        packages.set(pkg.name, { name: pkg.name, dir, packageJson: pkg })
+      }
+    } catch {
+      return
+    }
+  })
+
+  workspacePackageCache.set(root, packages)
+  return packages
+}
+
+const loadWorkspacePatterns = (root: string): string[] => {
+  const workspaceFile = path.join(root, 'pnpm-workspace.yaml')
+  if (!fs.existsSync(workspaceFile)) {
+    return ['packages/*', 'apps/*']
+  }
+
+  const content = fs.readFileSync(workspaceFile, 'utf-8')
+  const lines = content.split(/\r?\n/)
+  const patterns: string[] = []
+  let inPackages = false
+
+  for (const line of lines) {
+    if (!inPackages) {
+      if (line.trim() === 'packages:') {
+        inPackages = true
+      }
+      continue
+    }
+
+    if (line.trim() === '' || line.startsWith('#')) {
+      continue
+    }
+
+    if (!line.startsWith(' ') && !line.startsWith('\t')) {
+      break
+    }
+
+    const match = line.match(/^\s*-\s+(.+)$/)
+    if (match) {
+      const raw = match[1].trim()
+      patterns.push(raw.replace(/^['"]|['"]$/g, ''))
+    }
+  }
+
+  return patterns.length > 0 ? patterns : ['packages/*', 'apps/*']
+}
+
+const expandWorkspacePattern = (root: string, pattern: string): string[] => {
+  const normalized = pattern.replace(/\\/g, '/')
+  const segments = normalized.split('/').filter(Boolean)
+  const results: string[] = []
+  const visited = new Set<string>()
+
+  const walk = (current: string, remaining: string[]) => {
+    if (results.length > 5000) {
+      return
+    }
+
+    if (remaining.length === 0) {
+      if (!visited.has(current)) {
+        visited.add(current)
+        results.push(current)
+      }
+      return
+    }
+
+    const [segment, ...rest] = remaining
+
+    if (segment === '**') {
+      walk(current, rest)
+      const entries = safeReadDir(current)
+      for (const entry of entries) {
+        if (!entry.isDirectory()) {
+          continue
+        }
+        walk(path.join(current, entry.name), remaining)
+      }
+      return
+    }
+
+    if (segment.includes('*')) {
+      const entries = safeReadDir(current)
+      for (const entry of entries) {
+        if (!entry.isDirectory()) {
+          continue
+        }
+        if (!matchGlobSegment(segment, entry.name)) {
+          continue
+        }
+        walk(path.join(current, entry.name), rest)
+      }
+      return
+    }
+
+    const next = path.join(current, segment)
+    if (fs.existsSync(next) && fs.statSync(next).isDirectory()) {
+      walk(next, rest)
+    }
+  }
+
+  walk(root, segments)
+  return results
+}
+
+const matchGlobSegment = (pattern: string, value: string): boolean => {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  const regex = new RegExp(`^${escaped.replace(/\*/g, '.*')}$`)
+  return regex.test(value)
+}
+
+const safeReadDir = (dir: string): fs.Dirent[] => {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+}
+
+const resolvePathCandidate = (basePath: string, root: string): string | null => {
+  const resolved =
+    resolveFile(basePath) ||
+    resolveWithExtensions(basePath) ||
+    resolveFromDirectory(basePath)
+
+  if (!resolved) {
+    return null
+  }
+
+  if (!isWithinRoot(resolved, root)) {
+    return null
+  }
+
+  if (resolved.endsWith('.d.ts')) {
+    return null
+  }
+
+  return resolved
+}
+
+const existsAsFile = (basePath: string): boolean => {
+  if (resolveFile(basePath)) {
+    return true
+  }
+
+  const extension = path.extname(basePath)
+  const aliases = TS_EXTENSION_ALIASES[extension] ?? []
+  const stem = aliases.length > 0 ? basePath.slice(0, -extension.length) : basePath
+
+  if (aliases.some((alias) => resolveFile(`${stem}${alias}`))) {
+    return true
+  }
+
+  if (EXISTENCE_EXTENSIONS.some((candidate) => resolveFile(`${basePath}${candidate}`))) {
+    return true
+  }
+
+  // 目录导入：index 文件或带 package.json 的目录。
+  return ['package.json', ...EXISTENCE_EXTENSIONS.map((candidate) => `index${candidate}`)].some((entry) =>
+    resolveFile(path.join(basePath, entry))
+  )
+}
+
+const isInstalledPackage = (fromDir: string, packageName: string): boolean => {
+  const cacheKey = `${fromDir}::${packageName}`
+  const cached = installedPackageCache.get(cacheKey)
+  // 记录探测路径时绕过缓存，保证候选路径完整。
+  if (cached !== undefined && !probedPaths) {
+    return cached
+  }
+
+  // @scope/name 的类型包为 @types/scope__name。
+  const typesName = `@types/${packageName.replace(/^@/, '').replace('/', '__')}`
+  let current = fromDir
+  let last = ''
+  let found = false
+
+  while (!found && current !== last) {
+    found = [packageName, typesName].some((name) => probeExists(path.join(current, 'node_modules', name)))
+    last = current
+    current = path.dirname(current)
+  }
+
+  installedPackageCache.set(cacheKey, found)
+  return found
+}
+
+const probeExists = (candidate: string): boolean => {
+  probedPaths?.add(path.resolve(candidate))
+  return fs.existsSync(candidate)
+}
+
+const resolveFile = (candidate: string): string | null => {
+  if (sourceOverrides.has(path.resolve(candidate))) {
+    return path.resolve(candidate)
+  }
+
+  if (!probeExists(candidate)) {
+    return null
+  }
+
+  try {
+    if (fs.statSync(candidate).isFile()) {
+      return candidate
+    }
+  } catch {
+    return null
+  }
+
+  return null
+}
+
+const resolveWithExtensions = (basePath: string): string | null => {
+  const ext = path.extname(basePath)
+  if (ext && SUPPORTED_EXTENSIONS.includes(ext)) {
+    return resolveFile(basePath)
+  }
+
+  for (const extension of SUPPORTED_EXTENSIONS) {
+    const candidate = `${basePath}${extension}`
+    const resolved = resolveFile(candidate)
+    if (resolved) {
+      return resolved
+    }
+  }
+
+  return null
+}
+
+const resolveFromDirectory = (basePath: string): string | null => {
+  if (!probeExists(basePath)) {
+    return null
+  }
+
+  try {
+    if (!fs.statSync(basePath).isDirectory()) {
+      return null
+    }
+  } catch {
+    return null
+  }
+
+  for (const extension of SUPPORTED_EXTENSIONS) {
+    const candidate = path.join(basePath, `index${extension}`)
+    const resolved = resolveFile(candidate)
+    if (resolved) {
+      return resolved
+    }
+  }
+
+  return null
+}
@@ -1,6 +1,7 @@
 import type { Rule } from '../types'
 import { noDeepRelativeImports } from './noDeepRelativeImports'
 import { noCircularDependencies } from './noCircularDependencies'
+import { noUnresolvedImports } from './noUnresolvedImports'
 import { noSwallowedErrors } from './noSwallowedErrors'
 import { noCatastrophicRegex } from './noCatastrophicRegex'
 import { noDeepCloneInLoop } from './noDeepCloneInLoop'
@@ -10,6 +11,7 @@ import { noN2ArrayLookup } from './noN2ArrayLookup'
 export const builtinRules: Rule[] = [
   noDeepRelativeImports,
   noCircularDependencies,
+  noUnresolvedImports,
   noSwallowedErrors,
   noCatastrophicRegex,
   noDeepCloneInLoop,
@@ -19,6 +21,7 @@ export const builtinRules: Rule[] = [
 export {
   noDeepRelativeImports,
   noCircularDependencies,
+  noUnresolvedImports,
   noSwallowedErrors,
   noCatastrophicRegex,
   noDeepCloneInLoop,
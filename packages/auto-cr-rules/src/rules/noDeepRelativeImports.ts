@@ -1,13 +1,25 @@
-import { RuleSeverity, defineRule } from '../types'
-import { resolveLineFromByteOffset } from '../sourceIndex'
+import path from 'path'
+import { RuleSeverity, defineRule, type ImportReference, type RuleTextEdit, type SourceIndex } from '../types'
+import { resolveCharIndexFromByteOffset, resolveLineFromByteOffset } from '../sourceIndex'
+import { resolveProjectRoot } from './utils/project'
+import { getTsConfigForFile } from './utils/tsconfig'
 
-const MAX_DEPTH = 2
+const DEFAULT_MAX_DEPTH = 2
 
 // 检测相对路径过深的导入，避免维护困难与重构风险。
+// 可通过 .autocrrc 配置 ["warning", { "maxDepth": 3 }] 调整允许的最大 ../ 层级。
 export const noDeepRelativeImports = defineRule(
   'no-deep-relative-imports',
-  { tag: 'base', severity: RuleSeverity.Warning },
-  ({ helpers, messages, language, source, sourceIndex }) => {
+  {
+    tag: 'base',
+    severity: RuleSeverity.Warning,
+    schema: {
+      maxDepth: { type: 'integer', default: DEFAULT_MAX_DEPTH, minimum: 0 },
+    },
+  },
+  ({ filePath, helpers, messages, language, options, source, sourceIndex }) => {
+    const maxDepth = typeof options.maxDepth === 'number' ? options.maxDepth : DEFAULT_MAX_DEPTH
+
     // sourceIndex 由 runtime 统一构建，避免每条规则重复计算行号索引。
     for (const reference of helpers.imports) {
       if (!helpers.isRelativePath(reference.value)) {
@@ -16,8 +28,8 @@ export const noDeepRelativeImports = defineRule(
 
       const depth = helpers.relativeDepth(reference.value)
 
-      if (depth > MAX_DEPTH) {
-        const description = messages.noDeepRelativeImports({ value: reference.value, maxDepth: MAX_DEPTH })
+      if (depth > maxDepth) {
+        const description = messages.noDeepRelativeImports({ value: reference.value, maxDepth })
 
         const suggestions =
           language === 'zh'
@@ -38,6 +50,10 @@ export const noDeepRelativeImports = defineRule(
         // 取更大的行号，避免 span 截断时指向注释块。
         const line = selectLineNumber(computedLine, fallbackLine)
 
+        // tsconfig paths 中存在指向同一目标的别名时，提供可自动应用的修复。
+        const alias = findPathAlias(filePath, reference.value)
+        const fix = alias ? createSpecifierFix(source, sourceIndex, reference, alias) : undefined
+
         helpers.reportViolation(
           {
             description,
@@ -45,6 +61,7 @@ export const noDeepRelativeImports = defineRule(
             suggestions,
             span: reference.span,
             line,
+            fix,
           },
           reference.span
         )
@@ -85,3 +102,83 @@ const selectLineNumber = (computed?: number, fallback?: number): number | undefi
 
   return computed
 }
+
+// 在 tsconfig paths 中查找能映射到同一路径的别名；多个候选时取前缀最长（最具体）的一项。
+const findPathAlias = (filePath: string, specifier: string): string | null => {
+  const tsconfig = getTsConfigForFile(filePath, resolveProjectRoot(filePath))
+  if (!tsconfig) {
+    return null
+  }
+
+  const target = path.resolve(path.dirname(filePath), specifier)
+  let best: { alias: string; prefixLength: number } | null = null
+
+  for (const [pattern, mappedTargets] of Object.entries(tsconfig.paths)) {
+    for (const mapped of mappedTargets) {
+      const candidate = matchAliasTarget(pattern, mapped, target)
+      if (candidate && (!best || candidate.prefixLength > best.prefixLength)) {
+        best = candidate
+      }
+    }
+  }
+
+  return best ? best.alias : null
+}
+
+const matchAliasTarget = (
+  pattern: string,
+  mapped: string,
+  target: string
+): { alias: string; prefixLength: number } | null => {
+  const starIndex = mapped.indexOf('*')
+
+  if (starIndex < 0) {
+    return !pattern.includes('*') && stripExtension(mapped) === stripExtension(target)
+      ? { alias: pattern, prefixLength: mapped.length }
+      : null
+  }
+
+  if (pattern.split('*').length !== 2) {
+    return null
+  }
+
+  const prefix = mapped.slice(0, starIndex)
+  const suffix = mapped.slice(starIndex + 1)
+
+  if (!target.startsWith(prefix) || !target.endsWith(suffix) || target.length < prefix.length + suffix.length) {
+    return null
+  }
+
+  const wildcard = target.slice(prefix.length, target.length - suffix.length).split(path.sep).join('/')
+  if (!wildcard || wildcard.split('/').includes('..')) {
+    return null
+  }
+
+  return { alias: pattern.replace('*', wildcard), prefixLength: prefix.length }
+}
+
+const stripExtension = (filePath: string): string => {
+  const extension = path.extname(filePath)
+  return extension ? filePath.slice(0, -extension.length) : filePath
+}
+
+// 替换整个字符串字面量并保留原引号；span 对应文本与 import 值不一致时放弃修复，避免误改。
+const createSpecifierFix = (
+  source: string,
+  sourceIndex: SourceIndex,
+  reference: ImportReference,
+  alias: string
+): RuleTextEdit[] | undefined => {
+  if (!reference.span) {
+    return undefined
+  }
+
+  const start = resolveCharIndexFromByteOffset(source, sourceIndex, reference.span.start)
+  const quote = source[start]
+
+  if ((quote !== '"' && quote !== "'" && quote !== '`') || !source.startsWith(reference.value, start + 1)) {
+    return undefined
+  }
+
+  return [{ span: reference.span, text: `${quote}${alias}${quote}` }]
+}
@@ -0,0 +1,80 @@
+import { builtinModules } from 'module'
+import { RuleSeverity, defineRule } from '../types'
+
+// Node 内置模块（fs、node:fs、fs/promises 等）不需要在磁盘上存在。
+const BUILTIN_MODULES = new Set(builtinModules)
+
+/**
+ * 检测无法解析的导入：
+ * - 解析逻辑与 no-circular-dependencies 共用（相对路径、tsconfig paths/baseUrl/rootDirs、workspace 包与 exports 字段）；
+ * - 相对路径允许指向声明文件、JSON 等非源码文件，TS ESM 的 .js 后缀会映射到 .ts；
+ * - 裸说明符沿目录向上查找 node_modules（含 @types），Node 内置模块直接跳过；
+ * - 虚拟模块（如 virtual:*、~icons/*）通过 allow 配置放行，支持 * 通配。
+ */
+export const noUnresolvedImports = defineRule(
+  'no-unresolved-imports',
+  {
+    tag: 'base',
+    severity: RuleSeverity.Warning,
+    schema: {
+      allow: {
+        type: 'string[]',
+        default: [],
+        description: 'Specifiers to skip, such as virtual modules; "*" matches any characters.',
+      },
+    },
+  },
+  ({ helpers, language, messages, options, project }) => {
+    const allowPatterns = (Array.isArray(options.allow) ? options.allow : []).map(createAllowPattern)
+    const checked = new Set<string>()
+
+    for (const reference of helpers.imports) {
+      const specifier = reference.value
+
+      if (!specifier || isBuiltinModule(specifier) || allowPatterns.some((pattern) => pattern.test(specifier))) {
+        continue
+      }
+
+      // 同一说明符只报告第一次出现的位置。
+      if (checked.has(specifier)) {
+        continue
+      }
+
+      checked.add(specifier)
+
+      if (project.exists(specifier)) {
+        continue
+      }
+
+      const suggestions =
+        language === 'zh'
+          ? [
+              { text: '确认文件路径拼写正确，或安装缺失的依赖包。' },
+              { text: '若为构建工具提供的虚拟模块，请将其加入规则的 allow 配置。' },
+            ]
+          : [
+              { text: 'Check the path for typos, or install the missing package.' },
+              { text: "If this is a virtual module provided by the build tool, add it to the rule's allow option." },
+            ]
+
+      helpers.reportViolation(
+        {
+          description: messages.unresolvedImport({ value: specifier }),
+          code: specifier,
+          suggestions,
+          span: reference.span,
+        },
+        reference.span
+      )
+    }
+  }
+)
+
+const isBuiltinModule = (specifier: string): boolean =>
+  specifier.startsWith('node:') || BUILTIN_MODULES.has(specifier)
+
+// allow 条目按整体匹配，* 匹配任意字符，其余字符按字面量处理。
+const createAllowPattern = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`)
+
+const escapeRegExp = (value: string): string => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
@@ -0,0 +1,29 @@
+import fs from 'fs'
+import path from 'path'
+
+// 选择项目根目录：优先使用当前工作目录，找不到则向上寻找最近的 package.json。
+export const resolveProjectRoot = (filePath: string): string => {
+  const cwd = path.resolve(process.cwd())
+  if (isWithinRoot(filePath, cwd)) {
+    return cwd
+  }
+
+  let current = path.dirname(filePath)
+  let last = ''
+
+  while (current !== last) {
+    if (fs.existsSync(path.join(current, 'package.json'))) {
+      return current
+    }
+    last = current
+    current = path.dirname(current)
+  }
+
+  return cwd
+}
+
+// 防止解析路径逃逸到仓库外，避免跨项目误报。
+export const isWithinRoot = (filePath: string, root: string): boolean => {
+  const relative = path.relative(root, filePath)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
@@ -0,0 +1,368 @@
+import fs from 'fs'
+import path from 'path'
+
+// tsconfig 解析工具：读取 baseUrl/paths/rootDirs（支持 extends 与 JSONC），供路径解析类规则复用。
+export type TsConfigInfo = {
+  path: string
+  dir: string
+  // 本配置及其 extends 链上的全部配置文件。
+  files: string[]
+  baseUrl?: string
+  paths: Record<string, string[]>
+  rootDirs: string[]
+}
+
+type CompilerOptionsShape = {
+  baseUrl?: string
+  paths?: Record<string, string[]>
+  rootDirs?: string[]
+}
+
+// 缓存 tsconfig 解析结果，避免重复 IO。
+const tsconfigCache = new Map<string, TsConfigInfo>()
+const tsconfigLookupCache = new Map<string, TsConfigInfo | null>()
+
+export const clearTsConfigCache = (): void => {
+  tsconfigCache.clear()
+  tsconfigLookupCache.clear()
+}
+
+// 向上查找离文件最近的 tsconfig.json（不越过 root），结果按目录缓存。
+export const getTsConfigForFile = (filePath: string, root: string): TsConfigInfo | null => {
+  const dir = path.dirname(filePath)
+  const cached = tsconfigLookupCache.get(dir)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  let current = dir
+  let last = ''
+
+  while (current !== last) {
+    const candidate = path.join(current, 'tsconfig.json')
+    if (fs.existsSync(candidate)) {
+      const info = loadTsConfigInfo(candidate)
+      tsconfigLookupCache.set(dir, info)
+      return info
+    }
+
+    if (path.resolve(current) === path.resolve(root)) {
+      break
+    }
+
+    last = current
+    current = path.dirname(current)
+  }
+
+  tsconfigLookupCache.set(dir, null)
+  return null
+}
+
+// 决定 filePath 所用 tsconfig 的文件：向上查找经过的候选位置（含尚不存在的）与命中配置的 extends 链。
+export const getTsConfigInputs = (filePath: string, root: string): string[] => {
+  const inputs: string[] = []
+  let current = path.dirname(filePath)
+  let last = ''
+
+  while (current !== last) {
+    const candidate = path.join(current, 'tsconfig.json')
+    inputs.push(candidate)
+
+    if (fs.existsSync(candidate) || path.resolve(current) === path.resolve(root)) {
+      break
+    }
+
+    last = current
+    current = path.dirname(current)
+  }
+
+  const info = getTsConfigForFile(filePath, root)
+  return info ? Array.from(new Set([...inputs, ...info.files])) : inputs
+}
+
+const loadTsConfigInfo = (configPath: string): TsConfigInfo => {
+  const cached = tsconfigCache.get(configPath)
+  if (cached) {
+    return cached
+  }
+
+  const visited = new Set<string>()
+  const mergedOptions = loadCompilerOptions(configPath, visited)
+  const configDir = path.dirname(configPath)
+
+  const baseUrl = mergedOptions.baseUrl
+  const baseUrlForPaths = baseUrl ?? configDir
+  const paths = resolvePathsMap(mergedOptions.paths ?? {}, baseUrlForPaths)
+  const rootDirs = resolveRootDirs(mergedOptions.rootDirs ?? [], configDir)
+
+  const info: TsConfigInfo = {
+    path: configPath,
+    dir: configDir,
+    files: Array.from(visited),
+    baseUrl,
+    paths,
+    rootDirs,
+  }
+
+  tsconfigCache.set(configPath, info)
+  return info
+}
+
+const loadCompilerOptions = (configPath: string, visited: Set<string>): CompilerOptionsShape => {
+  if (visited.has(configPath)) {
+    return {}
+  }
+  visited.add(configPath)
+
+  const raw = readTsConfigFile(configPath)
+  const configDir = path.dirname(configPath)
+  let baseOptions: CompilerOptionsShape = {}
+
+  if (typeof raw.extends === 'string') {
+    const basePath = resolveExtendsPath(raw.extends, configDir)
+    if (basePath) {
+      baseOptions = loadCompilerOptions(basePath, visited)
+    }
+  }
+
+  const compilerOptions = normalizeCompilerOptions(raw.compilerOptions, configDir, baseOptions.baseUrl)
+  const mergedPaths = {
+    ...(baseOptions.paths ?? {}),
+    ...(compilerOptions.paths ?? {}),
+  }
+
+  return {
+    baseUrl: compilerOptions.baseUrl ?? baseOptions.baseUrl,
+    paths: Object.keys(mergedPaths).length > 0 ? mergedPaths : undefined,
+    rootDirs: compilerOptions.rootDirs ?? baseOptions.rootDirs,
+  }
+}
+
+const normalizeCompilerOptions = (
+  compilerOptions: unknown,
+  configDir: string,
+  inheritedBaseUrl?: string
+): CompilerOptionsShape => {
+  if (!compilerOptions || typeof compilerOptions !== 'object') {
+    return {}
+  }
+
+  const options = compilerOptions as CompilerOptionsShape
+  const baseUrl = options.baseUrl ? path.resolve(configDir, options.baseUrl) : inheritedBaseUrl
+  const baseUrlForPaths = baseUrl ?? configDir
+
+  const paths = options.paths ? resolvePathsMap(options.paths, baseUrlForPaths) : undefined
+  const rootDirs = options.rootDirs ? resolveRootDirs(options.rootDirs, configDir) : undefined
+
+  return {
+    baseUrl,
+    paths,
+    rootDirs,
+  }
+}
+
+const resolvePathsMap = (paths: Record<string, string[]>, baseUrl: string): Record<string, string[]> => {
+  const resolved: Record<string, string[]> = {}
+
+  for (const [key, values] of Object.entries(paths)) {
+    resolved[key] = values.map((value) => (path.isAbsolute(value) ? value : path.resolve(baseUrl, value)))
+  }
+
+  return resolved
+}
+
+const resolveRootDirs = (rootDirs: string[], configDir: string): string[] => {
+  return rootDirs.map((dir) => (path.isAbsolute(dir) ? dir : path.resolve(configDir, dir)))
+}
+
+const readTsConfigFile = (configPath: string): { extends?: string; compilerOptions?: unknown } => {
+  try {
+    const content = fs.readFileSync(configPath, 'utf-8')
+    const parsed = parseJsonc(content)
+    if (parsed && typeof parsed === 'object') {
+      return parsed as { extends?: string; compilerOptions?: unknown }
+    }
+  } catch {
+    return {}
+  }
+
+  return {}
+}
+
+const resolveExtendsPath = (extendsValue: string, configDir: string): string | null => {
+  const trimmed = extendsValue.trim()
+
+  if (trimmed.startsWith('.')) {
+    return resolveTsConfigPath(path.resolve(configDir, trimmed))
+  }
+
+  if (path.isAbsolute(trimmed)) {
+    return resolveTsConfigPath(trimmed)
+  }
+
+  try {
+    const resolved = require.resolve(trimmed, { paths: [configDir] })
+    return resolveTsConfigPath(resolved)
+  } catch {
+    return null
+  }
+}
+
+const resolveTsConfigPath = (candidate: string): string | null => {
+  if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+    return candidate
+  }
+
+  if (fs.existsSync(`${candidate}.json`)) {
+    return `${candidate}.json`
+  }
+
+  const asDir = path.join(candidate, 'tsconfig.json')
+  if (fs.existsSync(asDir)) {
+    return asDir
+  }
+
+  return null
+}
+
+// tsconfig paths / package exports 的通配匹配：只支持单个 `*`。
+export const matchPathPattern = (pattern: string, specifier: string): { matched: boolean; wildcard: string } => {
+  if (pattern === specifier) {
+    return { matched: true, wildcard: '' }
+  }
+
+  const starIndex = pattern.indexOf('*')
+  if (starIndex < 0) {
+    return { matched: false, wildcard: '' }
+  }
+
+  const prefix = pattern.slice(0, starIndex)
+  const suffix = pattern.slice(starIndex + 1)
+
+  if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) {
+    return { matched: false, wildcard: '' }
+  }
+
+  const wildcard = specifier.slice(prefix.length, specifier.length - suffix.length)
+  return { matched: true, wildcard }
+}
+
+export const applyPathMapping = (target: string, wildcard: string): string => {
+  if (!target.includes('*')) {
+    return target
+  }
+
+  return target.replace('*', wildcard)
+}
+
+const parseJsonc = (content: string): unknown => {
+  const stripped = stripJsonComments(content)
+  const sanitized = removeTrailingCommas(stripped)
+  return JSON.parse(sanitized)
+}
+
+const stripJsonComments = (content: string): string => {
+  let result = ''
+  let inString = false
+  let stringChar = ''
+  let inLineComment = false
+  let inBlockComment = false
+  let escaped = false
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index]
+    const next = content[index + 1]
+
+    if (inLineComment) {
+      if (char === '\n') {
+        inLineComment = false
+        result += char
+      }
+      continue
+    }
+
+    if (inBlockComment) {
+      if (char === '*' && next === '/') {
+        inBlockComment = false
+        index += 1
+      }
+      continue
+    }
+
+    if (inString) {
+      result += char
+      if (!escaped && char === stringChar) {
+        inString = false
+        stringChar = ''
+      }
+      escaped = !escaped && char === '\\'
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      inString = true
+      stringChar = char
+      result += char
+      continue
+    }
+
+    if (char === '/' && next === '/') {
+      inLineComment = true
+      index += 1
+      continue
+    }
+
+    if (char === '/' && next === '*') {
+      inBlockComment = true
+      index += 1
+      continue
+    }
+
+    result += char
+  }
+
+  return result
+}
+
+const removeTrailingCommas = (content: string): string => {
+  let result = ''
+  let inString = false
+  let stringChar = ''
+  let escaped = false
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index]
+
+    if (inString) {
+      result += char
+      if (!escaped && char === stringChar) {
+        inString = false
+        stringChar = ''
+      }
+      escaped = !escaped && char === '\\'
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      inString = true
+      stringChar = char
+      result += char
+      continue
+    }
+
+    if (char === ',') {
+      let lookahead = index + 1
+      while (lookahead < content.length && /\s/.test(content[lookahead])) {
+        lookahead += 1
+      }
+      const next = content[lookahead]
+      if (next === '}' || next === ']') {
+        continue
+      }
+    }
+
+    result += char
+  }
+
+  return result
+}
@@ -1,16 +1,25 @@
 import type { Module } from '@swc/types'
 import { analyzeModule } from './analysis'
 import { createRuleMessages } from './messages'
-import { createSourceIndex } from './sourceIndex'
+import { createProjectGraph } from './project/graph'
+import { createSourceIndex, resolveCharIndexFromByteOffset, resolveLineFromByteOffset } from './sourceIndex'
 import type {
   ImportReference,
   Language,
+  ProjectGraph,
+  ProjectGraphReader,
   RuleAnalysis,
+  RuleCollectedEntry,
   RuleContext,
   RuleHelpers,
+  RuleOptions,
+  RuleProject,
+  RuleProjectContext,
+  RuleProjectViolation,
   RuleReporter,
   RuleReporterRecord,
   RuleViolationInput,
+  SourceIndex,
 } from './types'
 
 export interface RuleContextOptions {
@@ -19,6 +28,10 @@ export interface RuleContextOptions {
   source: string
   reporter: RuleReporter
   language: Language
+  // 已合并默认值的规则配置项，不传时为空对象。
+  options?: RuleOptions
+  // 本次扫描共享的模块图；不传时只包含当前文件，跨文件查询拿不到其他模块的信息。
+  project?: ProjectGraph
 }
 
 // 构建规则执行所需的上下文：包含 AST、imports、文案与统一的 helper 方法。
@@ -28,13 +41,18 @@ export const createRuleContext = ({
   source,
   reporter,
   language,
+  options,
+  project,
 }: RuleContextOptions): RuleContext => {
   // 共享 AST 分析结果：一次遍历抽取 imports/loops/callbacks/hotPath 等索引。
   const analysis: RuleAnalysis = analyzeModule(ast)
   // 源码行号索引：仅构建一次，规则可直接复用。
   const sourceIndex = Object.freeze(createSourceIndex(source, ast.span?.start ?? 0))
   const messages = createRuleMessages(language)
-  const helpers = Object.freeze(createRuleHelpers(reporter, analysis.imports)) as RuleHelpers
+  const helpers = Object.freeze(createRuleHelpers(reporter, analysis.imports, source, sourceIndex)) as RuleHelpers
+  // 用当前文件的分析结果登记到模块图，其他文件查询依赖方时无需重新解析。
+  const graph = project ?? createProjectGraph({ files: [filePath] })
+  graph.addModule(filePath, ast, analysis.imports)
 
   return Object.freeze({
     ast,
@@ -46,11 +64,28 @@ export const createRuleContext = ({
     sourceIndex,
     helpers,
     messages,
+    options: Object.freeze({ ...options }),
+    project: Object.freeze(createRuleProject(graph, filePath)),
   }) as RuleContext
 }
 
+// 规则视角的模块图：省略文件参数时以当前文件为准。
+const createRuleProject = (graph: ProjectGraph, filePath: string): RuleProject => ({
+  resolve: (specifier, fromFile = filePath) => graph.resolve(specifier, fromFile),
+  resolveModule: (specifier, fromFile = filePath) => graph.resolveModule(specifier, fromFile),
+  exists: (specifier, fromFile = filePath) => graph.exists(specifier, fromFile),
+  importsOf: (target = filePath) => graph.importsOf(target),
+  importersOf: (target = filePath) => graph.importersOf(target),
+  exportsOf: (target = filePath) => graph.exportsOf(target),
+})
+
 // 规则 helper：统一封装路径判断、相对深度与违规上报逻辑。
-const createRuleHelpers = (reporter: RuleReporter, imports: ReadonlyArray<ImportReference>): RuleHelpers => {
+const createRuleHelpers = (
+  reporter: RuleReporter,
+  imports: ReadonlyArray<ImportReference>,
+  source: string,
+  sourceIndex: SourceIndex
+): RuleHelpers => {
   const isRelativePath = (value: string): boolean => value.startsWith('.')
 
   const relativeDepth = (value: string): number => {
@@ -84,14 +119,59 @@ const createRuleHelpers = (reporter: RuleReporter, imports: ReadonlyArray<Import
     reporter.error(normalized.description)
   }
 
+  const locate = (span: Parameters<RuleHelpers['locate']>[0]): { line: number; column: number } => {
+    const line = resolveLineFromByteOffset(source, sourceIndex, span.start)
+    const charIndex = resolveCharIndexFromByteOffset(source, sourceIndex, span.start)
+    return { line, column: charIndex - sourceIndex.lineOffsets[line - 1] + 1 }
+  }
+
   return {
     imports,
     isRelativePath,
     relativeDepth,
     reportViolation,
+    locate,
   }
 }
 
+export interface RuleProjectContextOptions {
+  language: Language
+  collected: ReadonlyArray<RuleCollectedEntry>
+  report: (violation: RuleProjectViolation) => void
+  // 已合并默认值的规则配置项，不传时为空对象。
+  options?: RuleOptions
+  // 本次扫描共享的模块图；不传时只能解析说明符，拿不到模块信息。
+  project?: ProjectGraph
+}
+
+// 构建 finalize 阶段的上下文：只暴露模块图的查询方法。
+export const createRuleProjectContext = ({
+  language,
+  collected,
+  report,
+  options,
+  project,
+}: RuleProjectContextOptions): RuleProjectContext => {
+  const graph = project ?? createProjectGraph()
+  const reader: ProjectGraphReader = {
+    resolve: (specifier, fromFile) => graph.resolve(specifier, fromFile),
+    resolveModule: (specifier, fromFile) => graph.resolveModule(specifier, fromFile),
+    exists: (specifier, fromFile) => graph.exists(specifier, fromFile),
+    importsOf: (filePath) => graph.importsOf(filePath),
+    importersOf: (filePath) => graph.importersOf(filePath),
+    exportsOf: (filePath) => graph.exportsOf(filePath),
+  }
+
+  return Object.freeze({
+    language,
+    messages: createRuleMessages(language),
+    options: Object.freeze({ ...options }),
+    project: Object.freeze(reader),
+    collected: Object.freeze([...collected]),
+    report,
+  })
+}
+
 // 统一规则输出结构，便于 reporter 处理 span/line/suggestions。
 function normalizeViolationInput(
   input: RuleViolationInput,
@@ -112,5 +192,6 @@ function normalizeViolationInput(
     suggestions: input.suggestions,
     span: input.span ?? fallbackSpan,
     line: input.line,
+    fix: input.fix,
   }
 }
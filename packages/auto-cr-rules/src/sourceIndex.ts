@@ -2,9 +2,11 @@
 import type { SourceIndex } from './types'
 
 // 构建行号索引。lineOffsets 记录每一行的起始字符偏移（基于 JS 字符索引）。
-// moduleStart 来自 SWC Module.span.start（byte offset），用于与 SWC 的 span 对齐。
-export const createSourceIndex = (source: string, moduleStart: number): SourceIndex => {
+// moduleSpanStart 来自 SWC Module.span.start（byte offset），指向第一个 token 而不是文件开头，
+// 这里减去文件头部注释/空白的字节数，得到文件起点对应的 offset，用于与 SWC 的 span 对齐。
+export const createSourceIndex = (source: string, moduleSpanStart: number): SourceIndex => {
   const lineOffsets: number[] = [0]
+  const moduleStart = Math.max(moduleSpanStart - measureLeadingTriviaBytes(source), 0)
 
   for (let index = 0; index < source.length; index += 1) {
     if (source[index] === '\n') {
@@ -18,6 +20,52 @@ export const createSourceIndex = (source: string, moduleStart: number): SourceIn
   }
 }
 
+// 计算文件头部 BOM、空白与注释的 UTF-8 字节数（即第一个 token 之前的内容）。
+const measureLeadingTriviaBytes = (source: string): number => {
+  let index = 0
+
+  if (source.charCodeAt(0) === 0xfeff) {
+    index = 1
+  }
+
+  // 带 shebang 时 SWC 的 Module.span 从 shebang（Module.interpreter）开始，而不是第一个 token。
+  const hasShebang = source.startsWith('#!', index)
+
+  while (!hasShebang && index < source.length) {
+    const char = source[index]
+
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+
+    if (char === '/' && source[index + 1] === '/') {
+      const lineEnd = source.indexOf('\n', index)
+      index = lineEnd === -1 ? source.length : lineEnd
+      continue
+    }
+
+    if (char === '/' && source[index + 1] === '*') {
+      const blockEnd = source.indexOf('*/', index + 2)
+      index = blockEnd === -1 ? source.length : blockEnd + 2
+      continue
+    }
+
+    break
+  }
+
+  let bytes = 0
+  let cursor = 0
+
+  while (cursor < index) {
+    const { bytes: size, nextIndex } = readUtf8Character(source, cursor, source.charCodeAt(cursor))
+    bytes += size
+    cursor = nextIndex
+  }
+
+  return bytes
+}
+
 // 根据 SWC byte offset 计算行号：先把 byte 偏移转成字符索引，再做二分查找。
 // 注意：JS 字符索引与 UTF-8 字节长度不同，需要转换。
 export const resolveLineFromByteOffset = (source: string, index: SourceIndex, byteOffset: number): number => {
@@ -25,6 +73,11 @@ export const resolveLineFromByteOffset = (source: string, index: SourceIndex, by
   return resolveLine(index.lineOffsets, charIndex)
 }
 
+// 根据 SWC byte offset 计算源码中的字符索引（用于定位/替换 span 对应的文本）。
+export const resolveCharIndexFromByteOffset = (source: string, index: SourceIndex, byteOffset: number): number => {
+  return bytePosToCharIndex(source, index.moduleStart, byteOffset)
+}
+
 // 二分查找行号：lineOffsets 是升序的行起始偏移。
 const resolveLine = (lineOffsets: number[], position: number): number => {
   let low = 0
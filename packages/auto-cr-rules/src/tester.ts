@@ -0,0 +1,351 @@
+import { AssertionError } from 'assert'
+import path from 'path'
+import type { Module, ParseOptions } from '@swc/types'
+import { validateRuleOptions, resolveRuleOptions } from './options'
+import { createParseOptions, type ParserCompilerOptions } from './parseOptions'
+import { createProjectGraph } from './project/graph'
+import { setSourceOverride } from './project/resolver'
+import { invalidateDependencyCaches } from './rules/noCircularDependencies'
+import { createRuleContext } from './runtime'
+import { resolveCharIndexFromByteOffset, resolveLineFromByteOffset } from './sourceIndex'
+import type {
+  Language,
+  Rule,
+  RuleOptions,
+  RuleReporter,
+  RuleReporterRecord,
+  RuleSuggestion,
+  SourceIndex,
+} from './types'
+
+// 规则测试工具：供自定义规则作者在任意测试框架（jest/vitest/mocha/node:test）中断言规则行为。
+// 解析参数与 CLI 一致（createParseOptions）；@swc/wasm 是可选的 peer 依赖，在首次解析时才加载。
+
+// 只用到 @swc/wasm 的 parseSync。
+interface SwcModule {
+  parseSync(source: string, options: ParseOptions): Module
+}
+
+const DEFAULT_FILENAME = 'file.ts'
+
+export interface RuleTesterOptions {
+  // 规则文案语言，默认 en。
+  language?: Language
+  // 用例未指定 filename 时使用，相对工作目录解析；扩展名决定解析语法。
+  filename?: string
+  // 对应 tsconfig 的 compilerOptions（jsx/target/experimentalDecorators）。
+  compilerOptions?: ParserCompilerOptions
+}
+
+export interface RuleTesterCase {
+  code: string
+  // 用例名称，仅用于失败信息。
+  name?: string
+  filename?: string
+  // 规则配置项（.autocrrc 中 [severity, options] 的 options），按规则 schema 校验后与默认值合并。
+  options?: Readonly<Record<string, unknown>>
+}
+
+export type RuleTesterValidCase = string | RuleTesterCase
+
+export interface RuleTesterExpectedError {
+  // 字符串要求完全相等，正则只要求匹配。
+  message?: string | RegExp
+  line?: number
+  column?: number
+  code?: string
+  // 修复建议的文本，按顺序比较。
+  suggestions?: ReadonlyArray<string>
+}
+
+export interface RuleTesterInvalidCase extends RuleTesterCase {
+  // 期望的违规（按位置排序后逐条比较），或只断言数量。
+  errors: number | ReadonlyArray<RuleTesterExpectedError>
+  // 应用全部修复后的源码；null 表示不应提供任何修复，不传则不检查。
+  output?: string | null
+}
+
+export interface RuleTesterCases {
+  valid?: ReadonlyArray<RuleTesterValidCase>
+  invalid?: ReadonlyArray<RuleTesterInvalidCase>
+}
+
+// 收集到的违规：位置已从 SWC byte offset 换算为行列（从 1 开始，列按 UTF-16 计）。
+export interface RuleTesterRecord {
+  message: string
+  line?: number
+  column?: number
+  code?: string
+  suggestions: ReadonlyArray<RuleSuggestion>
+  // 字符索引上的替换，[start, end) 替换为 text。
+  fix?: ReadonlyArray<{ start: number; end: number; text: string }>
+}
+
+export interface RuleTesterResult {
+  records: RuleTesterRecord[]
+  // 应用全部（互不重叠的）修复后的源码；没有修复时等于原始源码。
+  output: string
+}
+
+export interface RuleTester {
+  // 逐条执行用例，第一个不符合预期的用例抛出 AssertionError。
+  run(rule: Rule, cases: RuleTesterCases): Promise<void>
+  // 对单段源码执行规则并返回收集结果，便于自定义断言。
+  verify(rule: Rule, testCase: RuleTesterValidCase): Promise<RuleTesterResult>
+}
+
+let swc: SwcModule | undefined
+
+const loadSwc = (): SwcModule => {
+  if (!swc) {
+    try {
+      swc = require('@swc/wasm') as SwcModule
+    } catch (error) {
+      // 只有找不到模块时才给出安装提示，其余加载错误原样抛出。
+      if ((error as NodeJS.ErrnoException)?.code !== 'MODULE_NOT_FOUND') {
+        throw error
+      }
+
+      const detail = error instanceof Error ? error.message : String(error)
+      throw new Error(
+        `RuleTester requires the optional peer dependency @swc/wasm to parse test cases. ` +
+          `Install it alongside auto-cr-rules (e.g. "pnpm add -D @swc/wasm"). Original error: ${detail}`
+      )
+    }
+  }
+
+  return swc
+}
+
+export function createRuleTester(testerOptions: RuleTesterOptions = {}): RuleTester {
+  const language = testerOptions.language ?? 'en'
+
+  const resolveFilePath = (testCase: RuleTesterCase): string =>
+    path.resolve(process.cwd(), testCase.filename ?? testerOptions.filename ?? DEFAULT_FILENAME)
+
+  const parse = (source: string, filePath: string): Module => {
+    return loadSwc().parseSync(source, createParseOptions(filePath, testerOptions.compilerOptions))
+  }
+
+  const verify = async (rule: Rule, input: RuleTesterValidCase): Promise<RuleTesterResult> => {
+    const testCase = normalizeCase(input)
+    const filePath = resolveFilePath(testCase)
+    const source = testCase.code
+    const ast = parse(source, filePath)
+    const records: RuleReporterRecord[] = []
+    const reporter: RuleReporter = {
+      error: (message) => records.push({ description: message }),
+      errorAtSpan: (span, message) => records.push({ description: message, span }),
+      errorAtLine: (line, message) => records.push({ description: message, line }),
+      record: (record) => records.push(record),
+    }
+    // 与 CLI 的 scanSource 一致：每个用例使用独立的模块图，跨文件规则读取依赖时使用用例源码。
+    invalidateDependencyCaches()
+    const context = createRuleContext({
+      ast,
+      filePath,
+      source,
+      reporter,
+      language,
+      options: resolveCaseOptions(rule, testCase),
+      project: createProjectGraph({ files: [filePath], parse }),
+    })
+
+    setSourceOverride(filePath, source)
+    try {
+      await rule.run(context)
+    } finally {
+      setSourceOverride(filePath, undefined)
+    }
+
+    const resolved = records
+      .map((record) => toTesterRecord(record, source, context.sourceIndex))
+      .sort((left, right) => (left.line ?? 0) - (right.line ?? 0) || (left.column ?? 0) - (right.column ?? 0))
+
+    return { records: resolved, output: applyFixes(source, resolved) }
+  }
+
+  const run = async (rule: Rule, cases: RuleTesterCases): Promise<void> => {
+    const valid = cases.valid ?? []
+    const invalid = cases.invalid ?? []
+
+    for (let index = 0; index < valid.length; index += 1) {
+      const input = valid[index]
+      const label = formatCaseLabel(rule, 'valid', index, normalizeCase(input))
+      const { records } = await verify(rule, input)
+
+      if (records.length > 0) {
+        fail(`${label}: expected no violations, got ${records.length}`, records.map(describeRecord), [])
+      }
+    }
+
+    for (let index = 0; index < invalid.length; index += 1) {
+      const testCase = invalid[index]
+      const label = formatCaseLabel(rule, 'invalid', index, testCase)
+      const { records, output } = await verify(rule, testCase)
+      const expectedCount = typeof testCase.errors === 'number' ? testCase.errors : testCase.errors.length
+
+      if (expectedCount === 0) {
+        throw new Error(`${label}: invalid cases must expect at least one violation`)
+      }
+
+      if (records.length !== expectedCount) {
+        fail(
+          `${label}: expected ${expectedCount} violation(s), got ${records.length}`,
+          records.map(describeRecord),
+          expectedCount
+        )
+      }
+
+      if (typeof testCase.errors !== 'number') {
+        testCase.errors.forEach((expected, errorIndex) =>
+          assertRecord(`${label} error[${errorIndex}]`, records[errorIndex], expected)
+        )
+      }
+
+      if (testCase.output === null && records.some((record) => record.fix)) {
+        fail(`${label}: expected no fix`, output, testCase.code)
+      }
+
+      if (typeof testCase.output === 'string') {
+        if (output !== testCase.output) {
+          fail(`${label}: fixed output does not match`, output, testCase.output)
+        }
+
+        assertParsable(`${label}: fixed output`, output, resolveFilePath(testCase), parse)
+      }
+    }
+  }
+
+  return { run, verify }
+}
+
+const normalizeCase = (input: RuleTesterValidCase): RuleTesterCase =>
+  typeof input === 'string' ? { code: input } : input
+
+// 用例配置项与 CLI 一样按 schema 校验；配置写错属于测试本身的问题，直接抛错。
+const resolveCaseOptions = (rule: Rule, testCase: RuleTesterCase): RuleOptions => {
+  if (!testCase.options) {
+    return resolveRuleOptions(rule.schema, rule.options)
+  }
+
+  if (!rule.schema) {
+    throw new Error(`Rule "${rule.name}" does not declare a schema and accepts no options`)
+  }
+
+  const { options, issues } = validateRuleOptions(rule.schema, testCase.options)
+
+  if (issues.length > 0) {
+    const detail = issues.map((issue) => `${issue.option} (${issue.reason})`).join(', ')
+    throw new Error(`Invalid options for rule "${rule.name}": ${detail}`)
+  }
+
+  return resolveRuleOptions(rule.schema, options)
+}
+
+// 显式行号优先；span 起点与显式行号一致时才给出列号，与 CLI 的定位规则相同。
+const toTesterRecord = (record: RuleReporterRecord, source: string, index: SourceIndex): RuleTesterRecord => {
+  const span = record.span && typeof record.span.start === 'number' ? record.span : undefined
+  const spanLine = span ? resolveLineFromByteOffset(source, index, span.start) : undefined
+  const line = typeof record.line === 'number' ? record.line : spanLine
+  const column =
+    span && spanLine !== undefined && spanLine === line
+      ? resolveCharIndexFromByteOffset(source, index, span.start) - index.lineOffsets[spanLine - 1] + 1
+      : undefined
+
+  return {
+    message: record.description,
+    line,
+    column,
+    code: record.code,
+    suggestions: record.suggestions ?? [],
+    fix: record.fix?.map((edit) => ({
+      start: resolveCharIndexFromByteOffset(source, index, edit.span.start),
+      end: resolveCharIndexFromByteOffset(source, index, edit.span.end),
+      text: edit.text,
+    })),
+  }
+}
+
+// 与 --fix 相同：按位置排序，与已接受修复重叠的违规整体跳过，其余从后往前应用。
+const applyFixes = (source: string, records: ReadonlyArray<RuleTesterRecord>): string => {
+  const candidates = records
+    .map((record) => [...(record.fix ?? [])].sort((left, right) => left.start - right.start || left.end - right.end))
+    .filter((edits) => edits.length > 0)
+    .filter((edits) => edits.every((edit, index) => index === 0 || edit.start >= edits[index - 1].end))
+    .sort((left, right) => left[0].start - right[0].start)
+  const accepted: Array<{ start: number; end: number; text: string }> = []
+  let lastEnd = -1
+
+  for (const edits of candidates) {
+    if (edits[0].start < lastEnd) {
+      continue
+    }
+
+    accepted.push(...edits)
+    lastEnd = edits[edits.length - 1].end
+  }
+
+  return accepted
+    .sort((left, right) => right.start - left.start)
+    .reduce((output, edit) => `${output.slice(0, edit.start)}${edit.text}${output.slice(edit.end)}`, source)
+}
+
+const assertRecord = (label: string, actual: RuleTesterRecord, expected: RuleTesterExpectedError): void => {
+  const { message } = expected
+
+  if (typeof message === 'string' && actual.message !== message) {
+    fail(`${label}: message does not match`, actual.message, message)
+  }
+
+  if (message instanceof RegExp && !message.test(actual.message)) {
+    fail(`${label}: message does not match ${message}`, actual.message, message)
+  }
+
+  if (expected.line !== undefined && actual.line !== expected.line) {
+    fail(`${label}: line does not match`, actual.line, expected.line)
+  }
+
+  if (expected.column !== undefined && actual.column !== expected.column) {
+    fail(`${label}: column does not match`, actual.column, expected.column)
+  }
+
+  if (expected.code !== undefined && actual.code !== expected.code) {
+    fail(`${label}: code does not match`, actual.code, expected.code)
+  }
+
+  if (expected.suggestions !== undefined) {
+    const suggestions = actual.suggestions.map((suggestion) => suggestion.text)
+
+    if (
+      suggestions.length !== expected.suggestions.length ||
+      suggestions.some((text, index) => text !== expected.suggestions?.[index])
+    ) {
+      fail(`${label}: suggestions do not match`, suggestions, expected.suggestions)
+    }
+  }
+}
+
+const assertParsable = (
+  label: string,
+  source: string,
+  filePath: string,
+  parse: (source: string, filePath: string) => Module
+): void => {
+  try {
+    parse(source, filePath)
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    fail(`${label} is not valid syntax: ${detail}`, source, undefined)
+  }
+}
+
+const fail = (message: string, actual: unknown, expected: unknown): never => {
+  throw new AssertionError({ message, actual, expected, operator: 'ruleTester' })
+}
+
+const formatCaseLabel = (rule: Rule, kind: 'valid' | 'invalid', index: number, testCase: RuleTesterCase): string =>
+  `[${rule.name}] ${kind}[${index}]${testCase.name ? ` ${testCase.name}` : ''}`
+
+const describeRecord = (record: RuleTesterRecord): string =>
+  `${record.line ?? '-'}:${record.column ?? '-'} ${record.message}`
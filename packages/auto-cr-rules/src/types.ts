@@ -36,12 +36,20 @@ export interface RuleSuggestion {
   link?: string
 }
 
+// 可自动应用的文本替换：span 与 AST 节点一致（SWC byte offset），把 [start, end) 替换为 text。
+export interface RuleTextEdit {
+  span: Span
+  text: string
+}
+
 export interface RuleReporterRecord {
   description: string
   code?: string
   suggestions?: ReadonlyArray<RuleSuggestion>
   span?: Span
   line?: number
+  // 机器可应用的修复（--fix）；同一违规的多处 edit 会一起应用或一起跳过。
+  fix?: ReadonlyArray<RuleTextEdit>
 }
 
 export interface RuleViolationInit {
@@ -51,6 +59,7 @@ export interface RuleViolationInit {
   suggestions?: ReadonlyArray<RuleSuggestion>
   span?: Span
   line?: number
+  fix?: ReadonlyArray<RuleTextEdit>
 }
 
 export type RuleViolationInput = string | RuleViolationInit
@@ -97,6 +106,47 @@ export interface RuleAnalysis {
   hotPath: HotPathIndex
 }
 
+// 模块说明符的解析结果：resolved 为项目内的源码文件；
+// aliased 表示说明符命中了 tsconfig paths/baseUrl 或 workspace 包名（即指向项目内代码）。
+export interface ModuleResolution {
+  resolved: string | null
+  aliased: boolean
+}
+
+// 项目模块图：每次扫描构建一次、所有规则共享。扫描文件的依赖来自其 SWC 分析结果，
+// 其余文件按需解析后缓存；路径均为绝对路径。
+export interface ProjectGraph {
+  resolve(specifier: string, fromFile: string): string | null
+  resolveModule(specifier: string, fromFile: string): ModuleResolution
+  // 说明符指向的文件或依赖包是否存在（含项目外文件、声明文件与 node_modules 中的包）。
+  exists(specifier: string, fromFile: string): boolean
+  // 直接依赖（import/require/动态 import/export-from），只包含能解析到项目内源码的模块。
+  importsOf(filePath: string): ReadonlyArray<string>
+  // 影响 filePath 导入解析结果的路径：所用 tsconfig 与 package.json 等配置文件，
+  // 以及无法解析的说明符探测过的候选路径（可能尚不存在）。供宿主判断缓存失效。
+  resolutionInputsOf(filePath: string): ReadonlyArray<string>
+  // 扫描文件中直接依赖 filePath 的文件。
+  importersOf(filePath: string): ReadonlyArray<string>
+  // 导出名称（default 记为 'default'），export * 会展开被转发模块的导出。
+  exportsOf(filePath: string): ReadonlyArray<string>
+  // 用已解析好的 AST 登记模块（扫描文件在执行规则前登记，避免重复解析）。
+  addModule(filePath: string, ast: Module, imports?: ReadonlyArray<ImportReference>): void
+  // 替换扫描文件集合（watch 模式下文件增删时调用）。
+  setFiles(files: ReadonlyArray<string>): void
+  // 失效指定文件的模块信息；不传则全部清空。
+  invalidate(filePaths?: ReadonlyArray<string>): void
+}
+
+// 规则上下文中的项目视图：fromFile/filePath 缺省为当前文件。
+export interface RuleProject {
+  resolve(specifier: string, fromFile?: string): string | null
+  resolveModule(specifier: string, fromFile?: string): ModuleResolution
+  exists(specifier: string, fromFile?: string): boolean
+  importsOf(filePath?: string): ReadonlyArray<string>
+  importersOf(filePath?: string): ReadonlyArray<string>
+  exportsOf(filePath?: string): ReadonlyArray<string>
+}
+
 // 规则文案接口（由 messages.ts 实现）。
 export interface RuleMessages {
   noDeepRelativeImports(params: { value: string; maxDepth: number }): string
@@ -114,8 +164,31 @@ export interface RuleHelpers {
   isRelativePath(value: string): boolean
   relativeDepth(value: string): number
   reportViolation(input: RuleViolationInput, span?: Span): void
+  // 把 span 起点换算为行列（从 1 开始，列按 UTF-16 计），供 collect 阶段记录位置。
+  locate(span: Span): { line: number; column: number }
 }
 
+// 规则配置项的取值类型（.autocrrc 中 [severity, options] 的 options 部分）。
+export type RuleOptionType = 'boolean' | 'number' | 'integer' | 'string' | 'string[]'
+
+export type RuleOptionValue = boolean | number | string | ReadonlyArray<string>
+
+// 单个配置项声明：类型、默认值与取值约束。
+export interface RuleOptionDefinition {
+  type: RuleOptionType
+  default?: RuleOptionValue
+  minimum?: number
+  maximum?: number
+  enum?: ReadonlyArray<string>
+  description?: string
+}
+
+// 规则配置项 schema：key 为配置项名称。
+export type RuleOptionsSchema = Readonly<Record<string, RuleOptionDefinition>>
+
+// 规则运行时拿到的配置项（默认值 + 用户配置）。
+export type RuleOptions = Readonly<Record<string, RuleOptionValue | undefined>>
+
 // 规则执行上下文：包含 AST/源码/语言/工具方法。
 export interface RuleContext {
   readonly filePath: string
@@ -127,19 +200,70 @@ export interface RuleContext {
   readonly sourceIndex: SourceIndex
   readonly helpers: RuleHelpers
   readonly messages: RuleMessages
+  readonly options: RuleOptions
+  // 跨文件信息（依赖解析、依赖方、导出），整个扫描共享同一份模块图。
+  readonly project: RuleProject
+}
+
+// 两阶段规则：单个文件 collect 的结果。
+export interface RuleCollectedEntry<TData = unknown> {
+  filePath: string
+  data: TData
+}
+
+// finalize 阶段上报的违规：此时没有 AST，位置用行列表示（可在 collect 阶段用 helpers.locate 换算）。
+export interface RuleProjectViolation {
+  filePath: string
+  description: string
+  line?: number
+  column?: number
+  code?: string
+  suggestions?: ReadonlyArray<RuleSuggestion>
+}
+
+// finalize 阶段的模块图查询：没有“当前文件”，需要显式传入路径。
+export type ProjectGraphReader = Pick<
+  ProjectGraph,
+  'resolve' | 'resolveModule' | 'exists' | 'importsOf' | 'importersOf' | 'exportsOf'
+>
+
+// finalize 上下文：所有文件扫描结束后执行一次，汇总各文件 collect 的结果。
+export interface RuleProjectContext<TData = unknown> {
+  readonly language: Language
+  readonly messages: RuleMessages
+  readonly options: RuleOptions
+  readonly project: ProjectGraphReader
+  // 按扫描顺序排列；collect 返回 undefined 的文件不包含在内。
+  readonly collected: ReadonlyArray<RuleCollectedEntry<TData>>
+  report(violation: RuleProjectViolation): void
+}
+
+// defineRule 的钩子形式：run 与单文件规则相同；collect 对每个文件执行一次，
+// 返回值需可 JSON 序列化（会从 worker 传回主线程并写入结果缓存）；finalize 在扫描结束后执行一次。
+export interface RuleHooks<TData = unknown> {
+  run?(context: RuleContext): void | Promise<void>
+  collect?(context: RuleContext): TData | undefined | Promise<TData | undefined>
+  finalize?(context: RuleProjectContext<TData>): void | Promise<void>
 }
 
 // 规则元数据（用于 tag/严重级别等）。
 export interface RuleMetadata {
   tag?: string
   severity?: RuleSeverity
+  // 声明可配置项；未声明 schema 的规则不接受 options。
+  schema?: RuleOptionsSchema
 }
 
 export interface Rule {
   name: string
   tag?: string
   severity?: RuleSeverity
+  schema?: RuleOptionsSchema
+  // 用户配置并通过校验的 options（由 CLI 写入），不含默认值。
+  options?: RuleOptions
   run(context: RuleContext): void | Promise<void>
+  collect?(context: RuleContext): unknown
+  finalize?(context: RuleProjectContext): void | Promise<void>
 }
 
 export function defineRule(
@@ -151,26 +275,46 @@ export function defineRule(
   metadata: RuleMetadata,
   runner: (context: RuleContext) => void | Promise<void>
 ): Rule
+export function defineRule<TData>(name: string, hooks: RuleHooks<TData>): Rule
+export function defineRule<TData>(name: string, metadata: RuleMetadata, hooks: RuleHooks<TData>): Rule
 export function defineRule(
   name: string,
-  metadataOrRunner: RuleMetadata | ((context: RuleContext) => void | Promise<void>),
-  maybeRunner?: (context: RuleContext) => void | Promise<void>
+  metadataOrRunner: RuleMetadata | RuleHooks | ((context: RuleContext) => void | Promise<void>),
+  maybeRunner?: RuleHooks | ((context: RuleContext) => void | Promise<void>)
 ): Rule {
-  const metadata: RuleMetadata = typeof metadataOrRunner === 'function' ? {} : metadataOrRunner
-  const runner = typeof metadataOrRunner === 'function' ? metadataOrRunner : maybeRunner
+  // 两个参数时第二个参数可能是 runner、钩子对象或元数据（元数据不含函数字段）。
+  const isHooksOnly = maybeRunner === undefined && isRuleHooks(metadataOrRunner)
+  const metadata: RuleMetadata =
+    typeof metadataOrRunner === 'function' || isHooksOnly ? {} : (metadataOrRunner as RuleMetadata)
+  const runner = typeof metadataOrRunner === 'function' || isHooksOnly ? metadataOrRunner : maybeRunner
+  const hooks: RuleHooks | undefined = typeof runner === 'function' ? { run: runner } : (runner as RuleHooks)
 
-  if (!runner) {
-    throw new Error('defineRule requires a rule runner function')
+  if (!hooks || (typeof hooks.run !== 'function' && typeof hooks.finalize !== 'function')) {
+    throw new Error('defineRule requires a rule runner function or a finalize hook')
   }
 
   return {
     name,
     ...metadata,
     severity: metadata.severity ?? RuleSeverity.Error,
-    run: runner,
+    run: hooks.run ?? noopRunner,
+    ...(hooks.collect ? { collect: hooks.collect } : {}),
+    ...(hooks.finalize ? { finalize: hooks.finalize } : {}),
   }
 }
 
+// 只有 collect/finalize 的规则在单文件阶段无事可做。
+const noopRunner = (): void => {}
+
+const isRuleHooks = (value: unknown): value is RuleHooks => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const hooks = value as Record<string, unknown>
+  return ['run', 'collect', 'finalize'].some((key) => typeof hooks[key] === 'function')
+}
+
 export const isRule = (value: unknown): value is Rule => {
   return (
     typeof value === 'object' &&
@@ -0,0 +1,246 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, describe, it } from 'node:test'
+import {
+  createRuleTester,
+  noCatastrophicRegex,
+  noCircularDependencies,
+  noDeepCloneInLoop,
+  noDeepRelativeImports,
+  noN2ArrayLookup,
+  noSwallowedErrors,
+  noUnresolvedImports,
+} from '../src'
+
+// 内置规则的行为测试：用例通过 RuleTester 执行，与自定义规则作者使用的方式一致。
+
+const tester = createRuleTester()
+
+// 跨文件规则需要真实的磁盘文件，用例文件名指向临时目录。
+const fixtureDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'auto-cr-rules-')))
+
+const writeFixture = (relativePath: string, content: string): string => {
+  const filePath = path.join(fixtureDir, relativePath)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content)
+  return filePath
+}
+
+// 临时目录作为独立项目根目录（resolveProjectRoot 向上查找 package.json），否则其中的文件会被视为项目外模块。
+writeFixture('package.json', '{}')
+
+after(() => fs.rmSync(fixtureDir, { recursive: true, force: true }))
+
+describe('no-deep-relative-imports', () => {
+  it('reports relative imports deeper than maxDepth', () =>
+    tester.run(noDeepRelativeImports, {
+      valid: [
+        "import { a } from './a'",
+        "import { b } from '../../b'",
+        "import { c } from 'lodash'",
+      ],
+      invalid: [
+        {
+          code: "import { c } from '../../../c'",
+          errors: [
+            {
+              message: 'Import path "../../../c" must not exceed max depth 2',
+              line: 1,
+              code: '../../../c',
+            },
+          ],
+        },
+        {
+          code: "import { b } from '../../b'",
+          options: { maxDepth: 1 },
+          errors: [{ message: /max depth 1$/ }],
+        },
+      ],
+    }))
+
+  it('fixes the specifier with a matching tsconfig paths alias', () => {
+    writeFixture(
+      'alias/tsconfig.json',
+      JSON.stringify({
+        compilerOptions: { baseUrl: '.', paths: { '@shared/*': ['src/shared/*'] } },
+      })
+    )
+
+    return tester.run(noDeepRelativeImports, {
+      invalid: [
+        {
+          code: "import { util } from '../../../shared/util'",
+          filename: path.join(fixtureDir, 'alias/src/features/a/b/index.ts'),
+          errors: 1,
+          output: "import { util } from '@shared/util'",
+        },
+      ],
+    })
+  })
+})
+
+describe('no-circular-dependencies', () => {
+  it('reports imports that lead back to the current file', () => {
+    const entry = writeFixture('cycle/a.ts', "import { b } from './b'\nexport const a = b\n")
+    writeFixture('cycle/b.ts', "import { a } from './a'\nexport const b = a\n")
+    writeFixture('cycle/c.ts', 'export const c = 1\n')
+
+    return tester.run(noCircularDependencies, {
+      valid: [{ code: "import { c } from './c'\nexport const a = c\n", filename: entry }],
+      invalid: [
+        {
+          code: "import { b } from './b'\nexport const a = b\n",
+          filename: entry,
+          errors: [
+            {
+              message: 'Circular dependency detected: cycle/a.ts -> cycle/b.ts -> cycle/a.ts',
+              line: 1,
+            },
+          ],
+        },
+      ],
+    })
+  })
+})
+
+describe('no-unresolved-imports', () => {
+  it('reports imports that cannot be resolved', () => {
+    const entry = writeFixture('unresolved/index.ts', '')
+    writeFixture('unresolved/present.ts', 'export const present = 1\n')
+
+    return tester.run(noUnresolvedImports, {
+      valid: [
+        { code: "import { present } from './present'", filename: entry },
+        { code: "import fs from 'fs'\nimport path from 'node:path'", filename: entry },
+        {
+          code: "import icons from 'virtual:icons'",
+          filename: entry,
+          options: { allow: ['virtual:*'] },
+        },
+      ],
+      invalid: [
+        {
+          code: "import { missing } from './missing'\nimport { again } from './missing'",
+          filename: entry,
+          errors: [{ code: './missing', line: 1 }],
+        },
+        {
+          code: "import icons from 'virtual:icons'",
+          filename: entry,
+          errors: [{ code: 'virtual:icons' }],
+        },
+      ],
+    })
+  })
+})
+
+describe('no-swallowed-errors', () => {
+  it('reports try statements whose catch and finally blocks are empty', () =>
+    tester.run(noSwallowedErrors, {
+      valid: [
+        'try { run() } catch (error) { console.error(error) }',
+        'try { run() } catch { } finally { cleanup() }',
+        'try { run() } catch (error) { throw error }',
+      ],
+      invalid: [
+        {
+          code: 'try {\n  run()\n} catch (error) {\n}',
+          errors: [
+            {
+              message:
+                'Caught exception is neither rethrown nor logged; potential swallowed error detected.',
+              line: 3,
+            },
+          ],
+        },
+        {
+          // shebang 所在行同样计入行号。
+          code: '#!/usr/bin/env node\n// cli\ntry {\n  run()\n} catch (error) {\n}\n\n\n\nrun()',
+          errors: [{ line: 5 }],
+        },
+        { code: 'try { run() } catch { ; { } }', errors: 1 },
+        { code: 'try { run() } finally { }', errors: 1 },
+      ],
+    }))
+})
+
+describe('no-catastrophic-regex', () => {
+  it('reports nested unbounded quantifiers in hot paths', () =>
+    tester.run(noCatastrophicRegex, {
+      valid: [
+        'const pattern = /(a+)+$/',
+        'items.forEach((item) => /^[a-z]+$/.test(item))',
+        'for (const item of items) { /(ab){1,3}+/.test(item) }',
+        'for (const item of items) { new RegExp(`(${item})+`) }',
+      ],
+      invalid: [
+        {
+          code: 'for (const item of items) { /(a+)+$/.test(item) }',
+          errors: [{ code: '(a+)+$', line: 1 }],
+        },
+        {
+          code: "items.map((item) => new RegExp('(\\\\w*)*x').test(item))",
+          errors: [{ code: '(\\w*)*x' }],
+        },
+        {
+          code: 'while (next()) { RegExp(`((a|b)+){2,}`) }',
+          errors: 1,
+        },
+      ],
+    }))
+})
+
+describe('no-deep-clone-in-loop', () => {
+  it('reports standard deep clone calls in hot paths', () =>
+    tester.run(noDeepCloneInLoop, {
+      valid: [
+        'const copy = structuredClone(value)',
+        'for (const item of items) { copy({ ...item }) }',
+      ],
+      invalid: [
+        {
+          code: 'for (const item of items) { structuredClone(item) }',
+          errors: [{ code: 'structuredClone(...)', line: 1 }],
+        },
+        {
+          code: 'items.map((item) => globalThis.structuredClone(item))',
+          errors: [{ code: 'structuredClone(...)' }],
+        },
+        {
+          code: 'items.forEach((item) => JSON.parse(JSON.stringify(item)))',
+          errors: [{ code: 'JSON.parse(JSON.stringify(...))' }],
+        },
+      ],
+    }))
+})
+
+describe('no-n2-array-lookup', () => {
+  it('reports linear lookups in hot paths', () =>
+    tester.run(noN2ArrayLookup, {
+      valid: [
+        'const found = users.find((user) => user.id === id)',
+        'for (const id of ids) { index.get(id) }',
+      ],
+      invalid: [
+        {
+          code: 'for (const id of ids) {\n  users.find((user) => user.id === id)\n}',
+          errors: [{ code: 'find', line: 2 }],
+        },
+        {
+          code: "orders.map((order) => users['includes'](order.userId))",
+          errors: [{ code: 'includes' }],
+        },
+      ],
+    }))
+
+  it('uses localized messages', () =>
+    createRuleTester({ language: 'zh' }).run(noN2ArrayLookup, {
+      invalid: [
+        {
+          code: 'for (const id of ids) { users.indexOf(id) }',
+          errors: [{ message: '热路径中使用线性查找方法 indexOf，可能导致 O(n^2) 访问。' }],
+        },
+      ],
+    }))
+})